@@ -0,0 +1,125 @@
+// accounts.ts
+
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+import { AccountData, adoptLegacyData, createAccountStorage } from "@/app/storage";
+
+// --- Types ---
+export type UserAccount = {
+  id: string;
+  username: string; // Lowercase, unique
+  passwordHash: string; // scrypt, hex
+  salt: string;
+  createdAt: string;
+};
+
+// Only a hash of the session token is stored, so a leaked accounts file can't be used to sign in.
+export type Session = {
+  id: string; // sha256 of the token, hex
+  userId: string;
+  expiresAt: string;
+};
+
+export type PublicUser = Pick<UserAccount, "id" | "username">;
+
+export const SESSION_DAYS = 30;
+const MIN_PASSWORD_LENGTH = 8;
+
+// --- Persistent storage ---
+const storage = createAccountStorage();
+
+function write<T>(mutator: (data: AccountData) => T): T {
+  const data = storage.load();
+  const result = mutator(data);
+  storage.save(data);
+  return result;
+}
+
+function hashPassword(password: string, salt: string): string {
+  return crypto.scryptSync(password, salt, 64).toString("hex");
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function publicUser(user: UserAccount): PublicUser {
+  return { id: user.id, username: user.username };
+}
+
+// --- Accounts ---
+export function validateCredentials(body: any): { username: string; password: string } | { error: string } {
+  const username = typeof body?.username === "string" ? body.username.trim().toLowerCase() : "";
+  const password = typeof body?.password === "string" ? body.password : "";
+  if (!/^[a-z0-9_.-]{3,32}$/.test(username)) return { error: "Usernames are 3–32 letters, digits, dots, dashes or underscores." };
+  if (password.length < MIN_PASSWORD_LENGTH) return { error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.` };
+  return { username, password };
+}
+
+// The very first account also takes over the data of the single-user build, if there is any.
+export function registerUser(username: string, password: string, now = new Date()): PublicUser | { error: string } {
+  return write((data) => {
+    if (data.users.some((u) => u.username === username)) return { error: `The username "${username}" is taken.` };
+    const salt = crypto.randomBytes(16).toString("hex");
+    const user: UserAccount = {
+      id: crypto.randomBytes(12).toString("hex"),
+      username,
+      passwordHash: hashPassword(password, salt),
+      salt,
+      createdAt: now.toISOString(),
+    };
+    if (data.users.length === 0) adoptLegacyData(user.id);
+    data.users.push(user);
+    return publicUser(user);
+  });
+}
+
+export function verifyLogin(username: string, password: string): PublicUser | null {
+  const user = storage.load().users.find((u) => u.username === username.trim().toLowerCase());
+  if (!user) return null;
+  const expected = Buffer.from(user.passwordHash, "hex");
+  const actual = Buffer.from(hashPassword(password, user.salt), "hex");
+  return crypto.timingSafeEqual(expected, actual) ? publicUser(user) : null;
+}
+
+// --- Sessions ---
+// Returns the token for the cookie; expired sessions are dropped on the way.
+export function createSession(userId: string, now = new Date()): { token: string; expiresAt: Date } {
+  const token = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(now.getTime() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+  write((data) => {
+    data.sessions = data.sessions.filter((s) => new Date(s.expiresAt) > now);
+    data.sessions.push({ id: hashToken(token), userId, expiresAt: expiresAt.toISOString() });
+  });
+  return { token, expiresAt };
+}
+
+export function sessionUser(token: string | undefined, now = new Date()): PublicUser | null {
+  if (!token) return null;
+  const data = storage.load();
+  const session = data.sessions.find((s) => s.id === hashToken(token));
+  if (!session || new Date(session.expiresAt) <= now) return null;
+  const user = data.users.find((u) => u.id === session.userId);
+  return user ? publicUser(user) : null;
+}
+
+export function deleteSession(token: string) {
+  write((data) => {
+    data.sessions = data.sessions.filter((s) => s.id !== hashToken(token));
+  });
+}
+
+// --- Current User ---
+// The user a request is being handled for (see withUser in auth.ts). The expense store
+// reads it to pick that user's document, so nothing can be read or written without one.
+const currentUser = new AsyncLocalStorage<string>();
+
+export function runAsUser<T>(userId: string, fn: () => T): T {
+  return currentUser.run(userId, fn);
+}
+
+export function currentUserId(): string {
+  const userId = currentUser.getStore();
+  if (!userId) throw new Error("No signed-in user for this request.");
+  return userId;
+}
@@ -0,0 +1,113 @@
+// alerts.ts
+
+import { differenceInCalendarDays, format } from "date-fns";
+import { AlertSettings, BudgetAlert, BudgetSettings, BudgetVersion, CurrencySettings, Expense } from "@/app/expenseStore";
+import { formatMoney } from "@/app/currency";
+import { budgetPeriodAt, computeBudgetStatus } from "@/app/budgets";
+import { parseExpenseDate } from "@/app/summaryEngine";
+
+export const MAX_ALERTS = 100;
+
+// A pace measured over the first day or two of a period is mostly noise.
+const MIN_FORECAST_DAYS = 3;
+
+type AlertData = {
+  expenses: Expense[];
+  budgets: BudgetVersion[];
+  budgetSettings: BudgetSettings;
+  alerts: BudgetAlert[];
+  alertSettings: AlertSettings;
+  currency: CurrencySettings;
+};
+
+function subject(key: string): string {
+  return key === "total" ? "total spending" : key;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function thresholdsFor(key: string, settings: AlertSettings): number[] {
+  return settings.thresholds[key] ?? settings.defaults;
+}
+
+// --- Evaluation ---
+// Checks the budgets an expense counts against (the total, its category and the category's
+// parent) in the period the expense falls in, and returns alerts not raised before. Each
+// threshold alerts once per key and period, and only the highest one crossed is reported,
+// so one big expense doesn't produce "50%", "80%" and "100%" at once.
+export function evaluateAlerts(data: AlertData, parents: Record<string, string>, expense: Expense, now = new Date()): BudgetAlert[] {
+  if (expense.type === "income") return [];
+  const date = parseExpenseDate(expense.date);
+  if (isNaN(date.getTime())) return [];
+
+  const period = budgetPeriodAt(date, data.budgetSettings.cadence);
+  const status = computeBudgetStatus({ label: period.label, start: period.start, end: period.end }, data, parents);
+  const keys = Array.from(new Set(["total", expense.category, parents[expense.category]])).filter((k): k is string => !!k);
+  const seen = new Set(data.alerts.map((a) => a.id));
+  const money = (amount: number) => formatMoney(amount, data.currency.base);
+  const raised: BudgetAlert[] = [];
+
+  const raise = (alert: Omit<BudgetAlert, "period" | "expenseId" | "createdAt">) => {
+    if (seen.has(alert.id)) return;
+    raised.push({ ...alert, period: period.key, expenseId: expense.id, createdAt: now.toISOString() });
+  };
+
+  for (const key of keys) {
+    const budget = status.available[key];
+    if (!budget || budget <= 0) continue;
+    const spent = status.spent[key] || 0;
+    const percent = (spent / budget) * 100;
+    const shown = Math.floor(percent);
+
+    const crossed = thresholdsFor(key, data.alertSettings).filter((t) => percent >= t);
+    if (crossed.length) {
+      const threshold = Math.max(...crossed);
+      const over = spent - budget;
+      raise({
+        id: `threshold:${key}:${period.key}:${threshold}`,
+        kind: "threshold",
+        key,
+        threshold,
+        percent: shown,
+        message: threshold < 100
+          ? `This puts ${subject(key)} at ${shown}% of the ${money(budget)} budget for ${period.label}.`
+          : `${capitalize(subject(key))} is at ${shown}% of the ${money(budget)} budget for ${period.label}${over > 0 ? ` — ${money(over)} over` : ""}.`,
+      });
+    }
+
+    const forecast = forecastAt(spent, period, now);
+    if (data.alertSettings.forecast && percent < 100 && forecast !== null && forecast > budget) {
+      raise({
+        id: `forecast:${key}:${period.key}`,
+        kind: "forecast",
+        key,
+        percent: shown,
+        message: `At this pace ${subject(key)} will reach ${money(forecast)} by ${format(period.end, "d MMM")}, over the ${money(budget)} budget for ${period.label}.`,
+      });
+    }
+  }
+  return raised;
+}
+
+// Straight-line projection of spending to the end of the period. Only the period in
+// progress has a pace worth projecting.
+function forecastAt(spent: number, period: { start: Date; end: Date }, now: Date): number | null {
+  if (now < period.start || now > period.end) return null;
+  const elapsed = differenceInCalendarDays(now, period.start) + 1;
+  if (elapsed < MIN_FORECAST_DAYS) return null;
+  const length = differenceInCalendarDays(period.end, period.start) + 1;
+  return (spent / elapsed) * length;
+}
+
+// Newest first, keeping only the most recent MAX_ALERTS.
+export function withAlerts(existing: BudgetAlert[], raised: BudgetAlert[]): BudgetAlert[] {
+  return [...raised, ...existing].slice(0, MAX_ALERTS);
+}
+
+// "This puts Food at 92% …" goes under a chat reply when logging crossed a threshold.
+export function appendAlerts(reply: string, alerts: BudgetAlert[] | null): string {
+  if (!alerts?.length) return reply;
+  return [reply, ...alerts.map((a) => `${a.kind === "forecast" ? "📈" : "⚠️"} ${a.message}`)].join("\n");
+}
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { markAlertsRead } from "@/app/expenseStore";
+
+// POST /api/alerts/read — { "ids": ["…"] } marks those alerts read; without ids, all of them.
+export const POST = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => ({}));
+  const ids = body?.ids;
+  if (ids !== undefined && (!Array.isArray(ids) || ids.some((id: unknown) => typeof id !== "string"))) {
+    return NextResponse.json({ error: `"ids" must be an array of alert ids.` }, { status: 400 });
+  }
+  return NextResponse.json({ marked: markAlertsRead(ids) });
+});
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { clearAlerts, getAlerts } from "@/app/expenseStore";
+
+// GET /api/alerts — budget alerts, newest first.
+export const GET = withUser(async () => {
+  const alerts = getAlerts();
+  return NextResponse.json({ alerts, unread: alerts.filter((a) => !a.read).length });
+});
+
+export const DELETE = withUser(async () => {
+  clearAlerts();
+  return new NextResponse(null, { status: 204 });
+});
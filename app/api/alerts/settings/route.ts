@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { getAlertSettings, updateAlertSettings } from "@/app/expenseStore";
+import { validateAlertSettings } from "@/app/validation";
+
+export const GET = withUser(async () => {
+  return NextResponse.json(getAlertSettings());
+});
+
+// PUT /api/alerts/settings — { "defaults": [50, 80, 100], "thresholds": { "Food": [90] }, "forecast": true, "browser": false }.
+export const PUT = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  const result = validateAlertSettings(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid alert settings.", details: result.errors }, { status: 400 });
+  }
+  return NextResponse.json(updateAlertSettings(result.value));
+});
@@ -1,117 +1,200 @@
 import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
 import { 
   getExpenses, 
   getBudget, 
   setBudget, 
+  getBudgetSettings,
+  getBudgetStatus,
+  getSpendingForecast,
   Expense,
   BudgetMap,
+  categoryKeys,
+  categoryParents,
+  getCurrencySettings,
+  materializeRecurring,
+  Conversation,
 } from "@/app/expenseStore";
 import { format } from 'date-fns';
+import { generateValidated } from "@/app/llm/structured";
+import { CancelledError, streamReply, throwIfCancelled, wantsStream } from "@/app/llm/stream";
+import { ModelReply, validateModelReply } from "@/app/intentSchemas";
+import { cashFlow, filterByRange, normalizePeriod, normalizeSummaryQuery, PeriodSpec, resolvePeriod, runSummaryQuery } from "@/app/summaryEngine";
+import { phraseAdvice, phraseSummary } from "@/app/summaryReply";
+import { resolveBudgetDate } from "@/app/budgets";
+import { GOAL_INTENTS, handleGoalIntent } from "@/app/goalReplies";
+import { historyForPrompt } from "@/app/conversations";
+import { ChatResult, openConversation, recordExchange } from "@/app/conversationReplies";
+import { holdBudget, needsConfirmation } from "@/app/pendingActions";
+
+const ASSISTANT_INTENTS = ["get_summary", "get_advice", "set_budget", ...GOAL_INTENTS];
 
 // This is the powerful, conversational AI call for analysis and advice.
-async function callAssistantOllama(message: string, context: { expenses: Expense[], budget: BudgetMap }): Promise<any | null> {
-  const { expenses, budget } = context;
+async function callAssistantModel(message: string, context: { expenses: Expense[], budget: BudgetMap, history: string }): Promise<ModelReply | null> {
+  const { expenses, budget, history } = context;
   const today = format(new Date(), 'dd-MM-yyyy');
   const monthName = format(new Date(), 'MMMM');
+  const monthFlow = cashFlow(filterByRange(expenses, resolvePeriod("this_month")));
 
   try {
-    const res = await fetch("http://localhost:11434/api/generate", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model: "llama3:latest",
-        prompt: `
+    const result = await generateValidated({ userMessage: message, prompt: `
 You are "Fin", a world-class AI financial assistant. Your goal is to help users track spending and gain insights. You are conversational, insightful, and precise. You NEVER log expenses; your counterpart handles that. Your role is analysis and advice.
 
 **Core Principles:**
 1.  **Always Respond in JSON:** Your entire output MUST be a single, valid JSON object.
 2.  **Be an Analyst:** When asked for data, don't just state it. Provide a brief, helpful insight.
 3.  **Answer Freely:** You can answer general financial questions, give savings tips, and analyze spending patterns.
+4.  **Use Valid Categories ONLY:** Refer to spending categories by these names: ${JSON.stringify(categoryKeys("expense"))}.
+5.  **Remember Context:** The conversation so far is provided. Read follow-ups like "and last month?" or "what about food?" against it.
+6.  **Logging Is Elsewhere:** If the user tries to log, edit or delete a transaction, set "execution_status" to "CLARIFICATION_NEEDED" and tell them to switch the chat to Log or Auto mode.
 
 **User's Financial Context:**
 - Today's Date: ${today}
 - Current Month: ${monthName}
-- All Expenses: ${JSON.stringify(expenses)}
+- Currency: every amount is in ${getCurrencySettings().base}
+- All Transactions (type "income" is money in, "expense" is money out): ${JSON.stringify(expenses)}
 - Budget: ${JSON.stringify(budget)}
+- ${monthName} Cash Flow (income, spent, net savings, savings rate %): ${JSON.stringify(monthFlow)}
+
+**Conversation So Far:**
+${history}
 
 **Your JSON Response Format:**
 {
   "intent": "The user's goal (e.g., 'get_summary', 'get_advice', 'set_budget').",
   "data": { },
-  "reply": "Your conversational response to the user. You can use markdown for lists."
+  "reply": "Your conversational response to the user. You can use markdown for lists.",
+  "confidence": <0 to 1, how sure you are that you read the message right>
 }
 
 **INTENT: "get_summary"**
-- **Trigger:** User asks for a summary. E.g., "how much on food?", "show me my spending this month".
-- **Data:** { "summary_type": "category_total" | "all_spending", "period": "${monthName}", "result": [{ "category": "<CategoryKey>", "total": <number> }] }
-- **Action:** Calculate the summary and return it in 'result'. Your reply should also contain the summary in a conversational way.
+- **Trigger:** User asks for a summary. E.g., "how much on food?", "show me my spending this month", "food vs shopping", "this month vs last month", "how much is left in my budget?", "where did I spend most?", "how much did I earn?", "how much did I save this month?".
+- **Data:** { "summary_type": "category_total" | "all_spending" | "by_period" | "by_merchant" | "by_tag" | "compare_categories" | "compare_periods" | "budget_remaining" | "income_total" | "cash_flow", "category": "<CategoryKey>" (optional), "categories": ["<CategoryKey>", "<CategoryKey>"] (for compare_categories), "merchant": "<text in the note>" (optional), "tag": "<tag>" (optional, for questions about a tag; use "by_tag" for "spending by tag"), "period": "today" | "yesterday" | "this_week" | "last_week" | "this_month" | "last_month" | "this_year" | "all_time" | "<Month name> <yyyy>" | { "from": "dd-MM-yyyy", "to": "dd-MM-yyyy" } (omit unless the user names a period; the period they are viewing is used), "periods": [<period>, <period>] (for compare_periods), "granularity": "day" | "week" | "month" (for by_period) }
+- **Action:** ONLY extract the query. Do NOT calculate any totals yourself; the app computes the numbers and phrases the answer. Leave "reply" empty.
 
 **INTENT: "set_budget"**
-- **Trigger:** User wants to change their budget. E.g., "set my total budget to 60000".
-- **Data:** { "category": "<CategoryKey>" | "total", "amount": <number> }
-- **Action:** Extract the category and amount for budget setting.
+- **Trigger:** User wants to change their budget. E.g., "set my total budget to 60000", "make next month's food budget 12000".
+- **Data:** { "category": "<CategoryKey>" | "total", "amount": <number>, "period": "this_month" | "next_month" | "next_week" | "<Month name> <yyyy>" (optional; omit for the current budget period) }
+- **Action:** Extract the category and amount for budget setting. The user may be asked to confirm the change before it applies.
 
 **INTENT: "get_advice"**
-- **Trigger:** User asks for help saving money or for financial tips. E.g., "how can i save 2000?"
-- **Data:** { "goal": <number | null> }
-- **Action:** Analyze spending vs budget. Provide specific, actionable advice in the reply.
+- **Trigger:** User asks for help saving money, for financial tips, or where the month is heading. E.g., "how can i save 2000?", "will I stay under budget?", "am I on track with food?"
+- **Data:** { "goal": <number | null>, "category": "<CategoryKey>" (optional, when the user asks about one category) }
+- **Action:** The app adds a computed month-end forecast to your reply, so don't guess future totals. Analyze spending vs budget and vs income. Use the cash flow figures as given: if net savings are negative, say so plainly; if the savings rate is low, suggest where to cut. Provide specific, actionable advice in the reply.
+
+**INTENT: "add_goal"**
+- **Trigger:** User wants to save up for something. E.g., "save 80000 for a laptop by March", "new goal: emergency fund 200000, putting aside 10000 a month".
+- **Data:** { "name": "<short name, e.g. Laptop>", "target": <number>, "deadline": "dd-MM-yyyy" | "<Month name> <yyyy>" (optional), "monthly_contribution": <number> (optional) }
+
+**INTENT: "goal_progress"**
+- **Trigger:** User asks how their savings goals are going. E.g., "how's my laptop goal?", "am I on track with my goals?"
+- **Data:** { "goal": "<goal name>" (optional; omit for all goals) }
+- **Action:** The app computes progress from actual surpluses. Leave "reply" empty.
+
+**INTENT: "goal_plan"**
+- **Trigger:** User asks what it takes to reach a goal. E.g., "how much do I need to cut from Shopping to hit my laptop goal by March?"
+- **Data:** { "goal": "<goal name>" (optional if there is only one), "category": "<CategoryKey>" (optional, the category to cut), "deadline": "dd-MM-yyyy" | "<Month name> <yyyy>" (optional; defaults to the goal's own) }
+- **Action:** Do NOT calculate anything yourself; the app works out the numbers. Leave "reply" empty.
 
 **Example Flow:**
 User: "how much have i spent on shopping this month?"
-You: { "intent": "get_summary", "data": { "summary_type": "category_total", "period": "${monthName}", "result": [{"category": "Shopping", "total": 8500}] }, "reply": "You've spent ₹8,500 on Shopping so far in ${monthName}. This is slightly above your average pace for the month."}
+You: { "intent": "get_summary", "data": { "summary_type": "category_total", "category": "Shopping", "period": "this_month" }, "reply": "" }
 
 User: "set my entertainment budget to 4000"
-You: { "intent": "set_budget", "data": {"category": "Entertainment", "amount": 4000}, "reply": "✅ Done. I've updated your Entertainment budget for the month to ₹4,000."}
-
-User: "${message}"`,
-        stream: false
-      })
-    });
-    if (!res.ok) throw new Error(`Ollama server responded with status: ${res.status}`);
-    const data = await res.json();
-    const sanitizedResponse = data.response.replace(/```json/g, '').replace(/```/g, '').trim();
-    return JSON.parse(sanitizedResponse);
+You: { "intent": "set_budget", "data": {"category": "Entertainment", "amount": 4000}, "reply": "Setting your Entertainment budget for the month to ₹4,000.", "confidence": 0.95}
+
+User: "${message}"` }, (raw) => validateModelReply(raw, ASSISTANT_INTENTS));
+    return result.ok ? result.value : null;
   } catch (err) {
-    console.error("❌ Assistant Ollama call failed:", err);
+    if (!(err instanceof CancelledError)) console.error("❌ Assistant model call failed:", err);
     return null;
   }
 }
 
 
-export async function POST(req: NextRequest) {
-  const { message } = await req.json();
-
+// Works out the reply to one question, with the conversation so far in the prompt.
+async function answer(message: string, viewPeriod: PeriodSpec | undefined, conversation: Conversation): Promise<ChatResult> {
   const context = {
     expenses: getExpenses(),
     budget: getBudget(),
+    history: historyForPrompt(conversation),
   };
 
-  const parsed = await callAssistantOllama(message, context);
+  const parsed = await callAssistantModel(message, context);
+  // A cancelled reply changes nothing, even if the model had already answered.
+  throwIfCancelled();
+
+  if (!parsed) {
+    return { reply: "⚠️ I had trouble understanding that. Could you rephrase your question?" };
+  }
 
-  if (!parsed || !parsed.intent) {
-    return NextResponse.json({ reply: "⚠️ I had trouble understanding that. Could you rephrase your question?" });
+  // Only a successful, validated extraction may change anything.
+  if (parsed.execution_status !== "SUCCESS") {
+    return { reply: parsed.reply || "🤔 Could you tell me a bit more?" };
   }
   
   switch (parsed.intent) {
     case "set_budget": {
         const d = parsed.data;
-        const newBudget = { ...getBudget() };
-        if (d.category && d.category.toLowerCase() !== 'total') {
-            newBudget[d.category as keyof BudgetMap] = d.amount;
-        } else {
-            newBudget.total = d.amount;
-        }
-        setBudget(newBudget);
-        return NextResponse.json({ reply: parsed.reply, updatedBudget: getBudget() });
+        // Budgets are per period: "next month" or "November 2026" if named, otherwise the current one.
+        const at = resolveBudgetDate(normalizePeriod(d.period), getBudgetSettings().cadence);
+        const key = d.category && d.category.toLowerCase() !== 'total' ? d.category : "total";
+        if (needsConfirmation(d.amount, parsed.confidence)) return holdBudget(conversation, key, d.amount, at);
+        const before = getBudget(at);
+        setBudget({ ...before, [key]: d.amount }, at);
+        return {
+          reply: parsed.reply,
+          updatedBudget: getBudget(at),
+          turn: { intent: parsed.intent, planChanges: [{ kind: "budget", date: format(at, "dd-MM-yyyy"), key, before: before[key] }] },
+        };
+    }
+
+    // The model only extracted the query; the numbers come from the summary engine.
+    case "get_summary": {
+        const query = normalizeSummaryQuery(parsed.data);
+        if (!query.period) query.period = viewPeriod;
+        const result = runSummaryQuery(query, context.expenses, getBudgetStatus(resolvePeriod(query.period)).available);
+        const reply = await phraseSummary(message, result, getCurrencySettings().base);
+        return { reply, summaryData: result.rows };
     }
 
-    // For summary and advice, the AI has already done the work. We just pass its response through.
-    case "get_summary":
+    // Questions like "will I stay under budget?" are answered from the computed forecast.
     case "get_advice": {
-        return NextResponse.json({ reply: parsed.reply, summaryData: parsed.data.result });
+        const category = parsed.data.category;
+        const reply = await phraseAdvice(message, getSpendingForecast(), parsed.reply, category ? categoryParents()[category] ?? category : undefined);
+        return { reply };
     }
 
+    // Goal figures come from the app's own surplus calculations, never from the model.
+    case "add_goal":
+    case "goal_progress":
+    case "goal_plan":
+        return handleGoalIntent(parsed.intent, parsed.data, parsed.reply, conversation, parsed.confidence);
+
     default:
-      return NextResponse.json({ reply: parsed.reply || "🤔 I'm not sure how to handle that request." });
+      return { reply: parsed.reply || "🤔 I'm not sure how to handle that request." };
   }
 }
+
+export const POST = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+  }
+  const { message: rawMessage, period, conversationId } = body;
+  const message = String(rawMessage ?? "");
+  // The period the user is looking at on the dashboard; summaries default to it.
+  const viewPeriod = normalizePeriod(period);
+
+  // The same store the entries pipeline logs into, with any bills that have come due.
+  materializeRecurring();
+
+  // Streamed replies show the text as it's written; the intent is applied once it's complete.
+  const respond = async () => {
+    const conversation = openConversation(conversationId, message);
+    const result = await answer(message, viewPeriod, conversation);
+    throwIfCancelled();
+    return recordExchange(conversation, message, result);
+  };
+  return wantsStream(req) ? streamReply(req, respond) : NextResponse.json(await respond());
+});
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSession, verifyLogin } from "@/app/accounts";
+import { setSessionCookie } from "@/app/auth";
+
+// POST /api/auth/login — { "username", "password" }.
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const user = typeof body?.username === "string" && typeof body?.password === "string" ? verifyLogin(body.username, body.password) : null;
+  if (!user) {
+    return NextResponse.json({ error: "Wrong username or password." }, { status: 401 });
+  }
+  const session = createSession(user.id);
+  const res = NextResponse.json({ user });
+  setSessionCookie(res, session.token, session.expiresAt);
+  return res;
+}
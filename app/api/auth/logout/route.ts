@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteSession } from "@/app/accounts";
+import { clearSessionCookie, SESSION_COOKIE } from "@/app/auth";
+
+export async function POST(req: NextRequest) {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (token) deleteSession(token);
+  const res = new NextResponse(null, { status: 204 });
+  clearSessionCookie(res);
+  return res;
+}
@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sessionUser } from "@/app/accounts";
+import { SESSION_COOKIE } from "@/app/auth";
+
+// GET /api/auth/me — the signed-in user, or 401.
+export async function GET(req: NextRequest) {
+  const user = sessionUser(req.cookies.get(SESSION_COOKIE)?.value);
+  if (!user) return NextResponse.json({ error: "Not signed in." }, { status: 401 });
+  return NextResponse.json({ user });
+}
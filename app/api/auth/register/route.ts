@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSession, registerUser, validateCredentials } from "@/app/accounts";
+import { setSessionCookie } from "@/app/auth";
+
+// POST /api/auth/register — { "username", "password" }. Signs the new user in.
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const credentials = validateCredentials(body);
+  if ("error" in credentials) {
+    return NextResponse.json({ error: "Invalid account details.", details: [credentials.error] }, { status: 400 });
+  }
+
+  const user = registerUser(credentials.username, credentials.password);
+  if ("error" in user) {
+    return NextResponse.json({ error: user.error }, { status: 409 });
+  }
+  const session = createSession(user.id);
+  const res = NextResponse.json({ user }, { status: 201 });
+  setSessionCookie(res, session.token, session.expiresAt);
+  return res;
+}
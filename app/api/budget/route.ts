@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { getBudget, getBudgetSettings, setBudget } from "@/app/expenseStore";
+import { budgetDateParam } from "@/app/budgets";
+import { validateBudget } from "@/app/validation";
+
+// GET /api/budget?date=19-10-2026 (or ?period=next_month) — the budget for the period
+// containing that date. Defaults to the current period.
+export const GET = withUser(async (req: NextRequest) => {
+  const at = budgetDateParam(req.nextUrl.searchParams, getBudgetSettings().cadence);
+  if ("error" in at) {
+    return NextResponse.json({ error: at.error }, { status: 400 });
+  }
+  return NextResponse.json(getBudget(at.date));
+});
+
+// PUT /api/budget?date=… — replaces that period's budget, e.g. { "total": 50000, "Food": 15000 }.
+// Later periods follow it until their own budget is changed.
+export const PUT = withUser(async (req: NextRequest) => {
+  const at = budgetDateParam(req.nextUrl.searchParams, getBudgetSettings().cadence);
+  if ("error" in at) {
+    return NextResponse.json({ error: at.error }, { status: 400 });
+  }
+  const body = await req.json().catch(() => null);
+  const result = validateBudget(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid budget.", details: result.errors }, { status: 400 });
+  }
+  setBudget(result.value, at.date);
+  return NextResponse.json(getBudget(at.date));
+});
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { getBudget, getBudgetSettings, updateBudgetSettings } from "@/app/expenseStore";
+import { validateBudgetSettings } from "@/app/validation";
+
+export const GET = withUser(async () => {
+  return NextResponse.json(getBudgetSettings());
+});
+
+// PUT /api/budget/settings — { "cadence": "weekly", "rollover": ["total", "Food"] }.
+// Changing the cadence reinterprets every budget amount as per-week, per-month or per-year.
+export const PUT = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  const result = validateBudgetSettings(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid budget settings.", details: result.errors }, { status: 400 });
+  }
+  return NextResponse.json({ settings: updateBudgetSettings(result.value), budget: getBudget() });
+});
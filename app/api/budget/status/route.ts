@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { getBudgetStatus, materializeRecurring } from "@/app/expenseStore";
+import { resolvePeriod } from "@/app/summaryEngine";
+import { isValidDate } from "@/app/validation";
+
+// GET /api/budget/status?period=this_month (or ?from=&to= in dd-MM-yyyy)
+// Budget, rollover and spending per key for every budget period in the range.
+export const GET = withUser(async (req: NextRequest) => {
+  const params = req.nextUrl.searchParams;
+  const from = params.get("from");
+  const to = params.get("to");
+  if ((from || to) && !(isValidDate(from) && isValidDate(to))) {
+    return NextResponse.json({ error: "Pass both \"from\" and \"to\" as dd-MM-yyyy dates." }, { status: 400 });
+  }
+  materializeRecurring();
+  const range = resolvePeriod(from && to ? { from, to } : params.get("period") ?? undefined);
+  return NextResponse.json(getBudgetStatus(range));
+});
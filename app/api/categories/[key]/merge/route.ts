@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { getBudget, getCategories, getCategory, getExpenses, mergeCategories } from "@/app/expenseStore";
+import { decodeKeyParam } from "@/app/categories";
+
+type Params = { params: { key: string } };
+
+// POST /api/categories/:key/merge — { into: "<category>" }. Moves every expense,
+// recurring bill and budget amount from :key into the target, then removes :key.
+export const POST = withUser(async (req: NextRequest, { params }: Params) => {
+  const from = getCategory(decodeKeyParam(params.key));
+  if (!from) {
+    return NextResponse.json({ error: `Category "${params.key}" not found.` }, { status: 404 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const into = typeof body?.into === "string" ? getCategory(body.into) : null;
+  if (!into || into.archived) {
+    return NextResponse.json({ error: `"into" must name an active category.` }, { status: 400 });
+  }
+  if (into.key === from.key) {
+    return NextResponse.json({ error: "A category can't be merged into itself." }, { status: 400 });
+  }
+  if (into.type !== from.type) {
+    return NextResponse.json({ error: `Can't merge ${from.type} category "${from.key}" into ${into.type} category "${into.key}".` }, { status: 400 });
+  }
+
+  const moved = mergeCategories(from.key, into.key);
+  return NextResponse.json({ moved, categories: getCategories(), expenses: getExpenses(), budget: getBudget() });
+});
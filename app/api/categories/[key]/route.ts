@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { getBudget, getCategories, getCategory, getExpenses, updateCategory } from "@/app/expenseStore";
+import { decodeKeyParam, validateCategoryChanges } from "@/app/categories";
+
+type Params = { params: { key: string } };
+
+// PATCH /api/categories/:key — { name?, icon?, color?, archived? }.
+// A rename rewrites the expenses, recurring bills and budget that used the old name,
+// so the response carries all of them.
+export const PATCH = withUser(async (req: NextRequest, { params }: Params) => {
+  const category = getCategory(decodeKeyParam(params.key));
+  if (!category) {
+    return NextResponse.json({ error: `Category "${params.key}" not found.` }, { status: 404 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const checked = validateCategoryChanges(body, category, getCategories());
+  if ("error" in checked) {
+    return NextResponse.json({ error: checked.error }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    category: updateCategory(category.key, checked.changes),
+    categories: getCategories(),
+    expenses: getExpenses(),
+    budget: getBudget(),
+  });
+});
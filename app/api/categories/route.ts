@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { addCategory, getCategories } from "@/app/expenseStore";
+import { buildCategory } from "@/app/categories";
+
+// GET /api/categories — every category, archived ones included (they have `archived: true`).
+export const GET = withUser(async () => {
+  return NextResponse.json({ categories: getCategories() });
+});
+
+// POST /api/categories — { name, type?: "expense" | "income", icon?, color? }
+export const POST = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  const built = buildCategory(body, getCategories());
+  if ("error" in built) {
+    return NextResponse.json({ error: built.error }, { status: 400 });
+  }
+
+  addCategory(built.category);
+  return NextResponse.json({ category: built.category, categories: getCategories() }, { status: 201 });
+});
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { deleteConversation, getConversation } from "@/app/expenseStore";
+import { openCard } from "@/app/pendingActions";
+
+type Params = { params: { id: string } };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Conversation "${id}" not found.` }, { status: 404 });
+}
+
+// GET /api/conversations/:id — the chat with every stored turn, for restoring the panel.
+// A turn that asked about a change still waiting on confirmation carries its card.
+export const GET = withUser(async (_req: NextRequest, { params }: Params) => {
+  const conversation = getConversation(params.id);
+  if (!conversation) return notFound(params.id);
+  const turns = conversation.turns.map(({ pendingId, ...t }) => {
+    const pending = pendingId ? openCard(pendingId) : null;
+    return pending ? { ...t, pending } : t;
+  });
+  return NextResponse.json({ conversation: { ...conversation, turns } });
+});
+
+// Forgets the chat. Transactions it created stay.
+export const DELETE = withUser(async (_req: NextRequest, { params }: Params) => {
+  if (!deleteConversation(params.id)) return notFound(params.id);
+  return new NextResponse(null, { status: 204 });
+});
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { addConversation, getConversations } from "@/app/expenseStore";
+import { newConversation } from "@/app/conversations";
+
+// GET /api/conversations — the user's chats, most recently used first, without their turns.
+export const GET = withUser(async () => {
+  const conversations = getConversations().map(({ turns, ...c }) => ({ ...c, turnCount: turns.length }));
+  return NextResponse.json({ conversations });
+});
+
+// POST /api/conversations — { title? }; starts an empty chat.
+export const POST = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  if (body?.title !== undefined && typeof body.title !== "string") {
+    return NextResponse.json({ error: "title must be a string." }, { status: 400 });
+  }
+  return NextResponse.json({ conversation: addConversation(newConversation(body?.title ?? "")) }, { status: 201 });
+});
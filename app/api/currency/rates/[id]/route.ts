@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { deleteExchangeRate } from "@/app/expenseStore";
+
+type Params = { params: { id: string } };
+
+// Transactions already converted with this rate keep their amounts.
+export const DELETE = withUser(async (_req: NextRequest, { params }: Params) => {
+  if (!deleteExchangeRate(params.id)) {
+    return NextResponse.json({ error: `Exchange rate "${params.id}" not found.` }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+});
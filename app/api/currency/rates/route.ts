@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { addExchangeRates, ExchangeRate, getCurrencySettings } from "@/app/expenseStore";
+import { parseRateFile, validateRate } from "@/app/currency";
+
+export const GET = withUser(async () => {
+  return NextResponse.json(getCurrencySettings().rates);
+});
+
+// POST /api/currency/rates — either one rate, { "from": "USD", "to": "INR", "rate": 83.2,
+// "date": "01-10-2026" } (date defaults to today), or a file, { "content": "<CSV or JSON>" }.
+// A file is all-or-nothing.
+export const POST = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+  }
+
+  let rates: Omit<ExchangeRate, "id">[];
+  if (typeof body.content === "string") {
+    const parsed = parseRateFile(body.content);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error, details: parsed.details }, { status: 400 });
+    }
+    rates = parsed.rates;
+  } else {
+    const errors: string[] = [];
+    const rate = validateRate(body, "Rate", errors);
+    if (!rate) {
+      return NextResponse.json({ error: "Invalid exchange rate.", details: errors }, { status: 400 });
+    }
+    rates = [rate];
+  }
+
+  const added = addExchangeRates(rates);
+  return NextResponse.json({ added: added.length, settings: getCurrencySettings() }, { status: 201 });
+});
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { getBudget, getCurrencySettings, getExpenses, getRecurringRules, setBaseCurrency } from "@/app/expenseStore";
+import { upcomingBills } from "@/app/recurring";
+import { normalizeCurrency } from "@/app/currency";
+
+// GET /api/currency — the base currency and the exchange-rate table.
+export const GET = withUser(async () => {
+  return NextResponse.json(getCurrencySettings());
+});
+
+// PUT /api/currency — { "base": "USD" }. Every stored amount is converted to the new base,
+// so the rates to do that must already be in the table.
+export const PUT = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  const base = normalizeCurrency(body?.base);
+  if (!base) {
+    return NextResponse.json({ error: "Invalid currency settings.", details: [`"base" must be a three-letter code like USD.`] }, { status: 400 });
+  }
+
+  const result = setBaseCurrency(base);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 422 });
+  }
+  return NextResponse.json({ settings: result.settings, expenses: getExpenses(), budget: getBudget(), upcomingBills: upcomingBills(getRecurringRules()) });
+});
@@ -1,153 +1,369 @@
 // route.ts
 
 import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
 import { 
   addExpense, 
   getExpenses, 
   getBudget, 
   setBudget, 
+  getBudgetSettings,
+  getBudgetStatus,
+  getSpendingForecast,
   Expense,
   BudgetMap,
+  categoryKeys,
+  getCategories,
+  categoryParents,
   getLastTransaction,
-  updateLastTransaction,
   updateExpenseById,
-  // --- UPDATED IMPORT ---
-  setExpensesForRequest
+  importLegacyData,
+  addRecurringRule,
+  getRecurringRules,
+  getCurrencySettings,
+  materializeRecurring,
+  Conversation
 } from "@/app/expenseStore";
 import { format } from 'date-fns';
+import { generateValidated } from "@/app/llm/structured";
+import { CancelledError, streamReply, throwIfCancelled, wantsStream } from "@/app/llm/stream";
+import { ModelReply, validateModelReply } from "@/app/intentSchemas";
+import { validateExpenseInput } from "@/app/validation";
+import { cashFlow, filterByRange, normalizePeriod, normalizeSummaryQuery, PeriodSpec, resolvePeriod, runSummaryQuery } from "@/app/summaryEngine";
+import { phraseAdvice, phraseSummary } from "@/app/summaryReply";
+import { buildRecurringRule, upcomingBills } from "@/app/recurring";
+import { extractTags, mergeTags } from "@/app/tags";
+import { resolveBudgetDate } from "@/app/budgets";
+import { appendAlerts } from "@/app/alerts";
+import { GOAL_INTENTS, handleGoalIntent } from "@/app/goalReplies";
+import { priceChanges, priceEntry } from "@/app/currency";
+import { historyForPrompt } from "@/app/conversations";
+import { draftExpenses, ExpenseItem, holdBudget, holdExpenses, holdIncome, holdRecurring, holdUpdate, needsConfirmation } from "@/app/pendingActions";
+import { ChatResult, CONVERSATION_INTENTS, handleConversationIntent, listedForPrompt, openConversation, recordExchange, targetTransaction } from "@/app/conversationReplies";
 
-async function callAdvancedOllama(message: string, context: { expenses: Expense[], budget: BudgetMap, lastTransaction: Expense | null }): Promise<any | null> {
-  const { expenses, budget, lastTransaction } = context;
+const ENTRY_INTENTS = ["log_expense", "log_expenses", "log_income", "add_recurring", "update_last_expense", "get_summary", "set_budget", "get_advice", ...GOAL_INTENTS, ...CONVERSATION_INTENTS];
+
+async function callAdvancedModel(message: string, tags: string[], context: { expenses: Expense[], budget: BudgetMap, lastTransaction: Expense | null, history: string, listed: string }): Promise<ModelReply | null> {
+  const { expenses, budget, lastTransaction, history, listed } = context;
+  const parents = categoryParents();
   const today = format(new Date(), 'dd-MM-yyyy');
   const monthName = format(new Date(), 'MMMM');
-  const validCategories = ["Food", "Transport", "Shopping", "Bills", "Coffee", "Entertainment", "Health", "Education", "Other"];
+  const monthFlow = cashFlow(filterByRange(expenses, resolvePeriod("this_month")));
+  const base = getCurrencySettings().base;
 
   try {
-    const res = await fetch("http://localhost:11434/api/generate", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model: "llama3:latest",
-        prompt: `
+    const result = await generateValidated({ userMessage: message, prompt: `
 You are "Fin", a world-class AI financial assistant. Your goal is to help users track spending and gain insights. You are conversational, insightful, and precise.
 
 **Core Principles:**
 1.  **Always Respond in JSON:** Your entire output MUST be a single, valid JSON object.
 2.  **Infer, then Confirm:** Make intelligent deductions. If a user says "amazon", it's likely "Shopping". If they say "uber", it's "Transport". If truly ambiguous, ask for clarification.
-3.  **Use Valid Categories ONLY:** You must use one of these categories: ${JSON.stringify(validCategories)}. You must set the date for new expenses to today's date unless another date is specified.
-4.  **Remember Context:** The user's last action is provided. Use it for follow-up commands like "oops, change it to 250".
+3.  **Use Valid Categories ONLY:** Expenses must use one of these categories: ${JSON.stringify(categoryKeys("expense"))}. Income must use one of these: ${JSON.stringify(categoryKeys("income"))}. Some are sub-categories of another (sub-category → parent): ${JSON.stringify(parents)}; prefer the most specific one that fits. You must set the date for new entries to today's date unless another date is specified.
+4.  **Remember Context:** The conversation so far, the user's last action and the last list you showed are provided. Use them for follow-ups like "oops, change it to 250", "delete the second one" or "undo the last two".
 5.  **Be Proactive:** After logging an expense, provide a small, relevant insight.
+6.  **Mind the Cash Flow:** When giving advice, weigh spending against income and net savings, not just the budget.
+7.  **Currencies:** Amounts are in ${base} unless the user names another currency ("$12 lunch", "€30 taxi", "20 GBP"); then put its ISO code in "currency" and the amount as typed. The app converts it.
 
 **User's Financial Context:**
 - Today's Date: ${today}
 - Last Transaction: ${JSON.stringify(lastTransaction)}
 - Recent Expenses: ${JSON.stringify(expenses.slice(0, 5))}
 - Budget: ${JSON.stringify(budget)}
+- ${monthName} Cash Flow: ${JSON.stringify(monthFlow)}
+- Tags on this message: ${JSON.stringify(tags)} (the app attaches them itself; keep them out of the note)
+- Transactions You Last Listed: ${listed}
+
+**Conversation So Far:**
+${history}
 
 **Your JSON Response Format:**
 {
-  "intent": "The user's goal (e.g., 'log_expense', 'get_summary').",
+  "intent": "The user's goal (e.g., 'log_expense', 'log_income', 'get_summary').",
   "execution_status": "SUCCESS" | "CLARIFICATION_NEEDED" | "ERROR",
   "data": { },
-  "reply": "Your conversational response to the user."
+  "reply": "Your conversational response to the user.",
+  "confidence": <0 to 1, how sure you are that you read the message right>
 }
+Changes to the user's data (logging, updating or deleting a transaction, setting a budget, adding a recurring bill or a goal) may be shown to the user on a card to confirm before they are applied, so word "reply" so it reads right either way.
 
-User: "${message}"`,
-        stream: false
-      })
-    });
-    if (!res.ok) throw new Error(`Ollama server responded with status: ${res.status}`);
-    const data = await res.json();
-    const sanitizedResponse = data.response.replace(/```json/g, '').replace(/```/g, '').trim();
-    return JSON.parse(sanitizedResponse);
+**INTENT: "log_expense"**
+- **Trigger:** User spent money. E.g., "150 for coffee", "paid 1200 electricity bill".
+- **Data:** { "amount": <number>, "currency": "<ISO code>" (only when not ${base}), "category": "<CategoryKey>", "note": "<short description>", "date": "dd-MM-yyyy", "split": { "people": <everyone who shared it, the user included>, "with": ["<name>"] } (only for a shared bill) }
+- **Split bills:** "dinner 3000 split 4 ways" → amount 3000 with "split": { "people": 4 }; "cab 600 split with Raj and Priya" → amount 600 with "split": { "with": ["Raj", "Priya"] }. "amount" is always the whole bill; the app works out the user's share and asks them to confirm it.
+
+**INTENT: "log_expenses"**
+- **Trigger:** One message with several expenses. E.g., "200 uber, 450 lunch and 120 coffee", "groceries 900; petrol 1500 yesterday".
+- **Data:** { "items": [<one log_expense data object per expense, "split" included>] }
+- **Action:** The app lists them on a card for the user to confirm. Leave "reply" empty.
+
+**INTENT: "log_income"**
+- **Trigger:** User received money. E.g., "got my salary of 80000", "refund of 499 from amazon", "transferred 5000 in from savings".
+- **Data:** { "amount": <number>, "currency": "<ISO code>" (only when not ${base}), "category": "<IncomeCategoryKey>", "note": "<short description>", "date": "dd-MM-yyyy" }
+
+**INTENT: "add_recurring"**
+- **Trigger:** User describes a repeating bill or subscription. E.g., "add netflix 649 every month", "rent 18000 on the 5th of every month", "gym 500 every week".
+- **Data:** { "amount": <number>, "category": "<CategoryKey>", "note": "<short description>", "cadence": "weekly" | "monthly" | "yearly" | "custom", "day_of_month": <1-31, only for custom>, "start_date": "dd-MM-yyyy" (optional, default today), "end_date": "dd-MM-yyyy" (optional) }
+- **Action:** Use "custom" with "day_of_month" when the user names a day ("on the 5th"); otherwise "monthly" repeats on the start date's day.
+
+**INTENT: "update_last_expense"**
+- **Trigger:** User corrects a transaction. E.g., "oops, change it to 250", "that was yesterday", "make the second one 300".
+- **Data:** { "ref": <position in the list you last showed> (only when they point at one, e.g. "the second one" → 2), "amount": <number>, "currency": "<ISO code>", "category": "<CategoryKey>", "note": "<text>", "date": "dd-MM-yyyy", "tags": ["<tag>"] } (only the fields that change)
+
+**INTENT: "list_transactions"**
+- **Trigger:** User wants to see individual transactions. E.g., "show my last 5 expenses", "list food spending this week", "what income did I get last month?".
+- **Data:** { "type": "expense" | "income" (optional), "category": "<CategoryKey>" (optional), "period": <period, as for get_summary> (optional), "limit": <1-20> (optional, default 5) }
+- **Action:** The app lists and numbers them. Leave "reply" empty.
+
+**INTENT: "delete_transaction"**
+- **Trigger:** User wants a transaction gone. E.g., "delete that", "remove the second one".
+- **Data:** { "ref": <position in the list you last showed> (omit for the last transaction) }
+
+**INTENT: "undo"**
+- **Trigger:** User takes back what was just done in this chat. E.g., "undo", "undo the last two".
+- **Data:** { "count": <how many changes, default 1> }
+- **Action:** The app reverts its own changes. Leave "reply" empty.
+
+**INTENT: "get_summary"**
+- **Trigger:** User asks for a summary. E.g., "how much on food?", "show me my spending this month", "food vs shopping", "this month vs last month", "how much is left in my budget?", "where did I spend most?", "how much did I earn?", "how much did I save this month?".
+- **Data:** { "summary_type": "category_total" | "all_spending" | "by_period" | "by_merchant" | "by_tag" | "compare_categories" | "compare_periods" | "budget_remaining" | "income_total" | "cash_flow", "category": "<CategoryKey>" (optional), "categories": ["<CategoryKey>", "<CategoryKey>"] (for compare_categories), "merchant": "<text in the note>" (optional), "tag": "<tag>" (optional, for questions about a tag; use "by_tag" for "spending by tag"), "period": "today" | "yesterday" | "this_week" | "last_week" | "this_month" | "last_month" | "this_year" | "all_time" | "<Month name> <yyyy>" | { "from": "dd-MM-yyyy", "to": "dd-MM-yyyy" } (omit unless the user names a period; the period they are viewing is used), "periods": [<period>, <period>] (for compare_periods), "granularity": "day" | "week" | "month" (for by_period) }
+- **Action:** ONLY extract the query. Do NOT calculate any totals yourself; the app computes the numbers and phrases the answer. Leave "reply" empty.
+
+**INTENT: "set_budget"**
+- **Trigger:** User wants to change a budget. E.g., "set my food budget to 5000", "make next month's total budget 60000".
+- **Data:** { "category": "<CategoryKey>" | "total", "amount": <number>, "period": "this_month" | "next_month" | "next_week" | "<Month name> <yyyy>" (optional; omit for the current budget period) }
+
+**INTENT: "get_advice"**
+- **Trigger:** User asks for savings tips or where the month is heading. E.g., "how can I save 2000?", "will I stay under budget?", "am I on track with food?"
+- **Data:** { "goal": <number | null>, "category": "<CategoryKey>" (optional) }
+- **Action:** Give one short, specific tip in "reply". The app works out the month-end forecast itself; do not predict totals.
+
+**INTENT: "add_goal"**
+- **Trigger:** User wants to save up for something. E.g., "save 80000 for a laptop by March", "new goal: emergency fund 200000, putting aside 10000 a month".
+- **Data:** { "name": "<short name, e.g. Laptop>", "target": <number>, "deadline": "dd-MM-yyyy" | "<Month name> <yyyy>" (optional), "monthly_contribution": <number> (optional) }
+
+**INTENT: "goal_progress"**
+- **Trigger:** User asks how their savings goals are going. E.g., "how's my laptop goal?", "am I on track with my goals?"
+- **Data:** { "goal": "<goal name>" (optional; omit for all goals) }
+- **Action:** The app computes progress from actual surpluses. Leave "reply" empty.
+
+**INTENT: "goal_plan"**
+- **Trigger:** User asks what it takes to reach a goal. E.g., "how much do I need to cut from Shopping to hit my laptop goal by March?"
+- **Data:** { "goal": "<goal name>" (optional if there is only one), "category": "<CategoryKey>" (optional, the category to cut), "deadline": "dd-MM-yyyy" | "<Month name> <yyyy>" (optional; defaults to the goal's own) }
+- **Action:** Do NOT calculate anything yourself; the app works out the numbers. Leave "reply" empty.
+
+User: "${message}"` }, (raw) => validateModelReply(raw, ENTRY_INTENTS));
+    return result.ok ? result.value : null;
   } catch (err) {
-    console.error("❌ Advanced Ollama call failed:", err);
+    if (!(err instanceof CancelledError)) console.error("❌ Advanced model call failed:", err);
     return null;
   }
 }
 
-export async function POST(req: NextRequest) {
-  const { message, expenses: clientExpenses } = await req.json();
-
-  // --- ADDED: Hydrate the store with the client's current state ---
-  if (clientExpenses && Array.isArray(clientExpenses)) {
-    setExpensesForRequest(clientExpenses);
-  }
-
+// Works out the reply to one chat message. The conversation supplies the history the model
+// sees and the lists and changes that "the second one" or "undo the last two" refer to.
+async function answer(message: string, tags: string[], viewPeriod: PeriodSpec | undefined, conversation: Conversation): Promise<ChatResult> {
+  // The server-side store is the source of truth; the client no longer sends its copy.
   const context = {
-    expenses: getExpenses(), // This now correctly reflects the user's full list
+    expenses: getExpenses(),
     budget: getBudget(),
-    lastTransaction: getLastTransaction()
+    lastTransaction: getLastTransaction(),
+    history: historyForPrompt(conversation),
+    listed: listedForPrompt(conversation),
   };
 
-  const parsed = await callAdvancedOllama(message, context);
+  const parsed = await callAdvancedModel(message, tags, context);
+  // A cancelled reply changes nothing, even if the model had already answered.
+  throwIfCancelled();
 
-  if (!parsed || !parsed.intent || parsed.execution_status === "ERROR") {
-    return NextResponse.json({ reply: "⚠️ I couldn’t understand that. Could you rephrase?" });
+  if (!parsed || parsed.execution_status === "ERROR") {
+    return { reply: "⚠️ I couldn’t understand that. Could you rephrase?" };
   }
 
   if (parsed.execution_status === "CLARIFICATION_NEEDED") {
-    return NextResponse.json({ reply: parsed.reply, data: parsed.data });
+    return { reply: parsed.reply, data: parsed.data };
   }
 
   switch (parsed.intent) {
-    case "log_expense": {
+    // Several expenses in one message, or a share of a split bill, always wait on a card for
+    // the user to confirm; a single expense does unless their settings let it through.
+    case "log_expense":
+    case "log_expenses": {
+      const items: ExpenseItem[] = parsed.intent === "log_expenses" ? parsed.data.items : [parsed.data as ExpenseItem];
+      const drafted = draftExpenses(items, tags);
+      if ("error" in drafted) return { reply: `🤔 I couldn't log that: ${drafted.error}` };
+      const [newExpense] = drafted.expenses;
+      if (drafted.expenses.length > 1 || newExpense.split || needsConfirmation(newExpense.amount, parsed.confidence)) {
+        return holdExpenses(conversation, drafted.expenses);
+      }
+      const alerts = addExpense(newExpense);
+      return {
+        reply: appendAlerts(parsed.reply, alerts),
+        updatedExpenses: getExpenses(),
+        alerts,
+        turn: { intent: parsed.intent, changes: [{ id: newExpense.id, before: null }] },
+      };
+    }
+
+    case "log_income": {
       const d = parsed.data;
-      const newExpense: Expense = {
+      const date = d.date || format(new Date(), 'dd-MM-yyyy');
+      const priced = priceEntry({ amount: d.amount, date, currency: d.currency }, getCurrencySettings());
+      if ("error" in priced) return { reply: `🤔 I couldn't log that: ${priced.error}` };
+      const newIncome: Expense = {
         id: Date.now().toString(),
-        amount: d.amount,
+        type: "income",
+        ...priced,
         category: d.category,
         note: d.note,
-        date: d.date || format(new Date(), 'dd-MM-yyyy'), // Ensure date is never missing
+        date,
+        tags: mergeTags(tags, d.tags),
+      };
+      if (needsConfirmation(newIncome.amount, parsed.confidence)) return holdIncome(conversation, newIncome);
+      addExpense(newIncome);
+      return { reply: parsed.reply, updatedExpenses: getExpenses(), turn: { intent: parsed.intent, changes: [{ id: newIncome.id, before: null }] } };
+    }
+
+    case "add_recurring": {
+      const built = buildRecurringRule(parsed.data);
+      if ("error" in built) {
+        return { reply: `🤔 I couldn't set that up: ${built.error}` };
+      }
+      if (needsConfirmation(built.rule.amount, parsed.confidence)) return holdRecurring(conversation, built.rule);
+      addRecurringRule(built.rule);
+      materializeRecurring();
+      return {
+        reply: parsed.reply,
+        updatedExpenses: getExpenses(),
+        updatedUpcomingBills: upcomingBills(getRecurringRules()),
+        turn: { intent: parsed.intent, planChanges: [{ kind: "recurring", ruleId: built.rule.id }] },
       };
-      addExpense(newExpense);
-      return NextResponse.json({ reply: parsed.reply, updatedExpenses: getExpenses() });
     }
 
+    // "change it to 250" edits the last transaction; "make the second one 300" one from the latest list.
     case "update_last_expense": {
-      const lastTx = getLastTransaction();
-      if (!lastTx) return NextResponse.json({ reply: "🤔 There's no recent transaction to update." });
-      
-      const d = parsed.data;
-      const success = updateExpenseById(lastTx.id, d);
+      const { ref, ...data } = parsed.data;
+      const target = targetTransaction(conversation, ref);
+      if ("reply" in target) return target;
+      const tx = target.expense;
+
+      // Tags in a follow-up ("that was for #goa-trip") are added to the ones already there.
+      const changes = tags.length || data.tags ? { ...data, tags: mergeTags(tx.tags, data.tags, tags) } : data;
+      // Check the update against the transaction itself, e.g. an income category for income.
+      const checked = validateExpenseInput(changes, tx);
+      if (!checked.ok) {
+        return { reply: `🤔 I couldn't apply that change: ${checked.errors.join(" ")}` };
+      }
+      const priced = priceChanges(tx, checked.value, getCurrencySettings());
+      if ("error" in priced) return { reply: `🤔 I couldn't apply that change: ${priced.error}` };
+      if (needsConfirmation(priced.amount ?? tx.amount, parsed.confidence)) return holdUpdate(conversation, tx, checked.value);
+      const alerts = updateExpenseById(tx.id, priced);
 
-      if (success) {
-        const updatedTxInMemory = { ...lastTx, ...d };
-        updateLastTransaction(updatedTxInMemory);
-        return NextResponse.json({ reply: parsed.reply, updatedExpenses: getExpenses() });
+      if (alerts) {
+        return {
+          reply: appendAlerts(parsed.reply, alerts),
+          updatedExpenses: getExpenses(),
+          alerts,
+          turn: { intent: parsed.intent, changes: [{ id: tx.id, before: tx }] },
+        };
       } else {
-        return NextResponse.json({ reply: "❌ Sorry, I couldn't find the transaction to update." });
+        return { reply: "❌ Sorry, I couldn't find the transaction to update." };
       }
     }
       
+    // The model only extracted the query; the numbers come from the summary engine.
     case "get_summary": {
-        return NextResponse.json({ reply: parsed.reply, summaryData: parsed.data.result });
+        const query = normalizeSummaryQuery(parsed.data);
+        if (!query.period) query.period = viewPeriod;
+        if (!query.tag && tags.length) query.tag = tags[0];
+        const result = runSummaryQuery(query, context.expenses, getBudgetStatus(resolvePeriod(query.period)).available);
+        const reply = await phraseSummary(message, result, getCurrencySettings().base);
+        return { reply, summaryData: result.rows };
     }
       
     case "set_budget": {
         const d = parsed.data;
-        const newBudget = { ...getBudget() };
-        if (d.category && d.category.toLowerCase() !== 'total') {
-            newBudget[d.category as keyof BudgetMap] = d.amount;
-        } else {
-            newBudget.total = d.amount;
-        }
-        setBudget(newBudget);
-        return NextResponse.json({ reply: parsed.reply, updatedBudget: getBudget() });
+        // Budgets are per period: "next month" or "November 2026" if named, otherwise the current one.
+        const at = resolveBudgetDate(normalizePeriod(d.period), getBudgetSettings().cadence);
+        const key = d.category && d.category.toLowerCase() !== 'total' ? d.category : "total";
+        if (needsConfirmation(d.amount, parsed.confidence)) return holdBudget(conversation, key, d.amount, at);
+        const before = getBudget(at);
+        setBudget({ ...before, [key]: d.amount }, at);
+        return {
+          reply: parsed.reply,
+          updatedBudget: getBudget(at),
+          turn: { intent: parsed.intent, planChanges: [{ kind: "budget", date: format(at, "dd-MM-yyyy"), key, before: before[key] }] },
+        };
     }
 
+    // Questions like "will I stay under budget?" are answered from the computed forecast.
     case "get_advice": {
-        return NextResponse.json({ reply: parsed.reply });
+        const category = parsed.data.category;
+        const reply = await phraseAdvice(message, getSpendingForecast(), parsed.reply, category ? categoryParents()[category] ?? category : undefined);
+        return { reply };
     }
 
+    // Goal figures come from the app's own surplus calculations, never from the model.
+    case "add_goal":
+    case "goal_progress":
+    case "goal_plan":
+        return handleGoalIntent(parsed.intent, parsed.data, parsed.reply, conversation, parsed.confidence);
+
+    // Lists, deletions and undo work on this conversation's own record of what it showed and did.
+    case "list_transactions":
+    case "delete_transaction":
+    case "undo":
+        return handleConversationIntent(parsed.intent, parsed.data, conversation, parsed.confidence);
+
     default:
-      return NextResponse.json({ reply: "🤔 I'm not sure how to handle that request." });
+      return { reply: "🤔 I'm not sure how to handle that request." };
   }
 }
 
-export async function GET() {
+export const POST = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+  }
+  const { message: rawMessage, period, conversationId } = body;
+  const original = String(rawMessage ?? "");
+  // "400 dinner #goa-trip": the tags are attached by the app, so the model only sees "400 dinner".
+  const { text, tags } = extractTags(original);
+  const message = text || original;
+  // The period the user is looking at on the dashboard; summaries default to it.
+  const viewPeriod = normalizePeriod(period);
+
+  // Bring any recurring bills that have come due into the store before the model sees it.
+  materializeRecurring();
+
+  // Streamed replies show the text as it's written; the intent is applied once it's complete.
+  const respond = async () => {
+    const conversation = openConversation(conversationId, original);
+    const result = await answer(message, tags, viewPeriod, conversation);
+    throwIfCancelled();
+    return recordExchange(conversation, original, result);
+  };
+  return wantsStream(req) ? streamReply(req, respond) : NextResponse.json(await respond());
+});
+
+export const GET = withUser(async () => {
+    materializeRecurring();
     return NextResponse.json({ 
         expenses: getExpenses(),
-        budget: getBudget()
+        budget: getBudget(),
+        upcomingBills: upcomingBills(getRecurringRules()),
+        categories: getCategories(),
+        budgetSettings: getBudgetSettings(),
+        currency: getCurrencySettings(),
     });
-}
\ No newline at end of file
+});
+
+// One-time import of data that older builds kept only in the browser's localStorage.
+export const PUT = withUser(async (req: NextRequest) => {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+        return NextResponse.json({ error: "Request body must be a JSON object." }, { status: 400 });
+    }
+    const { legacy } = body;
+    const imported = legacy ? importLegacyData(legacy) : false;
+    return NextResponse.json({ imported, expenses: getExpenses(), budget: getBudget() });
+});
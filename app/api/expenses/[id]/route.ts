@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { deleteExpense, getCurrencySettings, getExpenseById, updateExpenseById } from "@/app/expenseStore";
+import { priceChanges } from "@/app/currency";
+import { validateExpenseInput } from "@/app/validation";
+
+type Params = { params: { id: string } };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Expense "${id}" not found.` }, { status: 404 });
+}
+
+export const GET = withUser(async (_req: NextRequest, { params }: Params) => {
+  const expense = getExpenseById(params.id);
+  return expense ? NextResponse.json(expense) : notFound(params.id);
+});
+
+// PATCH /api/expenses/:id — update any subset of type, amount, currency, category, note and date.
+export const PATCH = withUser(async (req: NextRequest, { params }: Params) => {
+  const existing = getExpenseById(params.id);
+  if (!existing) return notFound(params.id);
+
+  const body = await req.json().catch(() => null);
+  const result = validateExpenseInput(body, existing);
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid update.", details: result.errors }, { status: 400 });
+  }
+
+  const priced = priceChanges(existing, result.value, getCurrencySettings());
+  if ("error" in priced) {
+    return NextResponse.json({ error: priced.error }, { status: 422 });
+  }
+
+  if (!updateExpenseById(params.id, priced)) return notFound(params.id);
+  return NextResponse.json(getExpenseById(params.id));
+});
+
+export const DELETE = withUser(async (_req: NextRequest, { params }: Params) => {
+  if (!deleteExpense(params.id)) return notFound(params.id);
+  return new NextResponse(null, { status: 204 });
+});
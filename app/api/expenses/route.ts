@@ -0,0 +1,47 @@
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { addExpense, categoryParents, deleteExpenses, Expense, getCurrencySettings, getExpenses, materializeRecurring } from "@/app/expenseStore";
+import { priceEntry } from "@/app/currency";
+import { parseExpenseQuery, queryExpenses } from "@/app/expenseQuery";
+import { ExpenseInput, validateExpenseInput } from "@/app/validation";
+
+// GET /api/expenses — filtered, sorted and paginated list.
+export const GET = withUser(async (req: NextRequest) => {
+  const query = parseExpenseQuery(req.nextUrl.searchParams);
+  if (!query.ok) {
+    return NextResponse.json({ error: "Invalid query.", details: query.errors }, { status: 400 });
+  }
+  materializeRecurring();
+  return NextResponse.json(queryExpenses(getExpenses(), query.value, categoryParents()));
+});
+
+// POST /api/expenses — create a single expense (or income with `type: "income"`).
+export const POST = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  const result = validateExpenseInput(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid expense.", details: result.errors }, { status: 400 });
+  }
+
+  // An amount in another currency is stored converted to the base currency.
+  const input = result.value as ExpenseInput;
+  const priced = priceEntry(input, getCurrencySettings());
+  if ("error" in priced) {
+    return NextResponse.json({ error: priced.error }, { status: 422 });
+  }
+
+  // Random ids, so two requests in the same millisecond can't share one.
+  const expense: Expense = { id: crypto.randomUUID(), ...input, ...priced };
+  addExpense(expense);
+  return NextResponse.json(expense, { status: 201 });
+});
+
+// DELETE /api/expenses?ids=a,b,c — bulk delete. Unknown ids are ignored.
+export const DELETE = withUser(async (req: NextRequest) => {
+  const ids = (req.nextUrl.searchParams.get("ids") ?? "").split(",").map((id) => id.trim()).filter(Boolean);
+  if (ids.length === 0) {
+    return NextResponse.json({ error: "Pass the ids to delete as ?ids=a,b,c." }, { status: 400 });
+  }
+  return NextResponse.json({ deleted: deleteExpenses(ids) });
+});
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { format } from "date-fns";
+import { exportData, getBudgetStatus, getCategories, getCurrencySettings, getExpenses, materializeRecurring } from "@/app/expenseStore";
+import { buildBackup, EXPORT_FORMATS, ExportFormat, renderReport, toCsv } from "@/app/exporter";
+import { filterByRange, resolvePeriod } from "@/app/summaryEngine";
+import { isValidDate } from "@/app/validation";
+
+// GET /api/export?format=csv|json|report
+// "csv" and "report" cover a period (`period` or `from` + `to`, as on /api/summary; CSV
+// defaults to all time, the report to this month). "json" is always a full backup.
+export const GET = withUser(async (req: NextRequest) => {
+  const params = req.nextUrl.searchParams;
+  const exportFormat = (params.get("format") ?? "csv") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(exportFormat)) {
+    return NextResponse.json({ error: `"format" must be one of: ${EXPORT_FORMATS.join(", ")}.` }, { status: 400 });
+  }
+  const from = params.get("from");
+  const to = params.get("to");
+  if ((from || to) && !(isValidDate(from) && isValidDate(to))) {
+    return NextResponse.json({ error: "Pass both \"from\" and \"to\" as dd-MM-yyyy dates." }, { status: 400 });
+  }
+
+  materializeRecurring();
+  const stamp = format(new Date(), "yyyy-MM-dd");
+
+  if (exportFormat === "json") {
+    return new NextResponse(JSON.stringify(buildBackup(exportData()), null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="budget-backup-${stamp}.json"`,
+      },
+    });
+  }
+
+  const period = from && to ? { from, to } : params.get("period") ?? (exportFormat === "csv" ? "all_time" : "this_month");
+  const range = resolvePeriod(period);
+  const transactions = filterByRange(getExpenses(), range);
+
+  if (exportFormat === "report") {
+    return new NextResponse(renderReport(transactions, getBudgetStatus(range).available, getCategories(), range, getCurrencySettings().base), {
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  }
+
+  return new NextResponse(toCsv(transactions), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="transactions-${stamp}.csv"`,
+    },
+  });
+});
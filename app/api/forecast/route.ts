@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { getSpendingForecast, materializeRecurring } from "@/app/expenseStore";
+
+// GET /api/forecast — projected month-end spending, in total and per top-level category.
+export const GET = withUser(async () => {
+  materializeRecurring();
+  return NextResponse.json(getSpendingForecast());
+});
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { getGoalPlan } from "@/app/expenseStore";
+import { parseDeadline } from "@/app/goals";
+import { matchCategory } from "@/app/validation";
+
+// GET /api/goals/:id/plan?category=Shopping&deadline=March — what it takes to reach the goal
+// by its deadline (or the one given), and how much cutting the category would cover.
+export const GET = withUser(async (req: NextRequest, { params }: { params: { id: string } }) => {
+  const search = req.nextUrl.searchParams;
+  const rawCategory = search.get("category");
+  const category = rawCategory ? matchCategory(rawCategory, "expense") : undefined;
+  if (rawCategory && !category) {
+    return NextResponse.json({ error: `Unknown category "${rawCategory}".` }, { status: 400 });
+  }
+  const rawDeadline = search.get("deadline");
+  const deadline = rawDeadline ? parseDeadline(rawDeadline) : undefined;
+  if (rawDeadline && !deadline) {
+    return NextResponse.json({ error: `"deadline" must be dd-MM-yyyy or a month like "March 2027".` }, { status: 400 });
+  }
+
+  const plan = getGoalPlan(params.id, { category, deadline });
+  if (!plan) return NextResponse.json({ error: `Goal "${params.id}" not found.` }, { status: 404 });
+  if ("error" in plan) return NextResponse.json({ error: plan.error }, { status: 400 });
+  return NextResponse.json(plan);
+});
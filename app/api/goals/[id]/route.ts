@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { deleteGoal, getGoal, getGoalProgress, getGoals, updateGoal } from "@/app/expenseStore";
+import { validateGoalChanges } from "@/app/goals";
+
+type Params = { params: { id: string } };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Goal "${id}" not found.` }, { status: 404 });
+}
+
+// PATCH /api/goals/:id — { name?, target?, deadline?, monthlyContribution? }; null clears the last two.
+export const PATCH = withUser(async (req: NextRequest, { params }: Params) => {
+  const goal = getGoal(params.id);
+  if (!goal) return notFound(params.id);
+
+  const body = await req.json().catch(() => null);
+  const checked = validateGoalChanges(body, goal, getGoals());
+  if ("error" in checked) {
+    return NextResponse.json({ error: checked.error }, { status: 400 });
+  }
+
+  return NextResponse.json({ goal: updateGoal(goal.id, checked.changes), goals: getGoalProgress() });
+});
+
+export const DELETE = withUser(async (_req: NextRequest, { params }: Params) => {
+  if (!deleteGoal(params.id)) return notFound(params.id);
+  return new NextResponse(null, { status: 204 });
+});
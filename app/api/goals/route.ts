@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { addGoal, getGoalProgress, getGoals, materializeRecurring } from "@/app/expenseStore";
+import { buildGoal } from "@/app/goals";
+
+// GET /api/goals — every savings goal with its progress.
+export const GET = withUser(async () => {
+  materializeRecurring();
+  return NextResponse.json({ goals: getGoalProgress() });
+});
+
+// POST /api/goals — { name, target, deadline?: "dd-MM-yyyy" | "March 2027", monthlyContribution? }
+export const POST = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  const built = buildGoal(body, getGoals());
+  if ("error" in built) {
+    return NextResponse.json({ error: built.error }, { status: 400 });
+  }
+
+  addGoal(built.goal);
+  return NextResponse.json({ goal: built.goal, goals: getGoalProgress() }, { status: 201 });
+});
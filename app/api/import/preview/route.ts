@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { getExpenses } from "@/app/expenseStore";
+import { IMPORT_DATE_FORMATS, IMPORT_FORMATS, ImportFormat, previewImport, readTable, validateMapping } from "@/app/importer";
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+// POST /api/import/preview — parse a statement without saving anything.
+// Body: { content, fileName?, format?, mapping?, dateFormat? }. The first call can
+// send just the file; later calls send the corrected mapping or date format.
+export const POST = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body.content !== "string" || !body.content.trim()) {
+    return NextResponse.json({ error: "Send the file's text as \"content\"." }, { status: 400 });
+  }
+  if (body.content.length > MAX_IMPORT_BYTES) {
+    return NextResponse.json({ error: "File is too large to import (5 MB max)." }, { status: 413 });
+  }
+  if (body.format !== undefined && !IMPORT_FORMATS.includes(body.format)) {
+    return NextResponse.json({ error: `"format" must be one of: ${IMPORT_FORMATS.join(", ")}.` }, { status: 400 });
+  }
+  if (body.dateFormat !== undefined && !IMPORT_DATE_FORMATS.includes(body.dateFormat)) {
+    return NextResponse.json({ error: `"dateFormat" must be one of: ${IMPORT_DATE_FORMATS.join(", ")}.` }, { status: 400 });
+  }
+
+  const table = readTable(body.content, body.fileName, body.format as ImportFormat | undefined);
+  if (table.rows.length === 0) {
+    return NextResponse.json({ error: "No transactions found in the file." }, { status: 422 });
+  }
+
+  let mapping;
+  if (body.mapping !== undefined) {
+    const checked = validateMapping(body.mapping, table.headers);
+    if ("error" in checked) return NextResponse.json({ error: checked.error }, { status: 400 });
+    mapping = checked.mapping;
+  }
+
+  return NextResponse.json(previewImport(table, getExpenses(), { mapping, dateFormat: body.dateFormat }));
+});
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { addExpenses, Expense, getCurrencySettings, getExpenses } from "@/app/expenseStore";
+import { priceEntry } from "@/app/currency";
+import { ExpenseInput, validateExpenseInput } from "@/app/validation";
+
+const MAX_IMPORT_ROWS = 5000;
+
+// POST /api/import — commit the rows chosen in the preview. Body: { rows: ExpenseInput[] }.
+// Every row is validated first and nothing is saved unless all of them pass.
+export const POST = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  const rows = body?.rows;
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return NextResponse.json({ error: "Send the transactions to import as a non-empty \"rows\" array." }, { status: 400 });
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return NextResponse.json({ error: `Import at most ${MAX_IMPORT_ROWS} rows at a time.` }, { status: 413 });
+  }
+
+  const details: string[] = [];
+  const batch: Expense[] = [];
+  const stamp = Date.now();
+  const currency = getCurrencySettings();
+  rows.forEach((row, i) => {
+    const result = validateExpenseInput(row);
+    if (!result.ok) {
+      details.push(...result.errors.map((e) => `Row ${i + 1}: ${e}`));
+      return;
+    }
+    const input = result.value as ExpenseInput;
+    const priced = priceEntry(input, currency);
+    if ("error" in priced) details.push(`Row ${i + 1}: ${priced.error}`);
+    else batch.push({ id: `${stamp}-${i}`, ...input, ...priced });
+  });
+  if (details.length) {
+    return NextResponse.json({ error: "Import rejected; nothing was saved.", details }, { status: 400 });
+  }
+
+  addExpenses(batch);
+  return NextResponse.json({ imported: batch.length, expenses: getExpenses() }, { status: 201 });
+});
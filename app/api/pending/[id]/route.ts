@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { cancelPendingAction, confirmPendingAction, editPendingAction } from "@/app/pendingActions";
+
+type Params = { params: { id: string } };
+
+function notFound() {
+  return NextResponse.json({ error: "That confirmation has expired or was already used." }, { status: 404 });
+}
+
+// PATCH /api/pending/:id — edits what the chat card shows before it is confirmed:
+// { "item": 1, "changes": { "amount": 250 } } for one of several expenses,
+// { "changes": { … } } for a transaction update, { "amount": 5000 } for a budget.
+// Returns the redrawn card.
+export const PATCH = withUser(async (req: NextRequest, { params }: Params) => {
+  const body = await req.json().catch(() => null);
+  const result = editPendingAction(params.id, body ?? {});
+  if (!result) return notFound();
+  if ("error" in result) return NextResponse.json({ error: result.error }, { status: 422 });
+  return NextResponse.json(result);
+});
+
+// POST /api/pending/:id — applies what the chat card showed. For several expenses,
+// { keep: [0, 2] } logs only the items left ticked; without it, all of them.
+export const POST = withUser(async (req: NextRequest, { params }: Params) => {
+  const body = await req.json().catch(() => null);
+  const keep = body?.keep;
+  if (keep !== undefined && (!Array.isArray(keep) || keep.some((i) => !Number.isInteger(i) || i < 0))) {
+    return NextResponse.json({ error: "keep must be a list of item positions, starting at 0." }, { status: 400 });
+  }
+  const result = confirmPendingAction(params.id, keep);
+  if (!result) return notFound();
+  if ("error" in result) return NextResponse.json({ error: result.error }, { status: 422 });
+  return NextResponse.json(result);
+});
+
+// Drops the card's change without applying it.
+export const DELETE = withUser(async (_req: NextRequest, { params }: Params) => {
+  if (!cancelPendingAction(params.id)) return notFound();
+  return new NextResponse(null, { status: 204 });
+});
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { getConfirmSettings, updateConfirmSettings } from "@/app/expenseStore";
+import { validateConfirmSettings } from "@/app/validation";
+
+export const GET = withUser(async () => {
+  return NextResponse.json(getConfirmSettings());
+});
+
+// PUT /api/pending/settings — { "autoCommit": true, "minConfidence": 0.8, "maxAmount": 2000 }.
+// `maxAmount: null` removes the amount limit.
+export const PUT = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  const result = validateConfirmSettings(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: "Invalid confirmation settings.", details: result.errors }, { status: 400 });
+  }
+  return NextResponse.json(updateConfirmSettings(result.value));
+});
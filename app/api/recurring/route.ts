@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import {
+  addRecurringRule,
+  deleteRecurringRule,
+  getExpenses,
+  getRecurringRules,
+  materializeRecurring,
+} from "@/app/expenseStore";
+import { buildRecurringRule, upcomingBills } from "@/app/recurring";
+
+export const GET = withUser(async () => {
+  materializeRecurring();
+  return NextResponse.json({
+    rules: getRecurringRules(),
+    upcomingBills: upcomingBills(getRecurringRules()),
+  });
+});
+
+export const POST = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  const built = buildRecurringRule(body);
+  if ("error" in built) {
+    return NextResponse.json({ error: built.error }, { status: 400 });
+  }
+
+  addRecurringRule(built.rule);
+  materializeRecurring();
+  return NextResponse.json({
+    rule: built.rule,
+    expenses: getExpenses(),
+    upcomingBills: upcomingBills(getRecurringRules()),
+  }, { status: 201 });
+});
+
+// Stops a rule by id (?id=...). Expenses it already created are kept.
+export const DELETE = withUser(async (req: NextRequest) => {
+  const id = req.nextUrl.searchParams.get("id");
+  if (!id || !deleteRecurringRule(id)) {
+    return NextResponse.json({ error: "Recurring rule not found." }, { status: 404 });
+  }
+  return NextResponse.json({ upcomingBills: upcomingBills(getRecurringRules()) });
+});
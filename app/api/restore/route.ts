@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { getBudget, getBudgetSettings, getCategories, getCurrencySettings, getExpenses, restoreData } from "@/app/expenseStore";
+import { readBackup } from "@/app/exporter";
+import { upcomingBills } from "@/app/recurring";
+
+// POST /api/restore — replace all data with a backup from GET /api/export?format=json.
+export const POST = withUser(async (req: NextRequest) => {
+  const body = await req.json().catch(() => null);
+  const backup = readBackup(body);
+  if ("error" in backup) {
+    return NextResponse.json({ error: backup.error }, { status: 400 });
+  }
+
+  restoreData(backup.data);
+  return NextResponse.json({
+    expenses: getExpenses(),
+    budget: getBudget(),
+    upcomingBills: upcomingBills(backup.data.recurringRules),
+    categories: getCategories(),
+    budgetSettings: getBudgetSettings(),
+    currency: getCurrencySettings(),
+  });
+});
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withUser } from "@/app/auth";
+import { getBudgetStatus, getExpenses, materializeRecurring } from "@/app/expenseStore";
+import { normalizeSummaryQuery, resolvePeriod, runSummaryQuery } from "@/app/summaryEngine";
+import { isValidDate } from "@/app/validation";
+
+// GET /api/summary?summary_type=category_total&category=Food&period=last_month&tag=goa-trip
+// The period is a name ("this_month", "September 2026") or an explicit ?from=&to= range in dd-MM-yyyy.
+export const GET = withUser(async (req: NextRequest) => {
+  const params = req.nextUrl.searchParams;
+  const from = params.get("from");
+  const to = params.get("to");
+  if ((from || to) && !(isValidDate(from) && isValidDate(to))) {
+    return NextResponse.json({ error: "Pass both \"from\" and \"to\" as dd-MM-yyyy dates." }, { status: 400 });
+  }
+
+  const query = normalizeSummaryQuery({
+    summary_type: params.get("summary_type") ?? "all_spending",
+    category: params.get("category") ?? undefined,
+    categories: params.get("categories")?.split(","),
+    merchant: params.get("merchant") ?? undefined,
+    tag: params.get("tag") ?? undefined,
+    period: from && to ? { from, to } : params.get("period") ?? undefined,
+    granularity: params.get("granularity") ?? undefined,
+  });
+
+  materializeRecurring();
+  return NextResponse.json(runSummaryQuery(query, getExpenses(), getBudgetStatus(resolvePeriod(query.period)).available));
+});
@@ -0,0 +1,34 @@
+// auth.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { runAsUser, sessionUser } from "@/app/accounts";
+
+export const SESSION_COOKIE = "budget_session";
+
+type RouteHandler<C> = (req: NextRequest, context: C) => Response | Promise<Response>;
+
+// Wraps a route handler so it only runs for a signed-in user, and every store call it
+// makes reads and writes that user's data.
+export function withUser<C>(handler: RouteHandler<C>): RouteHandler<C> {
+  return (req, context) => {
+    const user = sessionUser(req.cookies.get(SESSION_COOKIE)?.value);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in to continue." }, { status: 401 });
+    }
+    return runAsUser(user.id, () => handler(req, context));
+  };
+}
+
+export function setSessionCookie(res: NextResponse, token: string, expires: Date) {
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires,
+  });
+}
+
+export function clearSessionCookie(res: NextResponse) {
+  res.cookies.set(SESSION_COOKIE, "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
+}
@@ -0,0 +1,164 @@
+// budgets.ts
+
+import { addMonths, addWeeks, addYears, endOfMonth, endOfWeek, endOfYear, format, startOfMonth, startOfWeek, startOfYear } from "date-fns";
+import { BudgetCadence, BudgetMap, BudgetSettings, BudgetVersion, Expense } from "@/app/expenseStore";
+import { DateRange, parseExpenseDate, PeriodSpec, resolvePeriod, spendingOnly } from "@/app/summaryEngine";
+
+export const BUDGET_CADENCES: BudgetCadence[] = ["weekly", "monthly", "yearly"];
+
+// One budget period: a week (starting Monday), a calendar month or a calendar year.
+// `key` is its first day as dd-MM-yyyy, which is also how budget versions are dated.
+export type BudgetPeriod = { key: string; label: string; start: Date; end: Date };
+
+// What a date range may spend: the base budget of every period that starts inside it,
+// plus whatever rolled over into the first of those periods.
+export type BudgetStatus = {
+  label: string;
+  cadence: BudgetCadence;
+  periods: BudgetPeriod[];
+  budget: BudgetMap;
+  carried: BudgetMap; // Positive for unspent money brought forward, negative for overspend
+  available: BudgetMap; // budget + carried
+  spent: BudgetMap;
+  rollover: string[];
+};
+
+const weekOpts = { weekStartsOn: 1 as const };
+
+// --- Periods ---
+export function budgetPeriodAt(date: Date, cadence: BudgetCadence): BudgetPeriod {
+  switch (cadence) {
+    case "weekly": {
+      const start = startOfWeek(date, weekOpts);
+      return { key: format(start, "dd-MM-yyyy"), label: `Week of ${format(start, "d MMM yyyy")}`, start, end: endOfWeek(date, weekOpts) };
+    }
+    case "yearly": {
+      const start = startOfYear(date);
+      return { key: format(start, "dd-MM-yyyy"), label: format(start, "yyyy"), start, end: endOfYear(date) };
+    }
+    case "monthly":
+    default: {
+      const start = startOfMonth(date);
+      return { key: format(start, "dd-MM-yyyy"), label: format(start, "MMMM yyyy"), start, end: endOfMonth(date) };
+    }
+  }
+}
+
+export function shiftBudgetPeriod(period: BudgetPeriod, cadence: BudgetCadence, by: number): BudgetPeriod {
+  const date = cadence === "weekly" ? addWeeks(period.start, by) : cadence === "yearly" ? addYears(period.start, by) : addMonths(period.start, by);
+  return budgetPeriodAt(date, cadence);
+}
+
+// Periods that start inside the range. A range shorter than one period (a single day,
+// say) gets the period that contains it.
+export function budgetPeriodsIn(range: { start: Date; end: Date }, cadence: BudgetCadence): BudgetPeriod[] {
+  const periods: BudgetPeriod[] = [];
+  let period = budgetPeriodAt(range.start, cadence);
+  if (period.start < range.start) period = shiftBudgetPeriod(period, cadence, 1);
+  while (period.start <= range.end) {
+    periods.push(period);
+    period = shiftBudgetPeriod(period, cadence, 1);
+  }
+  return periods.length ? periods : [budgetPeriodAt(range.start, cadence)];
+}
+
+// Which period a chat extraction or query parameter means. "next_month" and friends look
+// forward; everything else goes through the summary engine's period names.
+export function resolveBudgetDate(spec: PeriodSpec | undefined, cadence: BudgetCadence, now = new Date()): Date {
+  if (spec === undefined) return now;
+  if (typeof spec === "string") {
+    const normalized = spec.trim().toLowerCase().replace(/[\s-]+/g, "_");
+    if (normalized === "next_week") return addWeeks(now, 1);
+    if (normalized === "next_month") return addMonths(now, 1);
+    if (normalized === "next_year") return addYears(now, 1);
+    if (normalized === "next" || normalized === "next_period") return shiftBudgetPeriod(budgetPeriodAt(now, cadence), cadence, 1).start;
+    if (["current", "this_period", "now"].includes(normalized)) return now;
+  }
+  return resolvePeriod(spec, now).start;
+}
+
+// Reads ?date=dd-MM-yyyy or ?period=… (as for resolveBudgetDate) from a request.
+export function budgetDateParam(params: URLSearchParams, cadence: BudgetCadence, now = new Date()): { date: Date } | { error: string } {
+  const date = params.get("date");
+  if (date) {
+    const parsed = parseExpenseDate(date);
+    return /^\d{2}-\d{2}-\d{4}$/.test(date) && !isNaN(parsed.getTime()) ? { date: parsed } : { error: `"date" must be a date in dd-MM-yyyy format.` };
+  }
+  return { date: resolveBudgetDate(params.get("period") ?? undefined, cadence, now) };
+}
+
+// --- Versions ---
+// Versions are kept oldest first; the undated first one covers everything before the rest.
+function versionTime(v: BudgetVersion): number {
+  return v.from ? parseExpenseDate(v.from).getTime() : -Infinity;
+}
+
+export function budgetAt(versions: BudgetVersion[], date: Date): BudgetMap {
+  let current: BudgetMap = {};
+  for (const v of versions) {
+    if (versionTime(v) <= date.getTime()) current = v.budget;
+  }
+  return current;
+}
+
+// Replaces (or adds) the version starting on `from`, built from the budget in effect then.
+// Later versions are untouched, so a change applies until the next time the budget changed.
+export function withVersion(versions: BudgetVersion[], from: string, update: (budget: BudgetMap) => BudgetMap): BudgetVersion[] {
+  const budget = update({ ...budgetAt(versions, parseExpenseDate(from)) });
+  return [...versions.filter((v) => v.from !== from), { from, budget }].sort((a, b) => versionTime(a) - versionTime(b));
+}
+
+// --- Status ---
+type DatedExpense = { expense: Expense; time: number };
+
+// "total" counts every expense; a category counts itself and its sub-categories.
+function spentOn(expenses: DatedExpense[], key: string, parents: Record<string, string>): number {
+  return expenses
+    .filter(({ expense }) => key === "total" || expense.category === key || parents[expense.category] === key)
+    .reduce((a, { expense }) => a + expense.amount, 0);
+}
+
+export function computeBudgetStatus(
+  range: DateRange,
+  data: { budgets: BudgetVersion[]; budgetSettings: BudgetSettings; expenses: Expense[] },
+  parents: Record<string, string>
+): BudgetStatus {
+  const { cadence, rollover } = data.budgetSettings;
+  const spending: DatedExpense[] = spendingOnly(data.expenses)
+    .map((expense) => ({ expense, time: parseExpenseDate(expense.date).getTime() }))
+    .filter(({ time }) => !isNaN(time));
+  const between = (start: Date, end: Date) => spending.filter(({ time }) => time >= start.getTime() && time <= end.getTime());
+
+  // "All time" starts in 1970; only count budget periods from the first recorded spending.
+  const first = spending.reduce((min, { time }) => Math.min(min, time), Infinity);
+  const firstPeriod = first <= range.end.getTime() ? budgetPeriodAt(new Date(first), cadence).start : range.start;
+  const start = firstPeriod > range.start ? firstPeriod : range.start;
+  const periods = budgetPeriodsIn({ start, end: range.end }, cadence);
+
+  const budget: BudgetMap = {};
+  periods.forEach((p) => {
+    Object.entries(budgetAt(data.budgets, p.start)).forEach(([key, amount]) => { budget[key] = (budget[key] || 0) + (amount || 0); });
+  });
+
+  // Carry accumulates from the period rollover was switched on, so turning it on never
+  // sweeps years of history into the current period. Periods without a budget for the
+  // key leave the carry as it was.
+  const carried: BudgetMap = {};
+  Object.entries(rollover).forEach(([key, since]) => {
+    let carry = 0;
+    for (let p = budgetPeriodAt(parseExpenseDate(since), cadence); p.start < periods[0].start; p = shiftBudgetPeriod(p, cadence, 1)) {
+      const limit = budgetAt(data.budgets, p.start)[key];
+      if (limit !== undefined) carry += limit - spentOn(between(p.start, p.end), key, parents);
+    }
+    if (carry) carried[key] = carry;
+  });
+
+  const available: BudgetMap = { ...budget };
+  Object.entries(carried).forEach(([key, amount]) => { available[key] = (available[key] || 0) + (amount || 0); });
+
+  const inRange = between(range.start, range.end);
+  const spent: BudgetMap = {};
+  Object.keys({ total: 0, ...available }).forEach((key) => { spent[key] = spentOn(inRange, key, parents); });
+
+  return { label: range.label, cadence, periods, budget, carried, available, spent, rollover: Object.keys(rollover) };
+}
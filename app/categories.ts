@@ -0,0 +1,100 @@
+// categories.ts
+
+import { Category, CATEGORY_ICONS, TransactionType } from "@/app/expenseStore";
+
+const COLOR = /^#[0-9a-f]{6}$/i;
+const PALETTE = ["#8b5cf6", "#06b6d4", "#10b981", "#f59e0b", "#ef4444", "#14b8a6", "#f43f5e", "#3b82f6", "#84cc16", "#a855f7"];
+
+// Names must be unique across both directions, because an expense row stores only the name.
+// "total" is reserved as the budget map's overall key.
+function checkName(value: unknown, existing: Category[], current?: Category): { name: string } | { error: string } {
+  const name = typeof value === "string" ? value.trim().replace(/\s+/g, " ") : "";
+  if (!name || name.length > 30) return { error: "Category name must be 1–30 characters." };
+  if (name.toLowerCase() === "total") return { error: `"total" is reserved for the overall budget.` };
+  const clash = existing.find((c) => c !== current && c.key.toLowerCase() === name.toLowerCase());
+  if (clash) return { error: `A category called "${clash.key}" already exists.` };
+  return { name };
+}
+
+// A parent must be an existing top-level category of the same type, and a category
+// that already has sub-categories can't become one itself.
+function checkParent(value: unknown, type: TransactionType, existing: Category[], current?: Category): { parent?: string } | { error: string } {
+  if (value === undefined || value === null || value === "") return { parent: undefined };
+  const parent = typeof value === "string" ? existing.find((c) => c.key.toLowerCase() === value.trim().toLowerCase()) : undefined;
+  if (!parent) return { error: `Parent category ${JSON.stringify(value)} not found.` };
+  if (parent === current) return { error: "A category can't be its own parent." };
+  if (parent.type !== type) return { error: `"${parent.key}" is an ${parent.type} category.` };
+  if (parent.parent) return { error: `"${parent.key}" is already a sub-category; only one level of nesting is allowed.` };
+  if (current && existing.some((c) => c.parent === current.key)) {
+    return { error: `"${current.key}" has sub-categories, so it can't be nested.` };
+  }
+  return { parent: parent.key };
+}
+
+// --- Create ---
+export function buildCategory(input: any, existing: Category[]): { category: Category } | { error: string } {
+  const checked = checkName(input?.name ?? input?.key, existing);
+  if ("error" in checked) return checked;
+
+  const type: TransactionType = input?.type === "income" ? "income" : "expense";
+  if (input?.type !== undefined && input.type !== "expense" && input.type !== "income") {
+    return { error: `"type" must be "expense" or "income".` };
+  }
+
+  const icon = input?.icon ?? "sparkles";
+  if (!CATEGORY_ICONS.includes(icon)) return { error: `"icon" must be one of: ${CATEGORY_ICONS.join(", ")}.` };
+
+  const color = input?.color ?? PALETTE[existing.length % PALETTE.length];
+  if (!COLOR.test(color)) return { error: `"color" must be a hex color like #8b5cf6.` };
+
+  const parent = checkParent(input?.parent, type, existing);
+  if ("error" in parent) return parent;
+
+  return { category: { key: checked.name, type, icon, color, parent: parent.parent } };
+}
+
+// --- Update ---
+// Accepts { name?, icon?, color?, archived?, parent? }; parent: null moves it back to the
+// top level. The direction of a category never changes, since that would silently flip
+// every transaction filed under it.
+export function validateCategoryChanges(input: any, category: Category, existing: Category[]): { changes: Partial<Category> } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return { error: "Request body must be a JSON object." };
+  const changes: Partial<Category> = {};
+
+  if (input.name !== undefined) {
+    const checked = checkName(input.name, existing, category);
+    if ("error" in checked) return checked;
+    changes.key = checked.name;
+  }
+  if (input.icon !== undefined) {
+    if (!CATEGORY_ICONS.includes(input.icon)) return { error: `"icon" must be one of: ${CATEGORY_ICONS.join(", ")}.` };
+    changes.icon = input.icon;
+  }
+  if (input.color !== undefined) {
+    if (typeof input.color !== "string" || !COLOR.test(input.color)) return { error: `"color" must be a hex color like #8b5cf6.` };
+    changes.color = input.color;
+  }
+  if (input.parent !== undefined) {
+    const parent = checkParent(input.parent, category.type, existing, category);
+    if ("error" in parent) return parent;
+    changes.parent = parent.parent;
+  }
+  if (input.archived !== undefined) {
+    if (typeof input.archived !== "boolean") return { error: `"archived" must be true or false.` };
+    if (input.archived && existing.filter((c) => c.type === category.type && !c.archived && c !== category).length === 0) {
+      return { error: `At least one ${category.type} category has to stay active.` };
+    }
+    changes.archived = input.archived || undefined;
+  }
+  return { changes };
+}
+
+// Route params may arrive still percent-encoded depending on the runtime; names
+// containing a literal "%" must survive either way.
+export function decodeKeyParam(raw: string): string {
+  try {
+    return decodeURIComponent(raw);
+  } catch (e) {
+    return raw;
+  }
+}
@@ -0,0 +1,180 @@
+// conversationReplies.ts
+
+import {
+  appendTurns,
+  categoryParents,
+  ChatTurn,
+  Conversation,
+  addConversation,
+  deleteExpense,
+  deleteExpenses,
+  deleteGoal,
+  deleteRecurringRule,
+  Expense,
+  getBudget,
+  getConversation,
+  getCurrencySettings,
+  getExpenseById,
+  getExpenses,
+  getGoal,
+  getGoalProgress,
+  getLastTransaction,
+  getRecurringRules,
+  markTurnsUndone,
+  PlanChange,
+  revertChanges,
+  setBudget,
+  TransactionChange,
+} from "@/app/expenseStore";
+import { formatMoney } from "@/app/currency";
+import { upcomingBills } from "@/app/recurring";
+import { describeTransaction, lastListed, listTransactions, newConversation, resolveListed, undoableTurns } from "@/app/conversations";
+import { normalizePeriod, parseExpenseDate, SummaryRow } from "@/app/summaryEngine";
+import { holdDelete, needsConfirmation } from "@/app/pendingActions";
+
+export const CONVERSATION_INTENTS = ["list_transactions", "delete_transaction", "undo"];
+
+// What a chat route answers, plus what the conversation should remember about the reply.
+export type ChatResult = {
+  reply: string;
+  turn?: Pick<ChatTurn, "intent" | "changes" | "planChanges" | "listed" | "pendingId">;
+  [key: string]: unknown;
+};
+
+// The conversation a message belongs to: the one the client named, or a new one. A new
+// one is only saved with its first exchange, so a cancelled first message leaves nothing.
+export function openConversation(id: unknown, message: string): Conversation {
+  const existing = typeof id === "string" ? getConversation(id) : null;
+  return existing ?? newConversation(message);
+}
+
+// Stores the message and the reply as two turns and returns the response body.
+export function recordExchange(conversation: Conversation, message: string, result: ChatResult, now = new Date()) {
+  const { turn, ...body } = result;
+  const at = now.toISOString();
+  const summaryData = Array.isArray(body.summaryData) && body.summaryData.length ? (body.summaryData as SummaryRow[]) : undefined;
+  if (!getConversation(conversation.id)) addConversation(conversation);
+  appendTurns(conversation.id, [
+    { id: `${now.getTime()}-user`, role: "user", content: message, createdAt: at },
+    { id: `${now.getTime()}-fin`, role: "assistant", content: result.reply, createdAt: at, ...turn, summaryData },
+  ], now);
+  return { ...body, conversationId: conversation.id };
+}
+
+// The numbered list the model can resolve "the second one" against.
+export function listedForPrompt(conversation: Conversation): string {
+  const base = getCurrencySettings().base;
+  const lines = (lastListed(conversation) ?? []).map((id, i) => {
+    const e = getExpenseById(id);
+    return `${i + 1}. ${e ? describeTransaction(e, base) : "(since deleted)"}`;
+  });
+  return lines.length ? lines.join("; ") : "(none)";
+}
+
+// The transaction a follow-up means: one from the latest list when `ref` is given,
+// otherwise the last one logged.
+export function targetTransaction(conversation: Conversation, ref: number | undefined): { expense: Expense } | { reply: string } {
+  if (ref === undefined) {
+    const last = getLastTransaction();
+    return last ? { expense: last } : { reply: "🤔 There's no recent transaction to change." };
+  }
+  const listed = resolveListed(conversation, ref);
+  if ("reply" in listed) return listed;
+  const expense = getExpenseById(listed.id);
+  return expense ? { expense } : { reply: "🤔 That transaction has since been deleted." };
+}
+
+function describeChange(change: TransactionChange, base: string): string | null {
+  const current = getExpenseById(change.id);
+  if (change.before === null) return current ? `Removed ${describeTransaction(current, base)}` : null;
+  return `${current ? "Changed back to" : "Brought back"} ${describeTransaction(change.before, base)}`;
+}
+
+// Takes back a budget, bill or goal a turn set or added, and says what it did. A bill goes
+// with the payments it logged; a budget gets its earlier amount for the same period.
+function revertPlanChange(change: PlanChange, base: string): string | null {
+  switch (change.kind) {
+    case "budget": {
+      const at = parseExpenseDate(change.date);
+      const budget = { ...getBudget(at) };
+      if (change.before === undefined) delete budget[change.key];
+      else budget[change.key] = change.before;
+      setBudget(budget, at);
+      const name = change.key === "total" ? "Total" : change.key;
+      return change.before === undefined ? `Cleared the ${name} budget` : `Put the ${name} budget back to ${formatMoney(change.before, base)}`;
+    }
+    case "recurring": {
+      const rule = getRecurringRules().find((r) => r.id === change.ruleId);
+      if (!rule) return null;
+      deleteRecurringRule(rule.id);
+      deleteExpenses(getExpenses().filter((e) => e.recurringRuleId === rule.id).map((e) => e.id));
+      return `Removed the ${rule.note ?? rule.category} recurring bill`;
+    }
+    case "goal": {
+      const goal = getGoal(change.goalId);
+      if (!goal) return null;
+      deleteGoal(goal.id);
+      return `Removed the ${goal.name} goal`;
+    }
+  }
+}
+
+// Runs listing, deleting and undoing for the entries route. Numbers and ids always come
+// from the store; the model only says which list or how many. A deletion waits on a card
+// unless the user's confirmation settings let it through.
+export function handleConversationIntent(intent: string, data: Record<string, any>, conversation: Conversation, confidence?: number): ChatResult {
+  const base = getCurrencySettings().base;
+  switch (intent) {
+    case "list_transactions": {
+      const found = listTransactions(getExpenses(), { ...data, period: normalizePeriod(data.period) }, categoryParents());
+      if (found.length === 0) return { reply: "🔍 I couldn't find any transactions like that." };
+      const what = data.type === "income" ? "income" : data.type === "expense" ? "expenses" : "transactions";
+      const heading = `🧾 Your latest ${found.length === 1 ? "" : `${found.length} `}${what}${data.category ? ` in ${data.category}` : ""}:`;
+      return {
+        reply: [heading, ...found.map((e, i) => `${i + 1}. ${describeTransaction(e, base)}`)].join("\n"),
+        turn: { intent, listed: found.map((e) => e.id) },
+      };
+    }
+
+    case "delete_transaction": {
+      const target = targetTransaction(conversation, data.ref);
+      if ("reply" in target) return target;
+      if (needsConfirmation(target.expense.amount, confidence)) return holdDelete(conversation, target.expense);
+      deleteExpense(target.expense.id);
+      return {
+        reply: `🗑️ Deleted ${describeTransaction(target.expense, base)}. Say "undo" to bring it back.`,
+        updatedExpenses: getExpenses(),
+        turn: { intent, changes: [{ id: target.expense.id, before: target.expense }] },
+      };
+    }
+
+    // "undo the last two": the newest changes made in this chat, latest first.
+    case "undo": {
+      const turns = undoableTurns(conversation, data.count);
+      if (turns.length === 0) return { reply: "🤔 There's nothing left to undo in this chat." };
+      const lines: string[] = [];
+      turns.forEach((t) => {
+        const changes = t.changes ?? [];
+        changes.forEach((c) => {
+          const line = describeChange(c, base);
+          if (line) lines.push(`• ${line}`);
+        });
+        revertChanges(changes);
+        (t.planChanges ?? []).slice().reverse().forEach((c) => {
+          const line = revertPlanChange(c, base);
+          if (line) lines.push(`• ${line}`);
+        });
+      });
+      markTurnsUndone(conversation.id, turns.map((t) => t.id));
+      const undid = turns.length === 1 ? "the last change" : `the last ${turns.length} changes`;
+      const short = turns.length < data.count ? " (that's all there was)" : "";
+      const plans = turns.some((t) => t.planChanges?.length)
+        ? { updatedBudget: getBudget(), updatedUpcomingBills: upcomingBills(getRecurringRules()), updatedGoals: getGoalProgress() }
+        : {};
+      return { reply: [`↩️ Undid ${undid}${short}:`, ...lines].join("\n"), updatedExpenses: getExpenses(), ...plans, turn: { intent } };
+    }
+
+    default:
+      return { reply: "🤔 I'm not sure how to handle that request." };
+  }
+}
@@ -0,0 +1,108 @@
+// conversations.ts
+
+import { format } from "date-fns";
+import { ChatTurn, Conversation, Expense, TransactionType } from "@/app/expenseStore";
+import { filterByRange, parseExpenseDate, PeriodSpec, resolvePeriod } from "@/app/summaryEngine";
+import { formatMoney } from "@/app/currency";
+import { describeSplit } from "@/app/splits";
+
+// --- Limits ---
+export const HISTORY_WINDOW = 12; // Turns the model sees word for word
+const SUMMARY_ITEMS = 30; // Older exchanges kept in the summary
+const TURN_PROMPT_CHARS = 400;
+export const MAX_TURNS = 200; // Per conversation; the oldest are dropped
+export const MAX_CONVERSATIONS = 20; // Per user; the least recently used are dropped
+export const MAX_LISTED = 20;
+export const MAX_UNDO = 10;
+
+// "Spent 150 on coffee at the airport" → "Spent 150 on coffee at the…"
+function clip(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > length ? `${flat.slice(0, length - 1).trimEnd()}…` : flat;
+}
+
+export function conversationTitle(message: string): string {
+  return clip(message, 48) || "New chat";
+}
+
+export function newConversation(title: string, now = new Date()): Conversation {
+  return { id: `chat-${now.getTime()}`, title: conversationTitle(title), createdAt: now.toISOString(), updatedAt: now.toISOString(), turns: [] };
+}
+
+// --- Prompt History ---
+// The model sees the latest turns verbatim. Anything older is boiled down to one line per
+// exchange: what the user said and the first line of the answer.
+export function summarizeTurns(turns: ChatTurn[]): string {
+  const items: string[] = [];
+  turns.forEach((turn, i) => {
+    if (turn.role !== "user") return;
+    const answer = turns[i + 1]?.role === "assistant" ? turns[i + 1] : undefined;
+    const outcome = answer ? `"${clip(answer.content.split("\n")[0], 80)}"${answer.undone ? " (later undone)" : ""}` : "(no answer)";
+    items.push(`- "${clip(turn.content, 80)}" → ${outcome}`);
+  });
+  const dropped = items.length - SUMMARY_ITEMS;
+  const kept = dropped > 0 ? [`- (${dropped} earlier exchanges)`, ...items.slice(dropped)] : items;
+  return kept.join("\n");
+}
+
+export function historyForPrompt(conversation: Conversation): string {
+  const turns = conversation.turns;
+  if (turns.length === 0) return "(This is the start of the conversation.)";
+  const older = turns.slice(0, Math.max(0, turns.length - HISTORY_WINDOW));
+  const recent = turns.slice(-HISTORY_WINDOW);
+  const lines: string[] = [];
+  if (older.length) lines.push("Earlier (summarized):", summarizeTurns(older), "", "Most recent:");
+  recent.forEach((t) => lines.push(`${t.role === "user" ? "User" : "Fin"}: ${clip(t.content, TURN_PROMPT_CHARS)}`));
+  return lines.join("\n");
+}
+
+// --- Listing and Referring Back ---
+// "the second one you listed" is always read against the most recent list in the chat.
+export function lastListed(conversation: Conversation): string[] | null {
+  for (let i = conversation.turns.length - 1; i >= 0; i--) {
+    const listed = conversation.turns[i].listed;
+    if (listed?.length) return listed;
+  }
+  return null;
+}
+
+// The id at a 1-based position of the latest list, or a reply explaining why there isn't one.
+export function resolveListed(conversation: Conversation, position: number): { id: string } | { reply: string } {
+  const listed = lastListed(conversation);
+  if (!listed) return { reply: `🤔 I haven't listed any transactions in this chat yet. Try "show my last 5 expenses".` };
+  if (position > listed.length) return { reply: `🤔 I only listed ${listed.length} transaction${listed.length === 1 ? "" : "s"}.` };
+  return { id: listed[position - 1] };
+}
+
+// "19 Oct · ₹150 · Coffee — latte", in the currency it was entered in. A shared bill adds
+// "(your share of ₹3,000 split 4 ways)".
+export function describeTransaction(e: Expense, base: string): string {
+  const amount = e.currency && e.originalAmount !== undefined
+    ? formatMoney(e.originalAmount, e.currency, !Number.isInteger(e.originalAmount))
+    : formatMoney(e.amount, base, !Number.isInteger(e.amount));
+  const split = e.split ? ` (${describeSplit(e, base)})` : "";
+  return `${format(parseExpenseDate(e.date), "d MMM")} · ${amount} · ${e.category}${e.note ? ` — ${e.note}` : ""}${split}`;
+}
+
+export type ListOptions = { type?: TransactionType; category?: string; period?: PeriodSpec; limit?: number };
+
+// Newest first. A parent category includes its sub-categories.
+export function listTransactions(expenses: Expense[], options: ListOptions, parents: Record<string, string>, now = new Date()): Expense[] {
+  const inRange = options.period ? filterByRange(expenses, resolvePeriod(options.period, now)) : expenses;
+  return inRange
+    .filter((e) => !options.type || e.type === options.type)
+    .filter((e) => !options.category || e.category === options.category || parents[e.category] === options.category)
+    .map((e, i) => ({ e, i, at: parseExpenseDate(e.date).getTime() }))
+    .sort((a, b) => b.at - a.at || a.i - b.i)
+    .slice(0, Math.min(options.limit ?? 5, MAX_LISTED))
+    .map(({ e }) => e);
+}
+
+// --- Undo ---
+// The assistant turns whose changes "undo the last two" would revert, newest first.
+export function undoableTurns(conversation: Conversation, count: number): ChatTurn[] {
+  return conversation.turns
+    .filter((t) => t.role === "assistant" && (t.changes?.length || t.planChanges?.length) && !t.undone)
+    .slice(-count)
+    .reverse();
+}
@@ -0,0 +1,236 @@
+// currency.ts
+
+import { format } from "date-fns";
+import { BudgetVersion, CurrencySettings, ExchangeRate, Expense, PendingAction, RecurringRule, SavingsGoal } from "@/app/expenseStore";
+import { StoreData } from "@/app/storage";
+import { parseCsv, parseImportDate } from "@/app/importer";
+import { isValidDate } from "@/app/validation";
+import { parseExpenseDate } from "@/app/summaryEngine";
+import { resplit } from "@/app/splits";
+
+export const DEFAULT_BASE_CURRENCY = "INR";
+
+// What people type in chat: "$12 lunch", "€30 taxi".
+export const CURRENCY_SYMBOLS: Record<string, string> = { "$": "USD", "€": "EUR", "£": "GBP", "¥": "JPY", "₹": "INR" };
+
+const MAX_RATE_ROWS = 5000;
+
+// A three-letter ISO code ("usd" → "USD") or one of CURRENCY_SYMBOLS; undefined otherwise.
+export function normalizeCurrency(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const text = value.trim();
+  if (CURRENCY_SYMBOLS[text]) return CURRENCY_SYMBOLS[text];
+  return /^[a-z]{3}$/i.test(text) ? text.toUpperCase() : undefined;
+}
+
+// "₹1,234" for the base currency, "$12.50" for others. Whole units unless `cents` is set.
+export function formatMoney(amount: number, currency = DEFAULT_BASE_CURRENCY, cents = false): string {
+  try {
+    return new Intl.NumberFormat(currency === "INR" ? "en-IN" : "en-US", {
+      style: "currency",
+      currency,
+      minimumFractionDigits: cents ? 2 : 0,
+      maximumFractionDigits: cents ? 2 : 0,
+    }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(cents ? 2 : 0)}`;
+  }
+}
+
+// --- Rate Lookup ---
+// A rate says 1 `from` = `rate` `to` on its date; it works in both directions. For a given
+// day the latest rate on or before it is used, or the earliest one after it when the table
+// starts later. Pairs without a rate of their own go through one shared currency
+// (USD → EUR → INR when only those two pairs are known).
+type DatedRate = { rate: number; date: Date };
+
+function pairRates(rates: ExchangeRate[], from: string, to: string): DatedRate[] {
+  const found: DatedRate[] = [];
+  rates.forEach((r) => {
+    if (r.from === from && r.to === to) found.push({ rate: r.rate, date: parseExpenseDate(r.date) });
+    else if (r.from === to && r.to === from) found.push({ rate: 1 / r.rate, date: parseExpenseDate(r.date) });
+  });
+  return found;
+}
+
+function rateOn(candidates: DatedRate[], at: Date): number | null {
+  if (candidates.length === 0) return null;
+  const before = candidates.filter((c) => c.date <= at).sort((a, b) => b.date.getTime() - a.date.getTime());
+  if (before.length) return before[0].rate;
+  return candidates.slice().sort((a, b) => a.date.getTime() - b.date.getTime())[0].rate;
+}
+
+export function findRate(rates: ExchangeRate[], from: string, to: string, at: Date): number | null {
+  if (from === to) return 1;
+  const direct = rateOn(pairRates(rates, from, to), at);
+  if (direct !== null) return direct;
+
+  const via = new Set<string>();
+  rates.forEach((r) => { via.add(r.from); via.add(r.to); });
+  via.delete(from);
+  via.delete(to);
+  for (const middle of Array.from(via)) {
+    const first = rateOn(pairRates(rates, from, middle), at);
+    const second = first === null ? null : rateOn(pairRates(rates, middle, to), at);
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+}
+
+// Rounded to the paisa/cent. Null when there's no way to get from one currency to the other.
+export function convert(amount: number, from: string, to: string, rates: ExchangeRate[], at: Date): number | null {
+  const rate = findRate(rates, from, to, at);
+  return rate === null ? null : Math.round(amount * rate * 100) / 100;
+}
+
+export function missingRate(from: string, to: string): string {
+  return `There's no exchange rate from ${from} to ${to}. Add one under Currency settings.`;
+}
+
+// --- Pricing Transactions ---
+// `amount` is always stored in the base currency, so totals, charts and budgets never
+// convert anything. A transaction entered in another currency keeps what was typed in
+// `currency` / `originalAmount`, converted at the rate for its own date.
+type Priced = Pick<Expense, "amount" | "currency" | "originalAmount">;
+
+export function priceEntry(entry: { amount: number; date: string; currency?: string }, settings: CurrencySettings): Priced | { error: string } {
+  const currency = entry.currency;
+  if (!currency || currency === settings.base) return { amount: entry.amount, currency: undefined, originalAmount: undefined };
+  const amount = convert(entry.amount, currency, settings.base, settings.rates, parseExpenseDate(entry.date));
+  if (amount === null) return { error: missingRate(currency, settings.base) };
+  return { amount, currency, originalAmount: entry.amount };
+}
+
+// For an edit: a new amount is in the transaction's currency (the new one, if that changes
+// too), and moving a foreign transaction to another date re-prices it at that day's rate.
+// `currency` present but undefined switches it back to the base currency. A new amount on a
+// split bill is the user's share, and the bill follows it.
+export function priceChanges<T extends Partial<Expense>>(existing: Expense, changes: T, settings: CurrencySettings): T | { error: string } {
+  if (changes.amount === undefined && !("currency" in changes) && changes.date === undefined) return changes;
+  const currency = "currency" in changes ? changes.currency : existing.currency;
+  if (!currency && !("currency" in changes) && changes.amount === undefined) return changes;
+  const priced = priceEntry({
+    amount: changes.amount ?? existing.originalAmount ?? existing.amount,
+    date: changes.date ?? existing.date,
+    currency,
+  }, settings);
+  if ("error" in priced) return priced;
+  const split = existing.split && changes.amount !== undefined ? { split: resplit(existing.split, changes.amount) } : {};
+  return { ...changes, ...priced, ...split };
+}
+
+// --- Rate Files ---
+// CSV with date, from, to and rate columns (a header row is optional and may name them in
+// any order), or a JSON array of { date, from, to, rate }. Dates are dd-MM-yyyy or yyyy-MM-dd.
+type RateRow = { date?: unknown; from?: unknown; to?: unknown; rate?: unknown };
+
+function readRateDate(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  if (isValidDate(value.trim())) return value.trim();
+  return parseImportDate(value, "yyyy-MM-dd");
+}
+
+export function validateRate(row: RateRow, label: string, errors: string[], today = new Date()): Omit<ExchangeRate, "id"> | null {
+  const from = normalizeCurrency(row.from);
+  const to = normalizeCurrency(row.to);
+  const rate = typeof row.rate === "string" ? Number(row.rate.replace(/,/g, "")) : row.rate;
+  const date = row.date === undefined || row.date === "" ? format(today, "dd-MM-yyyy") : readRateDate(row.date);
+  const before = errors.length;
+  if (!from) errors.push(`${label}: "from" must be a currency code like USD.`);
+  if (!to) errors.push(`${label}: "to" must be a currency code like INR.`);
+  if (from && to && from === to) errors.push(`${label}: "from" and "to" must be different currencies.`);
+  if (typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0) errors.push(`${label}: "rate" must be a positive number.`);
+  if (!date) errors.push(`${label}: "date" must be dd-MM-yyyy or yyyy-MM-dd.`);
+  return errors.length > before ? null : { from: from!, to: to!, rate: rate as number, date: date! };
+}
+
+export function parseRateFile(content: string): { rates: Omit<ExchangeRate, "id">[] } | { error: string; details?: string[] } {
+  let rows: RateRow[];
+  const trimmed = content.trim();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return { error: "The rate file isn't valid JSON." };
+    }
+    rows = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.rates) ? parsed.rates : [];
+  } else {
+    const table = parseCsv(trimmed);
+    const header = (table[0] ?? []).map((h) => h.toLowerCase());
+    const named = ["date", "from", "to", "rate"].every((c) => header.includes(c));
+    const columns = named ? ["date", "from", "to", "rate"].map((c) => header.indexOf(c)) : [0, 1, 2, 3];
+    rows = (named ? table.slice(1) : table).map((r) => ({ date: r[columns[0]], from: r[columns[1]], to: r[columns[2]], rate: r[columns[3]] }));
+  }
+
+  if (rows.length === 0) return { error: "No exchange rates found. Use date,from,to,rate rows." };
+  if (rows.length > MAX_RATE_ROWS) return { error: `Import at most ${MAX_RATE_ROWS} rates at a time.` };
+  const details: string[] = [];
+  const rates = rows.map((row, i) => validateRate(row, `Row ${i + 1}`, details));
+  if (details.length) return { error: "Rate file rejected; nothing was saved.", details };
+  return { rates: rates as Omit<ExchangeRate, "id">[] };
+}
+
+// --- Changing the Base Currency ---
+// Everything stored in the old base is converted: transactions at the rate for their own
+// date (keeping the old-base figure as their original amount), budgets, bills and goals
+// at today's rate. Changes held on a chat card are converted the same way, and so is the
+// largest amount a chat change may apply without one. An edit held for a transaction needs
+// nothing: its amount is in the transaction's own currency. Nothing is returned unless
+// every amount could be converted.
+type Rebased = Pick<StoreData, "expenses" | "budgets" | "recurringRules" | "goals" | "pending" | "confirmSettings">;
+
+export function rebase(data: Rebased, settings: CurrencySettings, base: string, now = new Date()): Rebased | { error: string } {
+  const missing = new Set<string>();
+  const at = (amount: number, from: string, date: Date, whole = false) => {
+    const converted = convert(amount, from, base, settings.rates, date);
+    if (converted === null) {
+      missing.add(`${from} → ${base}`);
+      return amount;
+    }
+    return whole ? Math.round(converted) : converted;
+  };
+  const today = (amount: number, whole = false) => at(amount, settings.base, now, whole);
+
+  const expense = (e: Expense): Expense => {
+    const currency = e.currency ?? settings.base;
+    const original = e.originalAmount ?? e.amount;
+    if (currency === base) return { ...e, amount: original, currency: undefined, originalAmount: undefined };
+    return { ...e, amount: at(original, currency, parseExpenseDate(e.date)), currency, originalAmount: original };
+  };
+  const rule = (r: RecurringRule): RecurringRule => ({ ...r, amount: today(r.amount) });
+  const goal = (g: SavingsGoal): SavingsGoal => ({
+    ...g,
+    target: today(g.target, true),
+    monthlyContribution: g.monthlyContribution === undefined ? undefined : today(g.monthlyContribution, true),
+  });
+
+  const expenses = data.expenses.map(expense);
+  const budgets = data.budgets.map((v): BudgetVersion => ({
+    ...v,
+    budget: Object.fromEntries(Object.entries(v.budget).map(([key, amount]) => [key, today(amount ?? 0, true)])),
+  }));
+  const recurringRules = data.recurringRules.map(rule);
+  const goals = data.goals.map(goal);
+  const pending = data.pending.map((a): PendingAction => {
+    switch (a.kind) {
+      case "log_expenses":
+        return { ...a, expenses: a.expenses.map(expense) };
+      case "log_income":
+        return { ...a, income: expense(a.income) };
+      case "set_budget":
+        return { ...a, amount: today(a.amount, true) };
+      case "add_recurring":
+        return { ...a, rule: rule(a.rule) };
+      case "add_goal":
+        return { ...a, goal: goal(a.goal) };
+      default:
+        return a;
+    }
+  });
+  const { maxAmount } = data.confirmSettings;
+  const confirmSettings = maxAmount === undefined ? data.confirmSettings : { ...data.confirmSettings, maxAmount: today(maxAmount, true) };
+
+  if (missing.size) return { error: `Add exchange rates for ${Array.from(missing).join(", ")} before switching to ${base}.` };
+  return { expenses, budgets, recurringRules, goals, pending, confirmSettings };
+}
@@ -0,0 +1,119 @@
+// expenseQuery.ts
+
+import { Expense } from "@/app/expenseStore";
+import { parseExpenseDate } from "@/app/summaryEngine";
+import { normalizeTag } from "@/app/tags";
+import { isValidDate } from "@/app/validation";
+
+export type ExpenseSortField = "date" | "amount" | "category";
+
+export type ExpenseQuery = {
+  from?: string; // dd-MM-yyyy, inclusive
+  to?: string; // dd-MM-yyyy, inclusive
+  categories?: string[];
+  tag?: string;
+  type?: "expense" | "income";
+  q?: string;
+  sort: ExpenseSortField;
+  order: "asc" | "desc";
+  page: number;
+  pageSize: number;
+};
+
+export type Page<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+};
+
+const SORT_FIELDS: ExpenseSortField[] = ["date", "amount", "category"];
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Reads filters, sorting and pagination from URL search params, e.g.
+// ?from=01-10-2026&to=31-10-2026&category=Food,Coffee&tag=goa-trip&q=swiggy&sort=amount&order=asc&page=2&pageSize=20
+// A parent category also matches its sub-categories, and `q` searches notes, categories and tags.
+export function parseExpenseQuery(params: URLSearchParams): { ok: true; value: ExpenseQuery } | { ok: false; errors: string[] } {
+  const errors: string[] = [];
+
+  const from = params.get("from") ?? undefined;
+  const to = params.get("to") ?? undefined;
+  if (from && !isValidDate(from)) errors.push(`"from" must be a date in dd-MM-yyyy format.`);
+  if (to && !isValidDate(to)) errors.push(`"to" must be a date in dd-MM-yyyy format.`);
+
+  const rawTag = params.get("tag") ?? undefined;
+  const tag = rawTag ? normalizeTag(rawTag) : undefined;
+  if (rawTag && !tag) errors.push(`"tag" must be letters, digits, "-" or "_".`);
+
+  const type = params.get("type") ?? undefined;
+  if (type && type !== "expense" && type !== "income") errors.push(`"type" must be "expense" or "income".`);
+
+  const sort = (params.get("sort") ?? "date") as ExpenseSortField;
+  if (!SORT_FIELDS.includes(sort)) errors.push(`"sort" must be one of: ${SORT_FIELDS.join(", ")}.`);
+
+  const order = params.get("order") ?? "desc";
+  if (order !== "asc" && order !== "desc") errors.push(`"order" must be "asc" or "desc".`);
+
+  const page = Number(params.get("page") ?? 1);
+  const pageSize = Number(params.get("pageSize") ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(page) || page < 1) errors.push(`"page" must be a positive integer.`);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) errors.push(`"pageSize" must be an integer between 1 and ${MAX_PAGE_SIZE}.`);
+
+  if (errors.length) return { ok: false, errors };
+
+  const categories = params.getAll("category").flatMap((c) => c.split(",")).map((c) => c.trim().toLowerCase()).filter(Boolean);
+  return {
+    ok: true,
+    value: {
+      from,
+      to,
+      categories: categories.length ? categories : undefined,
+      tag,
+      type: type as ExpenseQuery["type"],
+      q: params.get("q")?.trim().toLowerCase() || undefined,
+      sort,
+      order: order as "asc" | "desc",
+      page,
+      pageSize,
+    },
+  };
+}
+
+export function queryExpenses(expenses: Expense[], query: ExpenseQuery, parents: Record<string, string> = {}): Page<Expense> {
+  const fromTime = query.from ? parseExpenseDate(query.from).getTime() : -Infinity;
+  const toTime = query.to ? parseExpenseDate(query.to).getTime() : Infinity;
+
+  const filtered = expenses.filter((e) => {
+    const time = parseExpenseDate(e.date).getTime();
+    if (time < fromTime || time > toTime) return false;
+    if (query.type && e.type !== query.type) return false;
+    if (query.categories && !query.categories.some((c) => c === e.category.toLowerCase() || c === parents[e.category]?.toLowerCase())) return false;
+    if (query.tag && !e.tags?.includes(query.tag)) return false;
+    if (query.q && !(e.note?.toLowerCase().includes(query.q) || e.category.toLowerCase().includes(query.q) || e.tags?.some((t) => `#${t}`.includes(query.q!)))) return false;
+    return true;
+  });
+
+  const direction = query.order === "asc" ? 1 : -1;
+  const sorted = [...filtered].sort((a, b) => {
+    switch (query.sort) {
+      case "amount":
+        return (a.amount - b.amount) * direction;
+      case "category":
+        return a.category.localeCompare(b.category) * direction;
+      case "date":
+      default:
+        return (parseExpenseDate(a.date).getTime() - parseExpenseDate(b.date).getTime()) * direction;
+    }
+  });
+
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    items: sorted.slice(start, start + query.pageSize),
+    total: sorted.length,
+    page: query.page,
+    pageSize: query.pageSize,
+    totalPages: Math.max(1, Math.ceil(sorted.length / query.pageSize)),
+  };
+}
@@ -1,105 +1,781 @@
 // expenseStore.ts
 
-// --- Unified Category Type (Single Source of Truth) ---
-export type CategoryKey =
-  | "Food"
-  | "Transport"
-  | "Shopping"
-  | "Bills"
-  | "Coffee"
-  | "Entertainment"
-  | "Health"
-  | "Education"
-  | "Other";
+import { format } from "date-fns";
+import { createStorage, StorageBackend, StoreData } from "@/app/storage";
+import { currentUserId } from "@/app/accounts";
+import { dueOccurrences, RecurringCadence } from "@/app/recurring";
+import { budgetAt, budgetPeriodAt, BudgetStatus, computeBudgetStatus, withVersion } from "@/app/budgets";
+import { DateRange, parseExpenseDate, resolvePeriod } from "@/app/summaryEngine";
+import { forecastSpending, SpendingForecast } from "@/app/forecast";
+import { GoalPlan, goalProgress, GoalProgress, planGoal } from "@/app/goals";
+import { evaluateAlerts, withAlerts } from "@/app/alerts";
+import { rebase } from "@/app/currency";
+import { MAX_CONVERSATIONS, MAX_TURNS } from "@/app/conversations";
+import { SummaryRow } from "@/app/summaryEngine";
+import { BillSplit } from "@/app/splits";
 
+// --- Categories (Single Source of Truth) ---
+// Categories are data in the store, not a fixed union: a key is the category's name,
+// and the list itself comes from getCategories() / categoryKeys().
+export type CategoryKey = string;
+export type IncomeCategoryKey = string;
+
+export type TransactionType = "expense" | "income";
+
+export type Category = {
+  key: string; // Display name, unique case-insensitively; expenses refer to it by this
+  type: TransactionType;
+  icon: string; // One of CATEGORY_ICONS
+  color: string; // #rrggbb
+  archived?: boolean; // Hidden from pickers and prompts, kept for history
+  parent?: string; // Key of a top-level category of the same type; one level deep
+};
+
+// Every transaction is stored as an Expense row; `type` says which way the money went.
 export type Expense = {
   id: string;
+  type: TransactionType;
   amount: number;
-  category: CategoryKey;
+  category: CategoryKey | IncomeCategoryKey;
   note?: string;
   date: string; // dd-MM-yyyy
+  tags?: string[]; // Lowercase, without "#"
+  recurringRuleId?: string; // Set when the row was materialized from a recurring rule
+  currency?: string; // ISO code when entered in another currency; `amount` is then the converted figure
+  originalAmount?: number; // What was entered, in `currency`
+  split?: BillSplit; // Set when `amount` is the user's share of a shared bill
+};
+
+// --- Recurring Rules ---
+// A rule is stored once and materialized into real Expense rows as each occurrence comes due.
+export type RecurringRule = {
+  id: string;
+  amount: number;
+  category: CategoryKey;
+  note?: string;
+  cadence: RecurringCadence;
+  dayOfMonth?: number; // Only for the "custom" cadence
+  startDate: string; // dd-MM-yyyy
+  endDate?: string; // dd-MM-yyyy, inclusive
+  lastMaterialized?: string; // dd-MM-yyyy of the latest occurrence already turned into an Expense
 };
 
 export type BudgetMap = Partial<Record<CategoryKey, number>> & { total?: number };
 
-// --- In-memory "database" ---
-let expenses: Expense[] = [];
-let budget: BudgetMap = { total: 50000, Food: 15000, Entertainment: 5000 };
-let lastTransaction: Expense | null = null;
+// --- Budgets ---
+// Each amount is for one period of the cadence. A version applies from the period starting
+// on `from` until the next version, so editing October's budget leaves September's alone.
+// The first version has no `from` and covers everything before the others.
+export type BudgetCadence = "weekly" | "monthly" | "yearly";
 
-// --- Functions ---
-// ADDED: Function to hydrate the server's state from the client
-export function setExpensesForRequest(clientExpenses: Expense[]) {
-  expenses = clientExpenses;
-  // Ensure lastTransaction is also in sync with the client's state
-  if (clientExpenses && clientExpenses.length > 0) {
-    // Assumes the list is sorted with the newest item first
-    lastTransaction = clientExpenses[0];
-  } else {
-    lastTransaction = null;
+export type BudgetVersion = { from?: string; budget: BudgetMap };
+
+export type BudgetSettings = {
+  cadence: BudgetCadence;
+  // Budget keys ("total" or a category) whose leftover or overspend carries into the next
+  // period, each with the dd-MM-yyyy start of the first period that carries.
+  rollover: Record<string, string>;
+};
+
+// --- Alerts ---
+// Raised when spending crosses a threshold of a budget, or when the pace so far would
+// overshoot it by the end of the period. `id` identifies the crossing, so the same one
+// is never raised twice.
+export type BudgetAlert = {
+  id: string;
+  kind: "threshold" | "forecast";
+  key: string; // "total" or a category
+  period: string; // dd-MM-yyyy start of the budget period
+  threshold?: number;
+  percent: number; // Share of the budget spent when the alert was raised
+  message: string;
+  expenseId?: string; // The transaction that triggered it
+  createdAt: string;
+  read?: boolean;
+};
+
+export type AlertSettings = {
+  defaults: number[]; // Percentages, e.g. [50, 80, 100]
+  thresholds: Record<string, number[]>; // Per budget key, replacing the defaults; [] turns alerts off
+  forecast: boolean;
+  browser: boolean; // Also show browser notifications
+};
+
+// --- Savings Goals ---
+// Progress isn't stored: it is worked out from each month's surplus (see goals.ts).
+export type SavingsGoal = {
+  id: string;
+  name: string;
+  target: number;
+  deadline?: string; // dd-MM-yyyy
+  monthlyContribution?: number; // The most set aside for it each month
+  startDate: string; // dd-MM-yyyy; surplus counts from this month on
+};
+
+// --- Currencies ---
+// Every amount in the store is in the base currency. Rates are entered by hand or
+// imported from a file; 1 `from` = `rate` `to` as of `date`.
+export type ExchangeRate = {
+  id: string;
+  from: string;
+  to: string;
+  rate: number;
+  date: string; // dd-MM-yyyy
+};
+
+export type CurrencySettings = {
+  base: string; // ISO code, e.g. "INR"
+  rates: ExchangeRate[];
+};
+
+// --- Conversations ---
+// Chat history is kept per user so follow-ups can refer back ("the second one you listed",
+// "undo the last two") and the chat panel can pick up where it left off.
+export type TransactionChange = {
+  id: string;
+  before: Expense | null; // null when the turn created the transaction
+};
+
+// A budget, recurring bill or goal a turn set or added, so "undo" can take it back too.
+export type PlanChange =
+  | { kind: "budget"; date: string; key: string; before?: number } // `date` (dd-MM-yyyy) picks the budget period
+  | { kind: "recurring"; ruleId: string }
+  | { kind: "goal"; goalId: string };
+
+export type ChatTurn = {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+  intent?: string; // What the assistant did
+  changes?: TransactionChange[]; // Transactions the turn created, edited or deleted
+  planChanges?: PlanChange[]; // Budgets, bills and goals the turn set or added
+  listed?: string[]; // Transaction ids the reply numbered, in order
+  summaryData?: SummaryRow[]; // Redrawn as a chart when the chat is restored
+  pendingId?: string; // The held change the reply asked about, redrawn as a card while open
+  undone?: boolean;
+};
+
+export type Conversation = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: ChatTurn[];
+};
+
+// --- Pending Actions ---
+// Changes the chat has worked out but holds back until the user confirms them on a card.
+// The id is a random token the client sends back; it expires after PENDING_HOURS.
+export type PendingAction = {
+  id: string;
+  conversationId: string;
+  createdAt: string;
+} & (
+  | { kind: "log_expenses"; expenses: Expense[] }
+  // `changes` are as the user would type them (an amount in the transaction's currency);
+  // they are priced when shown and when applied.
+  | { kind: "update_expense"; expenseId: string; changes: Partial<Omit<Expense, "id">> }
+  | { kind: "set_budget"; date: string; key: string; amount: number } // `date` (dd-MM-yyyy) picks the budget period
+  | { kind: "log_income"; income: Expense }
+  | { kind: "add_recurring"; rule: RecurringRule }
+  | { kind: "delete_expense"; expenseId: string }
+  | { kind: "add_goal"; goal: SavingsGoal }
+);
+
+const PENDING_HOURS = 24;
+
+// Which chat changes may skip the card. With `autoCommit` off every one waits; with it on,
+// a change is applied straight away unless the model was less sure than `minConfidence`
+// or more than `maxAmount` is at stake.
+export type ConfirmSettings = {
+  autoCommit: boolean;
+  minConfidence: number; // 0–1
+  maxAmount?: number; // In the base currency; no limit when missing
+};
+
+// --- Category Icons ---
+// Icon names the dashboard knows how to draw.
+export const CATEGORY_ICONS = [
+  "shopping-bag", "bus", "receipt", "coffee", "gift", "heart-pulse", "book-open", "sparkles",
+  "briefcase", "laptop", "rotate-ccw", "arrow-down-left", "landmark", "trending-up",
+  "home", "car", "plane", "utensils", "shirt", "baby", "dog", "gamepad", "music", "phone",
+  "zap", "wifi", "film", "dumbbell", "pill", "graduation-cap", "piggy-bank", "wallet",
+];
+
+// --- Persistent storage ---
+// All reads and writes go through the configured backend (see app/storage), so the
+// server is the source of truth and survives reloads and multiple instances. Every user
+// has a document of their own, picked by the user the request is for.
+const backends = new Map<string, StorageBackend>();
+
+function storage(): StorageBackend {
+  const userId = currentUserId();
+  let backend = backends.get(userId);
+  if (!backend) {
+    backend = createStorage(userId);
+    backends.set(userId, backend);
   }
+  return backend;
+}
+
+function read(): StoreData {
+  return storage().load();
+}
+
+function write<T>(mutator: (data: StoreData) => T): T {
+  const backend = storage();
+  const data = backend.load();
+  const result = mutator(data);
+  backend.save(data);
+  return result;
+}
+
+function parentsOf(categories: Category[]): Record<string, string> {
+  const parents: Record<string, string> = {};
+  categories.forEach((c) => { if (c.parent) parents[c.key] = c.parent; });
+  return parents;
+}
+
+// Checks the budgets an expense counts against and stores any new alerts.
+function raiseAlerts(data: StoreData, expense: Expense): BudgetAlert[] {
+  const raised = evaluateAlerts(data, parentsOf(data.categories), expense);
+  data.alerts = withAlerts(data.alerts, raised);
+  return raised;
+}
+
+// --- Functions ---
+// Returns the budget alerts the new expense raised.
+export function addExpense(expense: Expense): BudgetAlert[] {
+  return write((data) => {
+    data.expenses.unshift(expense); // Add to the top of the list
+    data.lastTransactionId = expense.id; // IMPORTANT: Update the last transaction reference.
+    return raiseAlerts(data, expense);
+  });
+}
+
+// Adds a batch in one write, so an import either lands completely or not at all.
+// The last-transaction slot is left alone: "change it to 250" still means the last chat entry.
+export function addExpenses(batch: Expense[]) {
+  write((data) => {
+    data.expenses.unshift(...batch);
+  });
+}
+
+// Logs several chat entries in one write, raising alerts as each one lands. The last of
+// them becomes the last transaction, as if they had been logged one by one.
+export function logExpenses(batch: Expense[]): BudgetAlert[] {
+  return write((data) => {
+    const alerts: BudgetAlert[] = [];
+    batch.forEach((expense) => {
+      data.expenses.unshift(expense);
+      data.lastTransactionId = expense.id;
+      alerts.push(...raiseAlerts(data, expense));
+    });
+    return alerts;
+  });
 }
 
-export function addExpense(expense: Expense) {
-  expenses.unshift(expense); // Add to the top of the list
-  lastTransaction = expense; // IMPORTANT: Update the last transaction reference.
+export function getExpenses(): Expense[] {
+  return read().expenses;
 }
 
-export function getExpenses() {
-  return expenses;
+export function getExpenseById(id: string): Expense | null {
+  return read().expenses.find((e) => e.id === id) ?? null;
 }
 
 // NEW: A much safer way to update an expense using its unique ID.
-export function updateExpenseById(id: string, updates: Partial<Omit<Expense, 'id'>>): boolean {
-    const expenseIndex = expenses.findIndex(e => e.id === id);
-    if (expenseIndex !== -1) {
-        expenses[expenseIndex] = { ...expenses[expenseIndex], ...updates };
-        // Also update the lastTransaction if it's the one being changed
-        if (lastTransaction && lastTransaction.id === id) {
-            lastTransaction = expenses[expenseIndex];
-        }
-        return true;
-    }
-    return false;
+// Returns the budget alerts the change raised, or null if there is no such expense.
+export function updateExpenseById(id: string, updates: Partial<Omit<Expense, 'id'>>): BudgetAlert[] | null {
+    return write((data) => {
+        const expenseIndex = data.expenses.findIndex(e => e.id === id);
+        if (expenseIndex === -1) return null;
+        data.expenses[expenseIndex] = { ...data.expenses[expenseIndex], ...updates, id };
+        return raiseAlerts(data, data.expenses[expenseIndex]);
+    });
 }
 
 // DEPRECATED but kept for reference. We will use updateExpenseById instead.
 export function updateExpenseByNoteAndDate(note: string, date: string, newAmount: number): boolean {
-    const expenseIndex = expenses.findIndex(e => 
-        (e.note?.toLowerCase() === note.toLowerCase() || e.category.toLowerCase() === note.toLowerCase()) && 
-        e.date === date
-    );
-
-    if (expenseIndex !== -1) {
-        expenses[expenseIndex].amount = newAmount;
+    return write((data) => {
+        const expenseIndex = data.expenses.findIndex(e => 
+            (e.note?.toLowerCase() === note.toLowerCase() || e.category.toLowerCase() === note.toLowerCase()) && 
+            e.date === date
+        );
+        if (expenseIndex === -1) return false;
+        data.expenses[expenseIndex].amount = newAmount;
         return true;
+    });
+}
+
+
+// The budget for the period containing `at`.
+export function getBudget(at = new Date()): BudgetMap {
+  return budgetAt(read().budgets, at);
+}
+
+// Sets the budget for the period containing `at`, from that period on.
+export function setBudget(newBudget: BudgetMap, at = new Date()) {
+  write((data) => {
+    const from = budgetPeriodAt(at, data.budgetSettings.cadence).key;
+    data.budgets = withVersion(data.budgets, from, () => newBudget);
+  });
+}
+
+export function getBudgetVersions(): BudgetVersion[] {
+  return read().budgets;
+}
+
+export function getBudgetSettings(): BudgetSettings {
+  return read().budgetSettings;
+}
+
+// Keys newly added to `rollover` start carrying from the current period; keys already
+// rolling over keep their start.
+export function updateBudgetSettings(changes: { cadence?: BudgetCadence; rollover?: string[] }, now = new Date()): BudgetSettings {
+  return write((data) => {
+    const settings = data.budgetSettings;
+    if (changes.cadence) settings.cadence = changes.cadence;
+    if (changes.rollover) {
+      const since = budgetPeriodAt(now, settings.cadence).key;
+      settings.rollover = Object.fromEntries(changes.rollover.map((key) => [key, settings.rollover[key] ?? since]));
     }
-    return false;
+    return settings;
+  });
 }
 
+export function getBudgetStatus(range: DateRange): BudgetStatus {
+  return computeBudgetStatus(range, read(), categoryParents());
+}
+
+// Where this month's spending is heading, against what the month may spend.
+export function getSpendingForecast(now = new Date()): SpendingForecast {
+  return forecastSpending(read(), getBudgetStatus(resolvePeriod("this_month", now)).available, categoryParents(), now);
+}
+
+// --- Alerts ---
+export function getAlerts(): BudgetAlert[] {
+  return read().alerts;
+}
+
+// Marks the given alerts as read, or all of them when no ids are passed.
+export function markAlertsRead(ids?: string[]): number {
+  return write((data) => {
+    let marked = 0;
+    data.alerts.forEach((a) => {
+      if (!a.read && (!ids || ids.includes(a.id))) { a.read = true; marked++; }
+    });
+    return marked;
+  });
+}
+
+// Clearing also forgets which crossings have alerted, so a threshold that is still
+// crossed alerts again on the next expense.
+export function clearAlerts() {
+  write((data) => {
+    data.alerts = [];
+  });
+}
+
+export function getAlertSettings(): AlertSettings {
+  return read().alertSettings;
+}
 
-export function getBudget() {
-  return budget;
+export function updateAlertSettings(changes: Partial<AlertSettings>): AlertSettings {
+  return write((data) => {
+    Object.assign(data.alertSettings, changes);
+    return data.alertSettings;
+  });
 }
 
-export function setBudget(newBudget: BudgetMap) {
-  budget = newBudget;
+export function getConfirmSettings(): ConfirmSettings {
+  return read().confirmSettings;
 }
 
-export function deleteExpense(id: string) {
-  expenses = expenses.filter((e) => e.id !== id);
+// `maxAmount: undefined` removes the limit.
+export function updateConfirmSettings(changes: Partial<ConfirmSettings>): ConfirmSettings {
+  return write((data) => {
+    data.confirmSettings = { ...data.confirmSettings, ...changes };
+    if (data.confirmSettings.maxAmount === undefined) delete data.confirmSettings.maxAmount;
+    return data.confirmSettings;
+  });
+}
+
+export function deleteExpense(id: string): boolean {
+  return write((data) => {
+    const before = data.expenses.length;
+    data.expenses = data.expenses.filter((e) => e.id !== id);
+    if (data.lastTransactionId === id) data.lastTransactionId = null;
+    return data.expenses.length !== before;
+  });
+}
+
+export function deleteExpenses(ids: string[]): number {
+  return write((data) => {
+    const before = data.expenses.length;
+    data.expenses = data.expenses.filter((e) => !ids.includes(e.id));
+    if (data.lastTransactionId && ids.includes(data.lastTransactionId)) data.lastTransactionId = null;
+    return before - data.expenses.length;
+  });
 }
 
 export function clearExpenses() {
-  expenses = [];
-  lastTransaction = null;
+  write((data) => {
+    data.expenses = [];
+    data.lastTransactionId = null;
+  });
 }
 
-// ADDED: The two missing functions your new API route needs.
-export function getLastTransaction() {
-    return lastTransaction;
+export function getLastTransaction(): Expense | null {
+    const data = read();
+    return data.expenses.find(e => e.id === data.lastTransactionId) ?? null;
 }
 
 export function updateLastTransaction(expense: Expense | null) {
-    lastTransaction = expense;
-}
\ No newline at end of file
+    write((data) => {
+        data.lastTransactionId = expense ? expense.id : null;
+    });
+}
+
+// One-time import of data that older builds kept only in the browser's localStorage.
+// Only applies to an empty store so it can never clobber server-side data.
+export function importLegacyData(legacy: { expenses?: Expense[]; budget?: BudgetMap }): boolean {
+  return write((data) => {
+    if (data.expenses.length > 0) return false;
+    if (Array.isArray(legacy.expenses)) {
+      data.expenses = legacy.expenses.map((e) => ({ ...e, type: e.type === "income" ? "income" : "expense" }));
+      data.lastTransactionId = legacy.expenses[0]?.id ?? null;
+    }
+    if (legacy.budget) data.budgets = [{ budget: legacy.budget }];
+    return true;
+  });
+}
+
+// --- Backup & Restore ---
+export function exportData(): StoreData {
+  return read();
+}
+
+// Replaces everything with a backup that has already been migrated to the current schema.
+export function restoreData(backup: StoreData) {
+  write((data) => {
+    Object.assign(data, backup);
+  });
+}
+
+// --- Categories ---
+export function getCategories(): Category[] {
+  return read().categories;
+}
+
+// Names of the categories for one direction, optionally including archived ones.
+export function categoryKeys(type: TransactionType, includeArchived = false): string[] {
+  return read().categories.filter((c) => c.type === type && (includeArchived || !c.archived)).map((c) => c.key);
+}
+
+// Sub-category → parent, for rolling totals and budgets up the hierarchy.
+export function categoryParents(): Record<string, string> {
+  return parentsOf(read().categories);
+}
+
+export function getCategory(key: string): Category | null {
+  const wanted = key.trim().toLowerCase();
+  return read().categories.find((c) => c.key.toLowerCase() === wanted) ?? null;
+}
+
+export function addCategory(category: Category) {
+  write((data) => {
+    data.categories.push(category);
+  });
+}
+
+// Renames cascade to every expense, recurring rule and budget entry that used the old
+// name. Archiving drops the category's budget from the current period on, since it no
+// longer takes new spending; earlier periods keep what they had.
+export function updateCategory(key: string, changes: Partial<Category>): Category | null {
+  return write((data) => {
+    const category = data.categories.find((c) => c.key === key);
+    if (!category) return null;
+    Object.assign(category, changes, { type: category.type });
+
+    const renamed = category.key !== key;
+    if (renamed) {
+      data.categories.forEach((c) => { if (c.parent === key) c.parent = category.key; });
+      data.expenses.forEach((e) => { if (e.category === key) e.category = category.key; });
+      data.recurringRules.forEach((r) => { if (r.category === key) r.category = category.key; });
+      data.budgets.forEach(({ budget }) => {
+        if (budget[key] === undefined) return;
+        budget[category.key] = budget[key];
+        delete budget[key];
+      });
+      const rollover = data.budgetSettings.rollover;
+      if (rollover[key]) {
+        rollover[category.key] = rollover[key];
+        delete rollover[key];
+      }
+      const thresholds = data.alertSettings.thresholds;
+      if (thresholds[key]) {
+        thresholds[category.key] = thresholds[key];
+        delete thresholds[key];
+      }
+    }
+    if (category.archived) {
+      const from = budgetPeriodAt(new Date(), data.budgetSettings.cadence);
+      data.budgets = withVersion(data.budgets, from.key, (budget) => budget);
+      data.budgets.forEach((v) => {
+        if (v.from && parseExpenseDate(v.from) >= from.start) delete v.budget[category.key];
+      });
+      delete data.budgetSettings.rollover[category.key];
+    }
+    return category;
+  });
+}
+
+// Moves everything from one category into another and removes the source.
+// Budgets are added together so the combined category keeps both allowances, and the
+// source's sub-categories move under the target's family.
+export function mergeCategories(fromKey: string, intoKey: string): number {
+  return write((data) => {
+    const into = data.categories.find((c) => c.key === intoKey);
+    if (into?.parent === fromKey) into.parent = undefined;
+    const newParent = into?.parent ?? intoKey;
+    data.categories.forEach((c) => { if (c.parent === fromKey) c.parent = newParent; });
+
+    let moved = 0;
+    data.expenses.forEach((e) => { if (e.category === fromKey) { e.category = intoKey; moved++; } });
+    data.recurringRules.forEach((r) => { if (r.category === fromKey) r.category = intoKey; });
+    data.budgets.forEach(({ budget }) => {
+      if (budget[fromKey] === undefined) return;
+      budget[intoKey] = (budget[intoKey] || 0) + (budget[fromKey] || 0);
+      delete budget[fromKey];
+    });
+    delete data.budgetSettings.rollover[fromKey];
+    delete data.alertSettings.thresholds[fromKey];
+    data.categories = data.categories.filter((c) => c.key !== fromKey);
+    return moved;
+  });
+}
+
+// --- Savings Goals ---
+export function getGoals(): SavingsGoal[] {
+  return read().goals;
+}
+
+export function getGoal(id: string): SavingsGoal | null {
+  return read().goals.find((g) => g.id === id) ?? null;
+}
+
+export function addGoal(goal: SavingsGoal) {
+  write((data) => {
+    data.goals.push(goal);
+  });
+}
+
+export function updateGoal(id: string, changes: Partial<SavingsGoal>): SavingsGoal | null {
+  return write((data) => {
+    const goal = data.goals.find((g) => g.id === id);
+    if (!goal) return null;
+    Object.assign(goal, changes, { id });
+    return goal;
+  });
+}
+
+export function deleteGoal(id: string): boolean {
+  return write((data) => {
+    const before = data.goals.length;
+    data.goals = data.goals.filter((g) => g.id !== id);
+    return data.goals.length !== before;
+  });
+}
+
+export function getGoalProgress(now = new Date()): GoalProgress[] {
+  return goalProgress(read(), now);
+}
+
+export function getGoalPlan(id: string, options: { deadline?: string; category?: string }, now = new Date()): GoalPlan | { error: string } | null {
+  const data = read();
+  const progress = goalProgress(data, now).find((g) => g.id === id);
+  if (!progress) return null;
+  return planGoal(progress, data, { ...options, parents: parentsOf(data.categories) }, now);
+}
+
+// --- Currencies ---
+export function getCurrencySettings(): CurrencySettings {
+  return read().currency;
+}
+
+// A rate for the same pair and date replaces the one already there.
+export function addExchangeRates(rates: Omit<ExchangeRate, "id">[]): ExchangeRate[] {
+  const stamp = Date.now();
+  const added = rates.map((r, i) => ({ id: `${stamp}-${i}`, ...r }));
+  write((data) => {
+    const key = (r: Omit<ExchangeRate, "id">) => `${r.from}|${r.to}|${r.date}`;
+    const replaced = new Set(added.map(key));
+    data.currency.rates = [...data.currency.rates.filter((r) => !replaced.has(key(r))), ...added];
+  });
+  return added;
+}
+
+export function deleteExchangeRate(id: string): boolean {
+  return write((data) => {
+    const before = data.currency.rates.length;
+    data.currency.rates = data.currency.rates.filter((r) => r.id !== id);
+    return data.currency.rates.length < before;
+  });
+}
+
+// Converts every stored amount into the new base currency (see rebase in currency.ts).
+// Nothing changes if any amount lacks an exchange rate.
+export function setBaseCurrency(base: string, now = new Date()): { settings: CurrencySettings } | { error: string } {
+  return write((data) => {
+    if (data.currency.base === base) return { settings: data.currency };
+    const rebased = rebase(data, data.currency, base, now);
+    if ("error" in rebased) return rebased;
+    Object.assign(data, rebased);
+    data.currency.base = base;
+    return { settings: data.currency };
+  });
+}
+
+// --- Conversations ---
+// Most recently used first.
+export function getConversations(): Conversation[] {
+  return read().conversations.slice().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getConversation(id: string): Conversation | null {
+  return read().conversations.find((c) => c.id === id) ?? null;
+}
+
+// Only the most recently used MAX_CONVERSATIONS are kept.
+export function addConversation(conversation: Conversation): Conversation {
+  write((data) => {
+    const kept = data.conversations.slice().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)).slice(0, MAX_CONVERSATIONS - 1);
+    data.conversations = [...kept, conversation];
+  });
+  return conversation;
+}
+
+export function appendTurns(id: string, turns: ChatTurn[], now = new Date()): boolean {
+  return write((data) => {
+    const conversation = data.conversations.find((c) => c.id === id);
+    if (!conversation) return false;
+    conversation.turns = [...conversation.turns, ...turns].slice(-MAX_TURNS);
+    conversation.updatedAt = now.toISOString();
+    return true;
+  });
+}
+
+export function markTurnsUndone(id: string, turnIds: string[]) {
+  write((data) => {
+    data.conversations.find((c) => c.id === id)?.turns.forEach((t) => {
+      if (turnIds.includes(t.id)) t.undone = true;
+    });
+  });
+}
+
+export function deleteConversation(id: string): boolean {
+  return write((data) => {
+    const before = data.conversations.length;
+    data.conversations = data.conversations.filter((c) => c.id !== id);
+    return data.conversations.length < before;
+  });
+}
+
+// Puts transactions back the way they were before a chat turn: ones it created are removed,
+// ones it edited or deleted come back as they were. Latest change first, in one write.
+export function revertChanges(changes: TransactionChange[]): number {
+  return write((data) => {
+    let reverted = 0;
+    changes.slice().reverse().forEach(({ id, before }) => {
+      const index = data.expenses.findIndex((e) => e.id === id);
+      if (before === null) {
+        if (index === -1) return;
+        data.expenses.splice(index, 1);
+      } else if (index === -1) {
+        data.expenses.unshift(before);
+      } else {
+        data.expenses[index] = before;
+      }
+      reverted++;
+    });
+    if (data.lastTransactionId && !data.expenses.some((e) => e.id === data.lastTransactionId)) data.lastTransactionId = null;
+    return reverted;
+  });
+}
+
+// --- Pending Actions ---
+function isLive(action: PendingAction, now: Date): boolean {
+  return now.getTime() - new Date(action.createdAt).getTime() < PENDING_HOURS * 60 * 60 * 1000;
+}
+
+// Expired actions are dropped on the way.
+export function addPendingAction(action: PendingAction, now = new Date()) {
+  write((data) => {
+    data.pending = [...data.pending.filter((a) => isLive(a, now)), action];
+  });
+}
+
+export function getPendingAction(id: string, now = new Date()): PendingAction | null {
+  const action = read().pending.find((a) => a.id === id);
+  return action && isLive(action, now) ? action : null;
+}
+
+// Saves an edit to a held action; it keeps its id and expiry.
+export function replacePendingAction(action: PendingAction): boolean {
+  return write((data) => {
+    const index = data.pending.findIndex((a) => a.id === action.id);
+    if (index === -1) return false;
+    data.pending[index] = action;
+    return true;
+  });
+}
+
+// Removes the action and returns it, so a token can only ever be used once.
+export function takePendingAction(id: string, now = new Date()): PendingAction | null {
+  return write((data) => {
+    const action = data.pending.find((a) => a.id === id);
+    data.pending = data.pending.filter((a) => a.id !== id);
+    return action && isLive(action, now) ? action : null;
+  });
+}
+
+// --- Recurring Rules ---
+export function getRecurringRules(): RecurringRule[] {
+  return read().recurringRules;
+}
+
+export function addRecurringRule(rule: RecurringRule) {
+  write((data) => {
+    data.recurringRules.push(rule);
+  });
+}
+
+// Stops a rule. Expenses it already created are real history and are kept.
+export function deleteRecurringRule(id: string): boolean {
+  return write((data) => {
+    const before = data.recurringRules.length;
+    data.recurringRules = data.recurringRules.filter((r) => r.id !== id);
+    return data.recurringRules.length !== before;
+  });
+}
+
+// Turns every due occurrence into an Expense row. Ids are derived from the rule and
+// the date, so running this repeatedly (or from several instances) never duplicates.
+export function materializeRecurring(now = new Date()): number {
+  return write((data) => {
+    let created = 0;
+    for (const rule of data.recurringRules) {
+      for (const due of dueOccurrences(rule, now)) {
+        const date = format(due, "dd-MM-yyyy");
+        const id = `rec-${rule.id}-${format(due, "yyyyMMdd")}`;
+        if (!data.expenses.some((e) => e.id === id)) {
+          data.expenses.unshift({ id, type: "expense", amount: rule.amount, category: rule.category, note: rule.note, date, recurringRuleId: rule.id });
+          created++;
+        }
+        rule.lastMaterialized = date;
+      }
+    }
+    return created;
+  });
+}
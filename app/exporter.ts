@@ -0,0 +1,136 @@
+// exporter.ts
+
+import { format } from "date-fns";
+import { BudgetMap, Category, Expense } from "@/app/expenseStore";
+import { CURRENT_SCHEMA_VERSION, StoreData } from "@/app/storage";
+import { migrate } from "@/app/storage/migrations";
+import { cashFlow, DateRange, spendingOnly, totalsByCategory } from "@/app/summaryEngine";
+import { formatMoney } from "@/app/currency";
+
+export type ExportFormat = "csv" | "json" | "report";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "report"];
+
+// A backup is the whole store document plus enough metadata to recognize it later.
+export type Backup = {
+  app: "budget-tracker";
+  exportedAt: string; // ISO timestamp
+  schemaVersion: number;
+  data: StoreData;
+};
+
+// --- CSV ---
+const CSV_COLUMNS: (keyof Expense)[] = ["date", "type", "category", "amount", "currency", "originalAmount", "note", "tags", "id"];
+
+function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? "" : Array.isArray(value) ? value.join(" ") : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per transaction with amounts always positive; the Type column gives the direction.
+// Amount is in the base currency; Currency and OriginalAmount are only set for foreign entries.
+export function toCsv(expenses: Expense[]): string {
+  const header = CSV_COLUMNS.map((c) => c[0].toUpperCase() + c.slice(1)).join(",");
+  const lines = expenses.map((e) => CSV_COLUMNS.map((c) => csvField(e[c])).join(","));
+  return [header, ...lines].join("\r\n") + "\r\n";
+}
+
+// --- JSON Backup ---
+export function buildBackup(data: StoreData, now = new Date()): Backup {
+  return { app: "budget-tracker", exportedAt: now.toISOString(), schemaVersion: CURRENT_SCHEMA_VERSION, data };
+}
+
+// Accepts a backup file (or a bare store document) from this or an older build and
+// upgrades it through the normal migrations. Backups from a newer build are refused.
+export function readBackup(raw: any): { data: StoreData } | { error: string } {
+  const doc = raw?.app === "budget-tracker" ? raw.data : raw;
+  if (!doc || typeof doc !== "object" || !Array.isArray(doc.expenses)) {
+    return { error: "This doesn't look like a budget tracker backup." };
+  }
+  try {
+    return { data: migrate(doc) };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : "Backup could not be read." };
+  }
+}
+
+// --- Printable Report ---
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// A self-contained HTML page; the browser's "Save as PDF" print option turns it into a PDF.
+// `budget` is what the whole range could spend (see getBudgetStatus), rollover included.
+export function renderReport(transactions: Expense[], budget: BudgetMap, categories: Category[], range: DateRange, currency: string, now = new Date()): string {
+  const money = (n: number) => formatMoney(n, currency);
+  const spending = spendingOnly(transactions);
+  const flow = cashFlow(transactions);
+  const totalBudget = budget.total || 0;
+
+  // A parent's row includes its sub-categories, which also get rows of their own.
+  const spentBy = new Map(totalsByCategory(spending).map((r) => [r.category, r.total]));
+  const spentOn = (c: Category) =>
+    (spentBy.get(c.key) || 0) + categories.filter((child) => child.parent === c.key).reduce((a, child) => a + (spentBy.get(child.key) || 0), 0);
+  const expenseCategories = categories.filter((c) => c.type === "expense");
+  const categoryRows = expenseCategories
+    .filter((c) => !c.parent)
+    .flatMap((c) => [c, ...expenseCategories.filter((child) => child.parent === c.key)])
+    .filter((c) => spentOn(c) || budget[c.key])
+    .map((c) => {
+      const k = c.key;
+      const spent = spentOn(c);
+      const limit = budget[k] || 0;
+      const over = limit > 0 && spent > limit;
+      return `<tr><td>${c.parent ? `${escapeHtml(c.parent)} › ` : ""}${escapeHtml(k)}</td><td class="num">${money(spent)}</td><td class="num">${limit ? money(limit) : "—"}</td><td class="num${over ? " over" : ""}">${limit ? money(limit - spent) : "—"}</td></tr>`;
+    })
+    .join("");
+
+  const topRows = [...spending]
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, 10)
+    .map((e) => `<tr><td>${e.date}</td><td>${escapeHtml(e.note || "—")}</td><td>${escapeHtml(e.category)}</td><td class="num">${money(e.amount)}${e.currency ? ` <small>(${formatMoney(e.originalAmount ?? 0, e.currency, true)})</small>` : ""}</td></tr>`)
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Budget report — ${escapeHtml(range.label)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { margin-bottom: 0; }
+  .muted { color: #666; font-size: 0.9rem; }
+  .stats { display: grid; grid-template-columns: repeat(4, 1fr); gap: 1rem; margin: 1.5rem 0; }
+  .stats div { border: 1px solid #ddd; border-radius: 8px; padding: 0.75rem; }
+  .stats strong { display: block; font-size: 1.25rem; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 1.5rem; }
+  th, td { text-align: left; padding: 0.4rem 0.5rem; border-bottom: 1px solid #eee; }
+  .num { text-align: right; }
+  .over { color: #c00; }
+  @media print { .no-print { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<button class="no-print" onclick="window.print()">Print / Save as PDF</button>
+<h1>Budget report — ${escapeHtml(range.label)}</h1>
+<p class="muted">${format(range.start, "d MMM yyyy")} to ${format(range.end, "d MMM yyyy")} · generated ${format(now, "d MMM yyyy, HH:mm")}</p>
+<div class="stats">
+  <div>Spent<strong>${money(flow.spent)}</strong></div>
+  <div>Budget<strong>${totalBudget ? money(totalBudget) : "—"}</strong></div>
+  <div>Income<strong>${money(flow.income)}</strong></div>
+  <div>Net savings<strong${flow.net < 0 ? ' class="over"' : ""}>${money(flow.net)}</strong></div>
+</div>
+<h2>By category</h2>
+<table>
+  <thead><tr><th>Category</th><th class="num">Spent</th><th class="num">Budget</th><th class="num">Remaining</th></tr></thead>
+  <tbody>${categoryRows || '<tr><td colspan="4" class="muted">No spending in this period.</td></tr>'}</tbody>
+</table>
+<h2>Top expenses</h2>
+<table>
+  <thead><tr><th>Date</th><th>Note</th><th>Category</th><th class="num">Amount</th></tr></thead>
+  <tbody>${topRows || '<tr><td colspan="4" class="muted">No spending in this period.</td></tr>'}</tbody>
+</table>
+</body>
+</html>
+`;
+}
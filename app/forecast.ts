@@ -0,0 +1,173 @@
+// forecast.ts
+
+import { addDays, differenceInCalendarDays, endOfDay, endOfMonth, format, getDaysInMonth, startOfDay, startOfMonth, subMonths } from "date-fns";
+import { BudgetMap, CurrencySettings, Expense, RecurringRule } from "@/app/expenseStore";
+import { formatMoney } from "@/app/currency";
+import { occurrencesBetween } from "@/app/recurring";
+import { parseExpenseDate, spendingOnly } from "@/app/summaryEngine";
+
+// How many full months before this one inform the usual daily pace.
+const HISTORY_MONTHS = 3;
+// ±1.28 standard deviations covers roughly 80% of outcomes.
+const RANGE_Z = 1.28;
+
+export type ForecastStatus = "under" | "at_risk" | "over";
+
+// Month-end spend for "total" or one top-level category (sub-categories roll up into it).
+export type KeyForecast = {
+  key: string;
+  spent: number; // So far this month
+  billsDue: number; // Recurring bills still to come before month end
+  projected: number;
+  low: number;
+  high: number;
+  budget?: number;
+  status?: ForecastStatus; // Only when there is a budget
+};
+
+export type SpendingForecast = {
+  month: string;
+  monthEnd: string; // dd-MM-yyyy
+  daysElapsed: number;
+  daysInMonth: number;
+  total: KeyForecast;
+  categories: KeyForecast[]; // Largest projection first
+  currency: string; // The base currency every amount is in
+};
+
+type DatedExpense = { expense: Expense; day: number }; // Days since the start of the month, negative for history
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((a, v) => a + v, 0) / values.length : 0;
+}
+
+function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return values.reduce((a, v) => a + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+function statusFor(low: number, high: number, budget: number | undefined): ForecastStatus | undefined {
+  if (!budget) return undefined;
+  if (high <= budget) return "under";
+  return low > budget ? "over" : "at_risk";
+}
+
+// --- Forecast ---
+// Month-end spend = what's already spent + recurring bills still due + a daily pace for
+// everything else over the days left. The pace blends this month's with the last few
+// months', leaning on this month more as it goes on; the range comes from how much
+// day-to-day spending has varied. Bills already paid this month are left out of the pace,
+// since they won't repeat.
+export function forecastSpending(
+  data: { expenses: Expense[]; recurringRules: RecurringRule[]; currency: CurrencySettings },
+  budget: BudgetMap,
+  parents: Record<string, string>,
+  now = new Date()
+): SpendingForecast {
+  const monthStart = startOfMonth(now);
+  const monthEnd = endOfMonth(now);
+  const daysInMonth = getDaysInMonth(now);
+  const daysElapsed = differenceInCalendarDays(now, monthStart) + 1;
+  const daysLeft = daysInMonth - daysElapsed;
+  const topOf = (category: string) => parents[category] ?? category;
+
+  const dated: DatedExpense[] = spendingOnly(data.expenses)
+    .map((expense) => ({ expense, date: parseExpenseDate(expense.date) }))
+    .filter(({ date }) => !isNaN(date.getTime()) && date <= endOfDay(now))
+    .map(({ expense, date }) => ({ expense, day: differenceInCalendarDays(date, monthStart) }));
+
+  // History only counts from the first recorded spending, so a new user isn't averaged with empty months.
+  const firstDay = dated.reduce((min, { day }) => Math.min(min, day), 0);
+  const historyStart = Math.max(differenceInCalendarDays(subMonths(monthStart, HISTORY_MONTHS), monthStart), firstDay);
+  const historyDays = -historyStart;
+
+  const bills: { category: string; amount: number }[] = [];
+  if (daysLeft > 0) {
+    data.recurringRules.forEach((rule) => {
+      occurrencesBetween(rule, addDays(startOfDay(now), 1), monthEnd).forEach(() => bills.push({ category: rule.category, amount: rule.amount }));
+    });
+  }
+
+  const forecastFor = (key: string, matches: (category: string) => boolean): KeyForecast => {
+    const own = dated.filter(({ expense }) => matches(expense.category));
+    const spent = own.filter(({ day }) => day >= 0).reduce((a, { expense }) => a + expense.amount, 0);
+    const billsDue = bills.filter((b) => matches(b.category)).reduce((a, b) => a + b.amount, 0);
+
+    // Daily totals of everything but recurring bills, from the start of the history to today.
+    const daily = new Array(historyDays + daysElapsed).fill(0);
+    own.forEach(({ expense, day }) => {
+      if (!expense.recurringRuleId && day >= historyStart) daily[day - historyStart] += expense.amount;
+    });
+    const current = daily.slice(historyDays);
+    const past = daily.slice(0, historyDays);
+    const weight = past.length ? daysElapsed / daysInMonth : 1;
+    const pace = weight * mean(current) + (1 - weight) * mean(past);
+
+    const projected = spent + billsDue + pace * daysLeft;
+    const spread = RANGE_Z * Math.sqrt(variance(daily) * daysLeft);
+    const low = Math.max(spent + billsDue, projected - spread);
+    const high = projected + spread;
+    const limit = budget[key];
+    return {
+      key,
+      spent,
+      billsDue,
+      projected: Math.round(projected),
+      low: Math.round(low),
+      high: Math.round(high),
+      budget: limit,
+      status: statusFor(low, high, limit),
+    };
+  };
+
+  const keys = new Set<string>();
+  dated.forEach(({ expense, day }) => { if (day >= historyStart) keys.add(topOf(expense.category)); });
+  bills.forEach((b) => keys.add(topOf(b.category)));
+  Object.keys(budget).forEach((k) => { if (k !== "total" && !parents[k]) keys.add(k); });
+
+  const categories = Array.from(keys)
+    .map((key) => forecastFor(key, (category) => topOf(category) === key))
+    .filter((f) => f.projected > 0 || f.budget)
+    .sort((a, b) => b.projected - a.projected);
+
+  return {
+    month: format(now, "MMMM yyyy"),
+    monthEnd: format(monthEnd, "dd-MM-yyyy"),
+    daysElapsed,
+    daysInMonth,
+    total: forecastFor("total", () => true),
+    categories,
+    currency: data.currency.base,
+  };
+}
+
+// --- Description ---
+function describeKey(f: KeyForecast, monthEnd: string, currency: string): string {
+  const money = (amount: number) => formatMoney(amount, currency);
+  const lead = f.key === "total" ? "you're on track to spend" : `${f.key} is on track to reach`;
+  const range = f.low === f.high ? "" : ` (likely ${money(f.low)}–${money(f.high)})`;
+  const bills = f.billsDue ? `, including ${money(f.billsDue)} of bills still due` : "";
+  const base = `By ${monthEnd} ${lead} about ${money(f.projected)}${range}${bills}.`;
+  if (!f.budget) return base;
+  const budget = `${f.key === "total" ? "your" : "its"} ${money(f.budget)} budget`;
+  switch (f.status) {
+    case "under": return `${base} That stays under ${budget}.`;
+    case "over": return `${base} That's over ${budget} by about ${money(f.projected - f.budget)}.`;
+    default: return `${base} That could go either way against ${budget}.`;
+  }
+}
+
+// Plain sentences about the forecast, focused on one category when given. Used for chat
+// replies and as the fallback when the model can't phrase them.
+export function describeForecast(forecast: SpendingForecast, category?: string): string {
+  const monthEnd = format(parseExpenseDate(forecast.monthEnd), "d MMM");
+  const focus = category ? forecast.categories.find((c) => c.key.toLowerCase() === category.toLowerCase()) : undefined;
+  if (category && !focus) return `There's no spending or budget for ${category} to forecast this month.`;
+  const money = (amount: number) => formatMoney(amount, forecast.currency);
+  if (focus) return describeKey(focus, monthEnd, forecast.currency);
+
+  const risky = forecast.categories.filter((c) => c.status === "over" || c.status === "at_risk");
+  const warnings = risky.map((c) => `${c.key} is ${c.status === "over" ? "likely" : "at risk"} to go over its ${money(c.budget!)} budget (about ${money(c.projected)}).`);
+  return [describeKey(forecast.total, monthEnd, forecast.currency), ...warnings].join(" ");
+}
@@ -0,0 +1,67 @@
+// goalReplies.ts
+
+import { addGoal, Conversation, getCurrencySettings, getGoalPlan, getGoalProgress, getGoals, SavingsGoal } from "@/app/expenseStore";
+import { buildGoal, describeGoal, describeGoalPlan, findGoal, GoalProgress } from "@/app/goals";
+import { ChatResult } from "@/app/conversationReplies";
+import { holdGoal, needsConfirmation } from "@/app/pendingActions";
+
+export const GOAL_INTENTS = ["add_goal", "goal_progress", "goal_plan"];
+
+export type GoalReply = ChatResult & { updatedGoals?: GoalProgress[] };
+
+const NO_GOALS = `🎯 You don't have any savings goals yet. Try "save 80000 for a laptop by March".`;
+
+// A named goal, or the only one there is.
+function pickGoal(name: string | undefined, goals: SavingsGoal[]): { goal: SavingsGoal } | { reply: string } {
+  if (goals.length === 0) return { reply: NO_GOALS };
+  const goal = name ? findGoal(goals, name) : goals.length === 1 ? goals[0] : undefined;
+  if (goal) return { goal };
+  const names = goals.map((g) => g.name).join(", ");
+  return { reply: name ? `🤔 I couldn't find a goal called "${name}". Your goals: ${names}.` : `🤔 Which goal do you mean? You have: ${names}.` };
+}
+
+// Runs the goal intents for both chat routes. The figures always come from the app; the
+// model's own reply is only kept as the opening line when a goal is created. A new goal
+// waits on a card unless the user's confirmation settings let it through.
+export function handleGoalIntent(intent: string, data: Record<string, any>, draft: string, conversation: Conversation, confidence?: number): GoalReply {
+  const goals = getGoals();
+  const currency = getCurrencySettings().base;
+  switch (intent) {
+    case "add_goal": {
+      const built = buildGoal(data, goals);
+      if ("error" in built) return { reply: `🤔 I couldn't set up that goal: ${built.error}` };
+      if (needsConfirmation(built.goal.target, confidence)) return holdGoal(conversation, built.goal);
+      addGoal(built.goal);
+      const updatedGoals = getGoalProgress();
+      const progress = updatedGoals.find((g) => g.id === built.goal.id)!;
+      return {
+        reply: [draft || `🎯 Goal created.`, describeGoal(progress, currency)].join("\n"),
+        updatedGoals,
+        turn: { intent, planChanges: [{ kind: "goal", goalId: built.goal.id }] },
+      };
+    }
+
+    case "goal_progress": {
+      const progress = getGoalProgress();
+      if (data.goal) {
+        const picked = pickGoal(data.goal, goals);
+        if ("reply" in picked) return picked;
+        return { reply: describeGoal(progress.find((g) => g.id === picked.goal.id)!, currency) };
+      }
+      if (progress.length === 0) return { reply: NO_GOALS };
+      return { reply: progress.map((g) => `🎯 ${describeGoal(g, currency)}`).join("\n") };
+    }
+
+    case "goal_plan": {
+      const picked = pickGoal(data.goal, goals);
+      if ("reply" in picked) return picked;
+      const plan = getGoalPlan(picked.goal.id, { category: data.category, deadline: data.deadline });
+      if (!plan) return { reply: "❌ Sorry, I couldn't find that goal." };
+      if ("error" in plan) return { reply: `🤔 ${plan.error}` };
+      return { reply: describeGoalPlan(plan, currency) };
+    }
+
+    default:
+      return { reply: "🤔 I'm not sure how to handle that request." };
+  }
+}
@@ -0,0 +1,257 @@
+// goals.ts
+
+import crypto from "crypto";
+import { addMonths, addYears, differenceInCalendarMonths, endOfMonth, format, isValid, parse, startOfMonth, subMonths } from "date-fns";
+import { BudgetSettings, BudgetVersion, Expense, SavingsGoal } from "@/app/expenseStore";
+import { computeBudgetStatus } from "@/app/budgets";
+import { cashFlow, filterByRange, parseExpenseDate, spendingOnly } from "@/app/summaryEngine";
+import { formatMoney } from "@/app/currency";
+
+// How many completed months the usual monthly surplus (and category spend) is averaged over.
+const PACE_MONTHS = 3;
+
+export type GoalProgress = SavingsGoal & {
+  saved: number;
+  remaining: number;
+  percent: number;
+  pace: number; // What the goal can expect per month, from recent surpluses
+  monthsLeft?: number; // Including the current month; 0 once the deadline has passed
+  neededPerMonth?: number;
+  onTrack?: boolean; // Only for goals with a deadline
+  projectedDate?: string; // dd-MM-yyyy month end the target is reached at the current pace
+};
+
+// What it takes to hit a goal by its deadline (or another one), and how much of the gap
+// cutting one category could close.
+export type GoalPlan = {
+  goal: GoalProgress;
+  deadline: string;
+  neededPerMonth: number;
+  pace: number;
+  gap: number; // Extra needed per month beyond the current pace
+  category?: string;
+  categoryAverage?: number; // Usual monthly spend in the category
+  cut?: number; // Suggested monthly cut in the category, at most its usual spend
+};
+
+type GoalData = { expenses: Expense[]; budgets: BudgetVersion[]; budgetSettings: BudgetSettings; goals: SavingsGoal[] };
+
+// --- Input ---
+// "31-03-2027", or a month ("March", "March 2027") meaning the end of it. A bare month
+// that has already passed this year means next year's.
+export function parseDeadline(value: unknown, now = new Date()): string | undefined {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const raw = value.trim();
+  const exact = parseExpenseDate(raw);
+  if (/^\d{2}-\d{2}-\d{4}$/.test(raw) && isValid(exact)) return raw;
+  for (const pattern of ["MMMM yyyy", "MMM yyyy", "MMMM", "MMM"]) {
+    const d = parse(raw, pattern, now);
+    if (!isValid(d)) continue;
+    const month = !pattern.includes("yyyy") && endOfMonth(d) < now ? addYears(d, 1) : d;
+    return format(endOfMonth(month), "dd-MM-yyyy");
+  }
+  return undefined;
+}
+
+function positiveAmount(value: unknown): number | undefined {
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount > 0 ? amount : undefined;
+}
+
+// Builds a goal from an API body or a chat extraction (snake_case accepted, as the model emits it).
+export function buildGoal(input: any, existing: SavingsGoal[], now = new Date()): { goal: SavingsGoal } | { error: string } {
+  const name = typeof input?.name === "string" ? input.name.trim().replace(/\s+/g, " ") : "";
+  if (!name || name.length > 40) return { error: "Goal name must be 1–40 characters." };
+  if (goalNamed(existing, name)) return { error: `A goal called "${name}" already exists.` };
+
+  const target = positiveAmount(input?.target ?? input?.amount);
+  if (target === undefined) return { error: "Target must be a positive amount." };
+
+  const rawDeadline = input?.deadline;
+  const deadline = parseDeadline(rawDeadline, now);
+  if (rawDeadline !== undefined && rawDeadline !== null && rawDeadline !== "" && !deadline) {
+    return { error: `Deadline must be a date in dd-MM-yyyy format or a month like "March 2027".` };
+  }
+  if (deadline && parseExpenseDate(deadline) < startOfMonth(now)) return { error: "Deadline can't be in the past." };
+
+  const rawContribution = input?.monthlyContribution ?? input?.monthly_contribution;
+  const monthlyContribution = positiveAmount(rawContribution);
+  if (rawContribution !== undefined && rawContribution !== null && monthlyContribution === undefined) {
+    return { error: "Monthly contribution must be a positive amount." };
+  }
+
+  return { goal: { id: crypto.randomUUID(), name, target, deadline, monthlyContribution, startDate: format(now, "dd-MM-yyyy") } };
+}
+
+// Accepts { name?, target?, deadline?, monthlyContribution? }; null clears the deadline or contribution.
+// The deadline is only checked when it is given, so a goal whose deadline has passed can
+// still have its other fields edited.
+export function validateGoalChanges(input: any, goal: SavingsGoal, existing: SavingsGoal[], now = new Date()): { changes: Partial<SavingsGoal> } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return { error: "Request body must be a JSON object." };
+  const keepDeadline = input.deadline === undefined;
+  const merged = {
+    name: input.name ?? goal.name,
+    target: input.target ?? goal.target,
+    deadline: keepDeadline ? undefined : input.deadline,
+    monthlyContribution: input.monthlyContribution === null ? undefined : input.monthlyContribution ?? goal.monthlyContribution,
+  };
+  const built = buildGoal(merged, existing.filter((g) => g.id !== goal.id), now);
+  if ("error" in built) return built;
+  const { name, target, deadline, monthlyContribution } = built.goal;
+  return { changes: { name, target, deadline: keepDeadline ? goal.deadline : deadline, monthlyContribution } };
+}
+
+// The goal with exactly this name, ignoring case. Names are unique by this measure.
+export function goalNamed(goals: SavingsGoal[], name: string): SavingsGoal | undefined {
+  const wanted = name.trim().toLowerCase();
+  return goals.find((g) => g.name.toLowerCase() === wanted);
+}
+
+// The goal a chat message means: an exact name, or failing that one that contains the
+// words or is contained in them ("laptop" for "New laptop").
+export function findGoal(goals: SavingsGoal[], name: string): SavingsGoal | undefined {
+  const wanted = name.trim().toLowerCase();
+  return goalNamed(goals, name) ?? goals.find((g) => g.name.toLowerCase().includes(wanted) || wanted.includes(g.name.toLowerCase()));
+}
+
+// --- Surplus ---
+// What was left over each month: income minus spending when there was income, otherwise
+// the unspent budget. Unspent budget only counts once a month is over, since until then
+// it may still be spent; money already in hand counts straight away.
+function monthlySurplus(data: GoalData, month: Date, now: Date): number {
+  const range = { label: format(month, "MMMM yyyy"), start: startOfMonth(month), end: endOfMonth(month) };
+  const flow = cashFlow(filterByRange(data.expenses, range));
+  if (flow.income > 0) return Math.max(0, flow.net);
+  if (range.end > now) return 0;
+  const budget = computeBudgetStatus(range, data, {}).budget.total || 0;
+  return Math.max(0, budget - flow.spent);
+}
+
+function monthsBetween(from: Date, to: Date): Date[] {
+  const months: Date[] = [];
+  for (let m = startOfMonth(from); m <= to; m = addMonths(m, 1)) months.push(m);
+  return months;
+}
+
+// Average over the last few completed months that have any transactions at all.
+function recentAverage(data: GoalData, now: Date, valueFor: (month: Date) => number): number {
+  const first = data.expenses.reduce((min, e) => {
+    const t = parseExpenseDate(e.date).getTime();
+    return isNaN(t) ? min : Math.min(min, t);
+  }, Infinity);
+  if (first === Infinity) return 0;
+  const months = monthsBetween(subMonths(startOfMonth(now), PACE_MONTHS), subMonths(startOfMonth(now), 1)).filter((m) => endOfMonth(m).getTime() >= first);
+  return months.length ? months.reduce((a, m) => a + valueFor(m), 0) / months.length : 0;
+}
+
+// --- Progress ---
+// Each month's surplus funds goals oldest first, each up to its monthly contribution (or
+// whatever is left, for a goal without one) until its target is reached. The expected
+// pace is the recent average surplus shared out the same way.
+export function goalProgress(data: GoalData, now = new Date()): GoalProgress[] {
+  const goals = [...data.goals].sort((a, b) => parseExpenseDate(a.startDate).getTime() - parseExpenseDate(b.startDate).getTime());
+  const saved = new Map(goals.map((g) => [g.id, 0]));
+  const earliest = goals.reduce((min, g) => Math.min(min, parseExpenseDate(g.startDate).getTime()), Infinity);
+
+  if (earliest !== Infinity) {
+    for (const month of monthsBetween(new Date(earliest), now)) {
+      let available = monthlySurplus(data, month, now);
+      for (const goal of goals) {
+        if (available <= 0) break;
+        if (startOfMonth(parseExpenseDate(goal.startDate)) > month) continue;
+        const room = goal.target - saved.get(goal.id)!;
+        const take = Math.min(available, room, goal.monthlyContribution ?? Infinity);
+        if (take <= 0) continue;
+        saved.set(goal.id, saved.get(goal.id)! + take);
+        available -= take;
+      }
+    }
+  }
+
+  let unallocated = recentAverage(data, now, (m) => monthlySurplus(data, m, now));
+  const paces = new Map<string, number>();
+  goals.forEach((goal) => {
+    if (saved.get(goal.id)! >= goal.target) return;
+    const pace = Math.min(unallocated, goal.monthlyContribution ?? Infinity);
+    paces.set(goal.id, pace);
+    unallocated -= pace;
+  });
+
+  return data.goals.map((goal) => {
+    const done = saved.get(goal.id) ?? 0;
+    const remaining = Math.max(0, goal.target - done);
+    const pace = Math.round(paces.get(goal.id) ?? 0);
+    const progress: GoalProgress = { ...goal, saved: Math.round(done), remaining: Math.round(remaining), percent: Math.floor((done / goal.target) * 100), pace };
+    if (goal.deadline) {
+      const monthsLeft = Math.max(0, differenceInCalendarMonths(parseExpenseDate(goal.deadline), now) + 1);
+      progress.monthsLeft = monthsLeft;
+      progress.neededPerMonth = Math.round(monthsLeft ? remaining / monthsLeft : remaining);
+      progress.onTrack = remaining === 0 || pace * monthsLeft >= remaining;
+    }
+    if (remaining > 0 && pace > 0) {
+      progress.projectedDate = format(endOfMonth(addMonths(now, Math.ceil(remaining / pace) - 1)), "dd-MM-yyyy");
+    }
+    return progress;
+  });
+}
+
+// "How much do I need to cut from Shopping to hit my laptop goal by March?"
+export function planGoal(
+  progress: GoalProgress,
+  data: GoalData,
+  options: { deadline?: string; category?: string; parents?: Record<string, string> },
+  now = new Date()
+): GoalPlan | { error: string } {
+  const deadline = options.deadline ?? progress.deadline;
+  if (!deadline) return { error: `"${progress.name}" has no deadline; say when you'd like to reach it.` };
+  const monthsLeft = Math.max(1, differenceInCalendarMonths(parseExpenseDate(deadline), now) + 1);
+  const neededPerMonth = Math.round(progress.remaining / monthsLeft);
+  const gap = Math.max(0, neededPerMonth - progress.pace);
+  const plan: GoalPlan = { goal: progress, deadline, neededPerMonth, pace: progress.pace, gap };
+
+  if (options.category) {
+    const parents = options.parents ?? {};
+    const category = options.category;
+    const inCategory = (e: Expense) => e.category === category || parents[e.category] === category;
+    const categoryAverage = Math.round(recentAverage(data, now, (m) =>
+      spendingOnly(filterByRange(data.expenses, { label: "", start: startOfMonth(m), end: endOfMonth(m) }))
+        .filter(inCategory)
+        .reduce((a, e) => a + e.amount, 0)
+    ));
+    Object.assign(plan, { category, categoryAverage, cut: Math.min(gap, categoryAverage) });
+  }
+  return plan;
+}
+
+// --- Description ---
+function day(date: string): string {
+  return format(parseExpenseDate(date), "d MMM yyyy");
+}
+
+export function describeGoal(p: GoalProgress, currency: string): string {
+  const money = (amount: number) => formatMoney(amount, currency);
+  const base = `${p.name}: ${money(p.saved)} of ${money(p.target)} saved (${p.percent}%).`;
+  if (p.remaining === 0) return `${base} Goal reached! 🎉`;
+  if (p.deadline && p.neededPerMonth !== undefined) {
+    const when = p.monthsLeft ? `by ${day(p.deadline)}` : `now that ${day(p.deadline)} has passed`;
+    const verdict = p.onTrack ? "so you're on track" : "so you're behind";
+    return `${base} You need ${money(p.neededPerMonth)} a month ${when}; you've been saving about ${money(p.pace)} a month, ${verdict}.`;
+  }
+  return p.projectedDate
+    ? `${base} At about ${money(p.pace)} a month you'll get there around ${format(parseExpenseDate(p.projectedDate), "MMMM yyyy")}.`
+    : `${base} Nothing has been left over each month for it lately.`;
+}
+
+export function describeGoalPlan(plan: GoalPlan, currency: string): string {
+  const money = (amount: number) => formatMoney(amount, currency);
+  const { goal } = plan;
+  if (goal.remaining === 0) return `${goal.name} is already fully funded. 🎉`;
+  const lead = `To reach ${goal.name} (${money(goal.remaining)} to go) by ${day(plan.deadline)} you need ${money(plan.neededPerMonth)} a month; you've been saving about ${money(plan.pace)}.`;
+  if (plan.gap === 0) return `${lead} No cuts needed — just keep it up.`;
+  if (!plan.category) return `${lead} That's ${money(plan.gap)} a month short.`;
+  if (!plan.categoryAverage) return `${lead} That's ${money(plan.gap)} a month short, and there's no recent ${plan.category} spending to cut.`;
+  const share = Math.round((plan.cut! / plan.categoryAverage) * 100);
+  return plan.cut! < plan.gap
+    ? `${lead} Even cutting ${plan.category} entirely (about ${money(plan.categoryAverage)} a month) leaves you ${money(plan.gap - plan.cut!)} a month short.`
+    : `${lead} Cutting ${plan.category} by ${money(plan.cut!)} a month (${share}% of your usual ${money(plan.categoryAverage)}) would close the gap.`;
+}
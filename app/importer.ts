@@ -0,0 +1,295 @@
+// importer.ts
+
+import { format, isValid, parse } from "date-fns";
+import { CategoryKey, categoryKeys, Expense, IncomeCategoryKey, TransactionType } from "@/app/expenseStore";
+import { findCategory, findIncomeCategory } from "@/app/llm/ruleBasedProvider";
+import { ExpenseInput, matchCategory } from "@/app/validation";
+
+export type ImportFormat = "csv" | "ofx" | "qif";
+
+export const IMPORT_FORMATS: ImportFormat[] = ["csv", "ofx", "qif"];
+
+// Every source is first turned into a plain table, so CSV, OFX and QIF share one
+// mapping, date-parsing and categorization path.
+export type ImportTable = {
+  format: ImportFormat;
+  headers: string[];
+  rows: string[][];
+};
+
+// Column indexes into ImportTable.headers. A file has either one signed `amount`
+// column or separate `debit` / `credit` columns.
+export type ColumnMapping = {
+  date: number;
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  description?: number;
+  category?: number;
+};
+
+export type ImportRow = {
+  line: number; // 1-based row number in the table, for error messages
+  expense?: ExpenseInput;
+  duplicate: boolean;
+  errors: string[];
+};
+
+export type ImportPreview = {
+  format: ImportFormat;
+  headers: string[];
+  mapping: ColumnMapping;
+  dateFormat: string | null;
+  rows: ImportRow[];
+};
+
+// Tried in order, so the day-first forms common in Indian statements win when a
+// column is ambiguous (e.g. 03/04/2025).
+export const IMPORT_DATE_FORMATS = [
+  "dd-MM-yyyy",
+  "dd/MM/yyyy",
+  "yyyy-MM-dd",
+  "MM/dd/yyyy",
+  "dd.MM.yyyy",
+  "d MMM yyyy",
+  "dd MMM yyyy",
+  "d-MMM-yyyy",
+  "dd-MMM-yy",
+  "yyyyMMdd",
+  "dd/MM/yy",
+  "MM/dd/yy",
+];
+
+// --- Format Detection ---
+export function detectFormat(content: string, fileName = ""): ImportFormat {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "ofx" || ext === "qfx" || /<OFX>/i.test(content)) return "ofx";
+  if (ext === "qif" || /^!Type:/im.test(content)) return "qif";
+  return "csv";
+}
+
+// --- CSV ---
+// RFC 4180-style: quoted fields may contain the delimiter, newlines and doubled quotes.
+// The delimiter is whichever of , ; or tab appears most in the first line.
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ",");
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f !== ""));
+}
+
+// --- OFX ---
+// OFX 1.x is SGML without closing tags, so each field is read up to the next tag or line end.
+function parseOfx(text: string): ImportTable {
+  const field = (block: string, tag: string) => block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))?.[1].trim() ?? "";
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  return {
+    format: "ofx",
+    headers: ["Date", "Amount", "Name", "Memo"],
+    rows: blocks.map((b) => [field(b, "DTPOSTED").slice(0, 8), field(b, "TRNAMT"), field(b, "NAME"), field(b, "MEMO")]),
+  };
+}
+
+// --- QIF ---
+// One field per line, keyed by its first character; "^" ends a transaction.
+function parseQif(text: string): ImportTable {
+  const rows: string[][] = [];
+  let current: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const key = line[0];
+    const value = line.slice(1).trim();
+    if (key === "^") {
+      if (current.D || current.T) rows.push([current.D ?? "", current.T ?? "", current.P ?? "", current.M ?? "", current.L ?? ""]);
+      current = {};
+    } else if (key === "D") {
+      current.D = value.replace("'", "/"); // 19/10'26 → 19/10/26
+    } else if (key === "T" || key === "U") {
+      current.T = value;
+    } else if (key === "P" || key === "M" || key === "L") {
+      current[key] = value;
+    }
+  }
+  return { format: "qif", headers: ["Date", "Amount", "Payee", "Memo", "Category"], rows };
+}
+
+export function readTable(content: string, fileName?: string, forced?: ImportFormat): ImportTable {
+  const fmt = forced ?? detectFormat(content, fileName);
+  if (fmt === "ofx") return parseOfx(content);
+  if (fmt === "qif") return parseQif(content);
+  const [headers = [], ...rows] = parseCsv(content);
+  return { format: "csv", headers, rows };
+}
+
+// --- Column Mapping ---
+const HEADER_HINTS: [keyof ColumnMapping, RegExp][] = [
+  ["date", /\b(date|posted|txn date|transaction date|value date)\b/i],
+  ["debit", /\b(debit|withdrawal|dr|paid out|money out)\b/i],
+  ["credit", /\b(credit|deposit|cr|paid in|money in)\b/i],
+  ["amount", /\b(amount|amt|sum)\b/i],
+  ["description", /\b(description|narration|details|particulars|payee|name|merchant|memo|note|remarks)\b/i],
+  ["category", /\b(category|categories)\b/i],
+];
+
+// Best guess from the header names; the preview lets the user correct it.
+export function guessMapping(headers: string[]): ColumnMapping {
+  const taken = new Set<number>();
+  const mapping: Partial<ColumnMapping> = {};
+  for (const [field, re] of HEADER_HINTS) {
+    const index = headers.findIndex((h, i) => !taken.has(i) && re.test(h));
+    if (index !== -1) {
+      mapping[field] = index;
+      taken.add(index);
+    }
+  }
+  return { ...mapping, date: mapping.date ?? 0 };
+}
+
+export function validateMapping(raw: any, headers: string[]): { mapping: ColumnMapping } | { error: string } {
+  if (!raw || typeof raw !== "object") return { error: "Mapping must be an object of column indexes." };
+  const mapping: Partial<ColumnMapping> = {};
+  for (const field of ["date", "amount", "debit", "credit", "description", "category"] as (keyof ColumnMapping)[]) {
+    const value = raw[field];
+    if (value === undefined || value === null || value === "") continue;
+    if (!Number.isInteger(value) || value < 0 || value >= headers.length) {
+      return { error: `"${field}" must be a column index between 0 and ${headers.length - 1}.` };
+    }
+    mapping[field] = value;
+  }
+  if (mapping.date === undefined) return { error: "Choose which column holds the date." };
+  if (mapping.amount === undefined && mapping.debit === undefined && mapping.credit === undefined) {
+    return { error: "Choose an amount column, or debit and credit columns." };
+  }
+  return { mapping: mapping as ColumnMapping };
+}
+
+// --- Values ---
+// The first format that parses every non-empty sample, or null if none does.
+export function detectDateFormat(values: string[]): string | null {
+  const samples = values.filter(Boolean).slice(0, 50);
+  if (samples.length === 0) return null;
+  return IMPORT_DATE_FORMATS.find((f) => samples.every((v) => parseImportDate(v, f) !== null)) ?? null;
+}
+
+export function parseImportDate(value: string, dateFormat: string): string | null {
+  const d = parse(value.trim(), dateFormat, new Date());
+  if (!isValid(d) || d.getFullYear() < 1900) return null;
+  return format(d, "dd-MM-yyyy");
+}
+
+// Handles "₹1,234.50", "-450", "(450.00)" and "450 DR" / "450 CR". Returns null when unreadable.
+export function parseAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  let text = value.trim();
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) { sign = -1; text = text.slice(1, -1); }
+  if (/\bdr\.?$/i.test(text)) { sign = -1; text = text.replace(/\bdr\.?$/i, ""); }
+  text = text.replace(/\bcr\.?$/i, "").replace(/[^\d.\-]/g, "");
+  if (!text || text === "-" || text === ".") return null;
+  const n = Number(text);
+  return Number.isFinite(n) ? sign * n : null;
+}
+
+// Where rows nothing matched go: "Other" / "Other Income" while they are active, otherwise
+// the first active category of the type, since either can be renamed or archived.
+function fallbackCategory(type: TransactionType): CategoryKey | IncomeCategoryKey {
+  const preferred = type === "income" ? "Other Income" : "Other";
+  const keys = categoryKeys(type);
+  return keys.find((k) => k.toLowerCase() === preferred.toLowerCase()) ?? keys[0] ?? preferred;
+}
+
+function categorize(description: string, mapped: string | undefined, type: TransactionType, fallback: Record<TransactionType, string>): CategoryKey | IncomeCategoryKey {
+  const fromColumn = matchCategory(mapped, type);
+  if (fromColumn) return fromColumn;
+  if (type === "income") return findIncomeCategory(description) ?? fallback.income;
+  return findCategory(`${description} ${mapped ?? ""}`) ?? fallback.expense;
+}
+
+// Same amount, date and note (case-insensitive) as an existing transaction.
+export function duplicateKey(e: Pick<Expense, "amount" | "date" | "note">): string {
+  return `${e.amount.toFixed(2)}|${e.date}|${(e.note ?? "").trim().toLowerCase()}`;
+}
+
+// --- Building Rows ---
+export function buildImportRows(table: ImportTable, mapping: ColumnMapping, dateFormat: string | null, existing: Expense[]): ImportRow[] {
+  const seen = new Set(existing.map(duplicateKey));
+  // A single signed column: if nothing is negative, the statement lists spending as positive numbers.
+  const signed = mapping.amount !== undefined && table.rows.some((r) => (parseAmount(r[mapping.amount!]) ?? 0) < 0);
+
+  const fallback = { expense: fallbackCategory("expense"), income: fallbackCategory("income") };
+
+  return table.rows.map((cells, i) => {
+    const errors: string[] = [];
+    const date = dateFormat ? parseImportDate(cells[mapping.date] ?? "", dateFormat) : null;
+    if (!date) errors.push(`Unreadable date "${cells[mapping.date] ?? ""}".`);
+
+    let amount: number | null;
+    let type: TransactionType = "expense";
+    if (mapping.amount !== undefined) {
+      amount = parseAmount(cells[mapping.amount]);
+      if (amount !== null && signed && amount > 0) type = "income";
+    } else {
+      const debit = mapping.debit !== undefined ? parseAmount(cells[mapping.debit]) : null;
+      const credit = mapping.credit !== undefined ? parseAmount(cells[mapping.credit]) : null;
+      if (credit) type = "income";
+      amount = debit || credit;
+    }
+    if (amount === null || amount === 0) errors.push("Missing or zero amount.");
+
+    const note = mapping.description !== undefined ? cells[mapping.description]?.trim() || undefined : undefined;
+    if (errors.length) return { line: i + 1, duplicate: false, errors };
+
+    const expense: ExpenseInput = {
+      type,
+      amount: Math.abs(amount!),
+      category: categorize(note ?? "", mapping.category !== undefined ? cells[mapping.category] : undefined, type, fallback),
+      note,
+      date: date!,
+    };
+    // Rows repeated inside the same file count as duplicates too.
+    const key = duplicateKey(expense);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { line: i + 1, expense, duplicate, errors };
+  });
+}
+
+export function previewImport(table: ImportTable, existing: Expense[], options: { mapping?: ColumnMapping; dateFormat?: string } = {}): ImportPreview {
+  const mapping = options.mapping ?? guessMapping(table.headers);
+  const dateFormat = options.dateFormat ?? detectDateFormat(table.rows.map((r) => r[mapping.date] ?? ""));
+  return {
+    format: table.format,
+    headers: table.headers,
+    mapping,
+    dateFormat,
+    rows: buildImportRows(table, mapping, dateFormat, existing),
+  };
+}
@@ -0,0 +1,316 @@
+// intentSchemas.ts
+
+import { categoryKeys } from "@/app/expenseStore";
+import { RECURRING_CADENCES } from "@/app/recurring";
+import { SUMMARY_TYPES } from "@/app/summaryEngine";
+import { parseDeadline } from "@/app/goals";
+import { normalizeTags } from "@/app/tags";
+import { normalizeCurrency } from "@/app/currency";
+import { MAX_LISTED, MAX_UNDO } from "@/app/conversations";
+import { normalizeSplit } from "@/app/splits";
+import { isValidDate, matchCategory, ValidationResult } from "@/app/validation";
+
+// --- Model Reply Shape ---
+export type ExecutionStatus = "SUCCESS" | "CLARIFICATION_NEEDED" | "ERROR";
+
+export type ModelReply = {
+  intent: string;
+  execution_status: ExecutionStatus;
+  data: Record<string, any>;
+  reply: string;
+  confidence?: number; // 0–1, how sure the model was that it read the message right
+};
+
+type FieldErrors = string[];
+type IntentSchema = (data: Record<string, any>, errors: FieldErrors) => Record<string, any>;
+
+// --- Field Checks ---
+// Each check records an error against `intent.field` and returns the normalized value.
+function positiveAmount(d: Record<string, any>, field: string, errors: FieldErrors, required = true): number | undefined {
+  const v = d[field];
+  if (v === undefined || v === null) {
+    if (required) errors.push(`data.${field} is required and must be a positive number.`);
+    return undefined;
+  }
+  if (typeof v !== "number" || !Number.isFinite(v) || v <= 0) {
+    errors.push(`data.${field} must be a positive number (got ${JSON.stringify(v)}).`);
+    return undefined;
+  }
+  return v;
+}
+
+function optionalDate(d: Record<string, any>, field: string, errors: FieldErrors): string | undefined {
+  const v = d[field];
+  if (v === undefined || v === null || v === "") return undefined;
+  if (!isValidDate(v)) {
+    errors.push(`data.${field} must be a date in dd-MM-yyyy format (got ${JSON.stringify(v)}).`);
+    return undefined;
+  }
+  return v;
+}
+
+function optionalString(d: Record<string, any>, field: string, errors: FieldErrors): string | undefined {
+  const v = d[field];
+  if (v === undefined || v === null) return undefined;
+  if (typeof v !== "string") {
+    errors.push(`data.${field} must be a string.`);
+    return undefined;
+  }
+  return v.trim() || undefined;
+}
+
+function optionalTags(d: Record<string, any>, field: string, errors: FieldErrors): string[] | undefined {
+  const v = d[field];
+  if (v === undefined || v === null) return undefined;
+  const checked = normalizeTags(v);
+  if ("error" in checked) {
+    errors.push(`data.${field} ${checked.error}`);
+    return undefined;
+  }
+  return checked.tags.length ? checked.tags : undefined;
+}
+
+function expenseCategory(d: Record<string, any>, field: string, errors: FieldErrors, required = true) {
+  const v = d[field];
+  if (v === undefined || v === null) {
+    if (required) errors.push(`data.${field} is required; use one of: ${categoryKeys("expense").join(", ")}.`);
+    return undefined;
+  }
+  const category = matchCategory(v, "expense");
+  if (!category) errors.push(`data.${field} must be one of: ${categoryKeys("expense").join(", ")} (got ${JSON.stringify(v)}).`);
+  return category;
+}
+
+function incomeCategory(d: Record<string, any>, field: string, errors: FieldErrors) {
+  const category = matchCategory(d[field], "income");
+  if (!category) errors.push(`data.${field} must be one of: ${categoryKeys("income").join(", ")} (got ${JSON.stringify(d[field])}).`);
+  return category;
+}
+
+// Deadlines may be a date or a month name ("March"); goals.ts resolves them.
+function optionalDeadline(d: Record<string, any>, field: string, errors: FieldErrors): string | undefined {
+  const v = d[field];
+  if (v === undefined || v === null || v === "") return undefined;
+  const deadline = parseDeadline(v);
+  if (!deadline) errors.push(`data.${field} must be a date in dd-MM-yyyy format or a month like "March 2027" (got ${JSON.stringify(v)}).`);
+  return deadline;
+}
+
+// "$", "usd" or "USD" → "USD"; conversion to the base currency happens when the entry is saved.
+function optionalCurrency(d: Record<string, any>, field: string, errors: FieldErrors): string | undefined {
+  const v = d[field];
+  if (v === undefined || v === null || v === "") return undefined;
+  const currency = normalizeCurrency(v);
+  if (!currency) errors.push(`data.${field} must be a three-letter currency code like USD (got ${JSON.stringify(v)}).`);
+  return currency;
+}
+
+// A 1-based position or count, e.g. "the second one" → 2.
+function optionalCount(d: Record<string, any>, field: string, errors: FieldErrors, max: number): number | undefined {
+  const v = d[field];
+  if (v === undefined || v === null) return undefined;
+  if (!Number.isInteger(v) || v < 1 || v > max) {
+    errors.push(`data.${field} must be a whole number from 1 to ${max} (got ${JSON.stringify(v)}).`);
+    return undefined;
+  }
+  return v;
+}
+
+function period(v: unknown): boolean {
+  if (typeof v === "string") return v.trim().length > 0;
+  return !!v && typeof v === "object" && isValidDate((v as any).from) && isValidDate((v as any).to);
+}
+
+const MAX_ITEMS = 20;
+
+// --- Per-Intent Schemas ---
+// `amount` is the whole bill when there is a `split`; the app works out the share.
+function expenseItem(d: Record<string, any>, errors: FieldErrors) {
+  return {
+    amount: positiveAmount(d, "amount", errors),
+    currency: optionalCurrency(d, "currency", errors),
+    category: expenseCategory(d, "category", errors),
+    note: optionalString(d, "note", errors),
+    date: optionalDate(d, "date", errors),
+    tags: optionalTags(d, "tags", errors),
+    split: normalizeSplit(d.split, "data.split", errors),
+  };
+}
+
+const INTENT_SCHEMAS: Record<string, IntentSchema> = {
+  log_expense: expenseItem,
+
+  // Each item is checked like a log_expense, with its errors labelled by position.
+  log_expenses: (d, errors) => {
+    if (!Array.isArray(d.items) || d.items.length === 0) {
+      errors.push("data.items must be a non-empty array of expenses.");
+      return { items: [] };
+    }
+    if (d.items.length > MAX_ITEMS) errors.push(`data.items may list at most ${MAX_ITEMS} expenses.`);
+    const items = d.items.slice(0, MAX_ITEMS).map((item: unknown, i: number) => {
+      const itemErrors: FieldErrors = [];
+      const value = expenseItem(item && typeof item === "object" ? (item as Record<string, any>) : {}, itemErrors);
+      itemErrors.forEach((e) => errors.push(e.replace(/^data\./, `data.items[${i}].`)));
+      return value;
+    });
+    return { items };
+  },
+
+  log_income: (d, errors) => ({
+    amount: positiveAmount(d, "amount", errors),
+    currency: optionalCurrency(d, "currency", errors),
+    category: incomeCategory(d, "category", errors),
+    note: optionalString(d, "note", errors),
+    date: optionalDate(d, "date", errors),
+    tags: optionalTags(d, "tags", errors),
+  }),
+
+  // The category is checked against the transaction's direction by the route. With `ref`,
+  // the change applies to that transaction of the latest list instead of the last one.
+  update_last_expense: (d, errors) => {
+    const ref = optionalCount(d, "ref", errors, MAX_LISTED);
+    const value = {
+      amount: positiveAmount(d, "amount", errors, false),
+      currency: optionalCurrency(d, "currency", errors),
+      category: d.category === undefined ? undefined : optionalString(d, "category", errors),
+      note: optionalString(d, "note", errors),
+      date: optionalDate(d, "date", errors),
+      tags: optionalTags(d, "tags", errors),
+    };
+    if (Object.values(value).every((v) => v === undefined) && errors.length === 0) {
+      errors.push("data must contain at least one of: amount, currency, category, note, date, tags.");
+    }
+    return { ...value, ref };
+  },
+
+  list_transactions: (d, errors) => {
+    const type = d.type === undefined || d.type === null ? undefined : d.type;
+    if (type !== undefined && type !== "expense" && type !== "income") errors.push('data.type must be "expense" or "income".');
+    let category: string | undefined;
+    if (d.category !== undefined && d.category !== null) {
+      category = matchCategory(d.category, type === "income" ? "income" : "expense") ?? (type ? undefined : matchCategory(d.category, "income"));
+      if (!category) errors.push(`data.category must be a category name (got ${JSON.stringify(d.category)}).`);
+    }
+    if (d.period !== undefined && d.period !== null && !period(d.period)) {
+      errors.push('data.period must be a period name like "this_week" or { "from": "dd-MM-yyyy", "to": "dd-MM-yyyy" }.');
+    }
+    return { type, category, period: d.period ?? undefined, limit: optionalCount(d, "limit", errors, MAX_LISTED) };
+  },
+
+  delete_transaction: (d, errors) => ({ ref: optionalCount(d, "ref", errors, MAX_LISTED) }),
+
+  undo: (d, errors) => ({ count: optionalCount(d, "count", errors, MAX_UNDO) ?? 1 }),
+
+  add_recurring: (d, errors) => {
+    const cadence = typeof d.cadence === "string" ? d.cadence.toLowerCase() : "monthly";
+    if (!RECURRING_CADENCES.includes(cadence as any)) errors.push(`data.cadence must be one of: ${RECURRING_CADENCES.join(", ")}.`);
+    const dayOfMonth = d.day_of_month;
+    if (cadence === "custom" && !(Number.isInteger(dayOfMonth) && dayOfMonth >= 1 && dayOfMonth <= 31)) {
+      errors.push("data.day_of_month must be an integer from 1 to 31 when cadence is \"custom\".");
+    }
+    return {
+      amount: positiveAmount(d, "amount", errors),
+      category: expenseCategory(d, "category", errors),
+      note: optionalString(d, "note", errors),
+      cadence,
+      day_of_month: cadence === "custom" ? dayOfMonth : undefined,
+      start_date: optionalDate(d, "start_date", errors),
+      end_date: optionalDate(d, "end_date", errors),
+    };
+  },
+
+  get_summary: (d, errors) => {
+    if (!SUMMARY_TYPES.includes(d.summary_type)) errors.push(`data.summary_type must be one of: ${SUMMARY_TYPES.join(", ")}.`);
+    if (d.category !== undefined && d.category !== null) expenseCategory(d, "category", errors);
+    if (d.categories !== undefined) {
+      if (!Array.isArray(d.categories)) errors.push("data.categories must be an array of categories.");
+      else d.categories.forEach((c: unknown, i: number) => {
+        if (!matchCategory(c, "expense")) errors.push(`data.categories[${i}] must be one of: ${categoryKeys("expense").join(", ")} (got ${JSON.stringify(c)}).`);
+      });
+    }
+    if (d.summary_type === "compare_categories" && !(Array.isArray(d.categories) && d.categories.length >= 2)) {
+      errors.push("data.categories must list two categories for compare_categories.");
+    }
+    if (d.period !== undefined && d.period !== null && !period(d.period)) {
+      errors.push('data.period must be a period name like "this_month" or { "from": "dd-MM-yyyy", "to": "dd-MM-yyyy" }.');
+    }
+    if (d.periods !== undefined && !(Array.isArray(d.periods) && d.periods.every(period))) {
+      errors.push("data.periods must be an array of periods.");
+    }
+    // The summary engine does its own normalization; pass the extraction through.
+    return d;
+  },
+
+  set_budget: (d, errors) => {
+    const isTotal = d.category === undefined || d.category === null || String(d.category).toLowerCase() === "total";
+    const amount = d.amount;
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount < 0) {
+      errors.push(`data.amount must be a non-negative number (got ${JSON.stringify(amount)}).`);
+    }
+    if (d.period !== undefined && d.period !== null && !period(d.period)) {
+      errors.push('data.period must be a period name like "next_month" or { "from": "dd-MM-yyyy", "to": "dd-MM-yyyy" }.');
+    }
+    return { category: isTotal ? "total" : expenseCategory(d, "category", errors), amount, period: d.period ?? undefined };
+  },
+
+  add_goal: (d, errors) => {
+    const name = optionalString(d, "name", errors);
+    if (!name) errors.push("data.name is required; a short name for the goal, like \"Laptop\".");
+    return {
+      name,
+      target: positiveAmount(d, "target", errors),
+      deadline: optionalDeadline(d, "deadline", errors),
+      monthly_contribution: positiveAmount(d, "monthly_contribution", errors, false),
+    };
+  },
+
+  goal_progress: (d, errors) => ({ goal: optionalString(d, "goal", errors) }),
+
+  goal_plan: (d, errors) => ({
+    goal: optionalString(d, "goal", errors),
+    category: expenseCategory(d, "category", errors, false),
+    deadline: optionalDeadline(d, "deadline", errors),
+  }),
+
+  get_advice: (d, errors) => {
+    if (d.goal !== undefined && d.goal !== null && (typeof d.goal !== "number" || !Number.isFinite(d.goal))) {
+      errors.push("data.goal must be a number or null.");
+    }
+    return { ...d, goal: typeof d.goal === "number" ? d.goal : null, category: expenseCategory(d, "category", errors, false) };
+  },
+};
+
+// Validates the model's whole reply against the schema for its intent. Only intents in
+// `allowedIntents` are accepted; clarification and error replies skip the data checks.
+export function validateModelReply(raw: unknown, allowedIntents: string[]): ValidationResult<ModelReply> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { ok: false, errors: ["The response must be a single JSON object."] };
+  }
+  const r = raw as Record<string, any>;
+  const errors: string[] = [];
+
+  const status: ExecutionStatus = r.execution_status ?? "SUCCESS";
+  if (!["SUCCESS", "CLARIFICATION_NEEDED", "ERROR"].includes(status)) {
+    errors.push('execution_status must be "SUCCESS", "CLARIFICATION_NEEDED" or "ERROR".');
+  }
+  if (r.reply !== undefined && typeof r.reply !== "string") errors.push("reply must be a string.");
+  const reply = typeof r.reply === "string" ? r.reply : "";
+  const data = r.data && typeof r.data === "object" && !Array.isArray(r.data) ? r.data : {};
+  // Only used to decide whether a change waits for confirmation, so a missing or odd value
+  // just counts as unsure rather than failing the reply.
+  const confidence = typeof r.confidence === "number" && r.confidence >= 0 && r.confidence <= 1 ? r.confidence : undefined;
+
+  if (status !== "SUCCESS") {
+    return errors.length ? { ok: false, errors } : { ok: true, value: { intent: String(r.intent ?? "unknown"), execution_status: status, data, reply } };
+  }
+
+  if (typeof r.intent !== "string" || !allowedIntents.includes(r.intent)) {
+    errors.push(`intent must be one of: ${allowedIntents.join(", ")} (got ${JSON.stringify(r.intent)}).`);
+    return { ok: false, errors };
+  }
+  if (r.data !== undefined && data !== r.data) errors.push("data must be a JSON object.");
+
+  const schema = INTENT_SCHEMAS[r.intent];
+  const normalized = schema ? schema(data, errors) : data;
+  return errors.length ? { ok: false, errors } : { ok: true, value: { intent: r.intent, execution_status: status, data: normalized, reply, confidence } };
+}
@@ -0,0 +1,39 @@
+// config.ts
+
+import { LLMConfig, LLMProviderName } from "./types";
+
+const PROVIDERS: LLMProviderName[] = ["ollama", "openai", "rules"];
+
+const DEFAULTS: Record<LLMProviderName, { baseUrl: string; model: string }> = {
+  ollama: { baseUrl: "http://localhost:11434", model: "llama3:latest" },
+  openai: { baseUrl: "https://api.openai.com/v1", model: "gpt-4o-mini" },
+  rules: { baseUrl: "", model: "" },
+};
+
+// --- Environment ---
+// LLM_PROVIDER      "ollama" (default) | "openai" (any OpenAI-compatible endpoint) | "rules" (offline parser)
+// LLM_BASE_URL      Server URL; defaults per provider
+// LLM_MODEL         Model name; defaults per provider
+// LLM_API_KEY       API key for OpenAI-compatible servers (falls back to OPENAI_API_KEY)
+// LLM_TIMEOUT_MS    Per-request timeout (default 60000)
+// LLM_TEMPERATURE   Sampling temperature (default 0.2)
+// LLM_FALLBACK      "rules" (default) to parse offline when the provider fails, "off" to disable
+export function getLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || "ollama").toLowerCase() as LLMProviderName;
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}". Use one of: ${PROVIDERS.join(", ")}.`);
+  }
+
+  const timeoutMs = Number(env.LLM_TIMEOUT_MS || 60000);
+  const temperature = Number(env.LLM_TEMPERATURE || 0.2);
+
+  return {
+    provider,
+    baseUrl: (env.LLM_BASE_URL || DEFAULTS[provider].baseUrl).replace(/\/+$/, ""),
+    model: env.LLM_MODEL || DEFAULTS[provider].model,
+    apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY || undefined,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 60000,
+    temperature: Number.isFinite(temperature) ? temperature : 0.2,
+    fallbackToRules: (env.LLM_FALLBACK || "rules").toLowerCase() !== "off",
+  };
+}
@@ -0,0 +1,68 @@
+// index.ts
+
+import { getLLMConfig } from "./config";
+import { OllamaProvider } from "./ollamaProvider";
+import { OpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { RuleBasedProvider } from "./ruleBasedProvider";
+import { GenerateRequest, LLMConfig, LLMProvider } from "./types";
+import { CancelledError, replySink, tokenStream } from "./stream";
+
+export type { GenerateRequest, LLMConfig, LLMProvider } from "./types";
+export { getLLMConfig } from "./config";
+export { parseMessage } from "./ruleBasedProvider";
+
+export function createProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case "openai":
+      return new OpenAICompatibleProvider(config);
+    case "rules":
+      return new RuleBasedProvider();
+    case "ollama":
+    default:
+      return new OllamaProvider(config);
+  }
+}
+
+let cached: { config: LLMConfig; primary: LLMProvider; fallback: LLMProvider | null } | null = null;
+
+function providers() {
+  if (!cached) {
+    const config = getLLMConfig();
+    const primary = createProvider(config);
+    const fallback = config.fallbackToRules && primary.name !== "rules" ? new RuleBasedProvider() : null;
+    cached = { config, primary, fallback };
+  }
+  return cached;
+}
+
+// Sends a request to the configured provider. If it fails and the request carries the
+// user's message, the rule-based parser answers instead so logging keeps working offline.
+// While a reply is streaming (see stream.ts) the output goes to the user as it arrives,
+// and cancelling aborts the call.
+export async function generate(original: GenerateRequest): Promise<string> {
+  const { primary, fallback } = providers();
+  const sink = replySink();
+  const request: GenerateRequest = sink
+    ? { ...original, onToken: original.onToken ?? tokenStream(sink, !!original.json), signal: original.signal ?? sink.signal }
+    : original;
+  try {
+    return await primary.generate(request);
+  } catch (err) {
+    if (request.signal?.aborted) throw new CancelledError();
+    if (!fallback || !request.userMessage) throw err;
+    console.warn(`⚠️ LLM provider "${primary.name}" failed, using rule-based fallback:`, err);
+    return fallback.generate(request);
+  }
+}
+
+// Whether the configured provider can write free text. The rule-based provider only
+// parses chat messages, so callers that want phrased prose use their own text instead.
+export function canPhrase(): boolean {
+  return providers().primary.name !== "rules";
+}
+
+// Strips markdown fences and parses the model's reply as JSON.
+export function parseModelJson(text: string): any {
+  const sanitizedResponse = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  return JSON.parse(sanitizedResponse);
+}
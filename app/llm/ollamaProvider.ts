@@ -0,0 +1,55 @@
+// ollamaProvider.ts
+
+import { GenerateRequest, LLMConfig, LLMProvider } from "./types";
+import { timeoutSignal } from "./stream";
+
+export class OllamaProvider implements LLMProvider {
+  readonly name = "ollama";
+
+  constructor(private readonly config: LLMConfig) {}
+
+  async generate({ prompt, json, onToken, signal }: GenerateRequest): Promise<string> {
+    const res = await fetch(`${this.config.baseUrl}/api/generate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: this.config.model,
+        prompt,
+        stream: !!onToken,
+        ...(json ? { format: "json" } : {}),
+        options: { temperature: this.config.temperature },
+      }),
+      signal: timeoutSignal(this.config.timeoutMs, signal),
+    });
+    if (!res.ok) throw new Error(`Ollama server responded with status: ${res.status}`);
+    if (!onToken || !res.body) {
+      const data = await res.json();
+      return data.response;
+    }
+
+    // Streamed replies arrive as one JSON object per line, each with the next piece of text.
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = "";
+    let text = "";
+    const take = (line: string) => {
+      if (!line.trim()) return;
+      const part = JSON.parse(line);
+      if (part.error) throw new Error(`Ollama error: ${part.error}`);
+      if (part.response) {
+        text += part.response;
+        onToken(part.response);
+      }
+    };
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split("\n");
+      pending = lines.pop() ?? "";
+      lines.forEach(take);
+    }
+    take(pending + decoder.decode());
+    return text;
+  }
+}
@@ -0,0 +1,47 @@
+// openAICompatibleProvider.ts
+
+import OpenAI from "openai";
+import { GenerateRequest, LLMConfig, LLMProvider } from "./types";
+
+// Works with OpenAI itself and any server exposing the same chat completions API
+// (LM Studio, vLLM, llama.cpp server, OpenRouter, ...).
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  private readonly client: OpenAI;
+
+  constructor(private readonly config: LLMConfig) {
+    this.client = new OpenAI({
+      baseURL: config.baseUrl,
+      // Local servers usually ignore the key, but the SDK requires one.
+      apiKey: config.apiKey || "not-needed",
+      timeout: config.timeoutMs,
+      maxRetries: 0,
+    });
+  }
+
+  async generate({ prompt, onToken, signal }: GenerateRequest): Promise<string> {
+    const request = {
+      model: this.config.model,
+      messages: [{ role: "user" as const, content: prompt }],
+      temperature: this.config.temperature,
+    };
+    if (onToken) {
+      const stream = await this.client.chat.completions.create({ ...request, stream: true }, { signal });
+      let text = "";
+      for await (const part of stream) {
+        const delta = part.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onToken(delta);
+        }
+      }
+      if (!text) throw new Error("OpenAI-compatible server returned an empty completion");
+      return text;
+    }
+
+    const completion = await this.client.chat.completions.create(request, { signal });
+    const text = completion.choices[0]?.message?.content;
+    if (!text) throw new Error("OpenAI-compatible server returned an empty completion");
+    return text;
+  }
+}
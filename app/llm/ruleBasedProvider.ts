@@ -0,0 +1,389 @@
+// ruleBasedProvider.ts
+
+import { format, subDays } from "date-fns";
+import { CategoryKey, categoryKeys, getCurrencySettings, getGoals, IncomeCategoryKey, TransactionType } from "@/app/expenseStore";
+import { formatMoney, normalizeCurrency } from "@/app/currency";
+import { GenerateRequest, LLMProvider } from "./types";
+
+// --- Keyword Tables ---
+// Checked in order, so more specific categories come before broad ones like Food.
+// Keywords only apply while their category is active; user-created categories are
+// matched by name (see matchByName).
+const CATEGORY_KEYWORDS: [CategoryKey, RegExp][] = [
+  ["Coffee", /\b(coffee|latte|cappuccino|espresso|starbucks|chai|tea|cafe)\b/i],
+  ["Transport", /\b(transport|travel|uber|ola|rapido|cab|taxi|auto|metro|bus|train|fuel|petrol|diesel|parking|toll|flight)\b/i],
+  ["Bills", /\b(bills|rent|electricity|water|gas|wifi|internet|broadband|phone|mobile|recharge|bill|emi|insurance)\b/i],
+  ["Entertainment", /\b(entertainment|movie|movies|netflix|prime|hotstar|spotify|concert|game|games|party|pub|bar)\b/i],
+  ["Health", /\b(doctor|hospital|pharmacy|medicine|medicines|clinic|dentist|gym|health)\b/i],
+  ["Education", /\b(education|course|book|books|tuition|udemy|coursera|class|exam|school|college)\b/i],
+  ["Shopping", /\b(amazon|flipkart|myntra|shopping|clothes|shirt|shoes|jeans|electronics|gadget)\b/i],
+  ["Food", /\b(food|lunch|dinner|breakfast|snack|snacks|swiggy|zomato|pizza|burger|restaurant|groceries|grocery|biryani)\b/i],
+];
+
+const INCOME_KEYWORDS: [IncomeCategoryKey, RegExp][] = [
+  ["Salary", /\b(salary|paycheck|payday|wages)\b/i],
+  ["Freelance", /\b(freelance|client|invoice|gig)\b/i],
+  ["Refund", /\b(refund|refunded|cashback|reimburse(d|ment)?)\b/i],
+  ["Transfer", /\b(transfer(red)?\s+in|from savings)\b/i],
+  ["Interest", /\b(interest|dividend)\b/i],
+  ["Gift", /\b(gift|gifted)\b/i],
+];
+
+const INCOME_HINT = /\b(salary|paycheck|received|got paid|earned|income|credited|refund|cashback|dividend|interest|freelance)\b/i;
+// "₹500", "$12", "€30", "20 usd", "15 pounds": a currency sign or code before the number, or a code or name after it.
+const CURRENCY_CODES = "inr|usd|eur|gbp|jpy|aud|cad|sgd|aed|chf";
+const AMOUNT = new RegExp(`([$€£¥₹]|\\b(?:rs|${CURRENCY_CODES})\\b\\.?)?\\s*(\\d+(?:,\\d{3})*(?:\\.\\d+)?)\\s*(k)?\\b(?:\\s*(${CURRENCY_CODES}|rupees?|dollars?|euros?|pounds?)\\b)?`, "i");
+const CURRENCY_NAMES: Record<string, string> = { rs: "INR", rupee: "INR", dollar: "USD", euro: "EUR", pound: "GBP" };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// A category named in the text wins over keywords, longest name first so
+// "Dining Out" beats "Dining".
+function matchByName(text: string, keys: string[]): string | undefined {
+  return [...keys]
+    .sort((a, b) => b.length - a.length)
+    .find((k) => new RegExp(`(^|[^a-z0-9])${escapeRegExp(k)}([^a-z0-9]|$)`, "i").test(text));
+}
+
+function matchKeywords(text: string, table: [string, RegExp][], type: TransactionType): string | undefined {
+  const active = categoryKeys(type);
+  return matchByName(text, active) ?? table.find(([key, re]) => active.includes(key) && re.test(text))?.[0];
+}
+
+// Also used to auto-categorize imported bank statement rows.
+export function findCategory(text: string): CategoryKey | undefined {
+  return matchKeywords(text, CATEGORY_KEYWORDS, "expense");
+}
+
+export function findIncomeCategory(text: string): IncomeCategoryKey | undefined {
+  return matchKeywords(text, INCOME_KEYWORDS, "income");
+}
+
+function findAmount(text: string): number | null {
+  const m = text.match(AMOUNT);
+  if (!m) return null;
+  const value = Number(m[2].replace(/,/g, ""));
+  return m[3] ? value * 1000 : value;
+}
+
+// The currency named with the amount, if any; the app converts it to the base currency.
+function findCurrency(text: string): string | undefined {
+  const m = text.match(AMOUNT);
+  const named = (m?.[1] ?? m?.[4])?.toLowerCase().replace(/\.$/, "");
+  if (!named) return undefined;
+  return CURRENCY_NAMES[named] ?? CURRENCY_NAMES[named.replace(/s$/, "")] ?? normalizeCurrency(named);
+}
+
+// How replies echo an amount: in the currency it was given in, else the base currency.
+function money(amount: number, currency?: string): string {
+  return formatMoney(amount, currency ?? getCurrencySettings().base, !Number.isInteger(amount));
+}
+
+function findDate(text: string, now: Date): string {
+  if (/\byesterday\b/i.test(text)) return format(subDays(now, 1), "dd-MM-yyyy");
+  return format(now, "dd-MM-yyyy");
+}
+
+// Undefined when no period is named, so the period the user is viewing applies.
+function findPeriod(text: string): string | undefined {
+  if (/\blast month\b/i.test(text)) return "last_month";
+  if (/\bthis week\b/i.test(text)) return "this_week";
+  if (/\blast week\b/i.test(text)) return "last_week";
+  if (/\btoday\b/i.test(text)) return "today";
+  if (/\b(this year|year to date|ytd)\b/i.test(text)) return "this_year";
+  if (/\bthis month\b/i.test(text)) return "this_month";
+  return undefined;
+}
+
+// "by March" / "by March 2027"; goals.ts turns the month into its last day.
+function findDeadline(text: string): string | undefined {
+  return text.match(/\bby ((?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*(?: \d{4})?)\b/i)?.[1];
+}
+
+// A goal named in full, or by one of its longer words ("laptop" for "New laptop").
+function matchGoal(text: string): string | undefined {
+  const names = getGoals().map((g) => g.name);
+  return matchByName(text, names) ?? names.find((name) => name.split(" ").some((word) => word.length > 3 && matchByName(text, [word])));
+}
+
+// "save 80000 for a new laptop by March" → "New laptop".
+function findGoalName(text: string): string | undefined {
+  const name = text.match(/\bfor (?:an? |my |the )?([a-z][a-z0-9 '&-]*?)(?=\s+(?:by|with|putting|saving)\b|[,.!?]|$)/i)?.[1]?.trim();
+  return name ? name.charAt(0).toUpperCase() + name.slice(1) : undefined;
+}
+
+// "two" → 2, "second" / "2nd" → 2.
+const NUMBER_WORDS = ["one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten"];
+const ORDINALS = ["first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth", "tenth"];
+
+function readCount(word: string | undefined): number | undefined {
+  if (!word) return undefined;
+  const lower = word.toLowerCase();
+  if (/^\d+$/.test(lower)) return Number(lower);
+  const index = NUMBER_WORDS.indexOf(lower);
+  return index === -1 ? undefined : index + 1;
+}
+
+// "the second one", "the 3rd", "number 2", "#2": a position in the last list shown.
+function findRef(text: string): number | undefined {
+  const ordinal = text.match(/\b(first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth)\b/i);
+  if (ordinal) return ORDINALS.indexOf(ordinal[1].toLowerCase()) + 1;
+  const numbered = text.match(/\b(\d+)(?:st|nd|rd|th)\b/i) ?? text.match(/(?:\bnumber\s*|\bno\.\s*|#)(\d+)\b/i);
+  return numbered ? Number(numbered[1]) : undefined;
+}
+
+// Whatever is left once the amount and filler words are removed makes a decent note.
+function extractNote(text: string): string | undefined {
+  const note = text
+    .replace(AMOUNT, " ")
+    .replace(/\b(spent|paid|for|on|at|add|log|rupees|rs|inr|yesterday|today|every|month|monthly|week|weekly|year|yearly|got|my|of|received|a|an|the)\b/gi, " ")
+    .replace(/[^a-z0-9\s'&-]/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return note || undefined;
+}
+
+// "split 4 ways", "split with Raj and Priya", "shared with 3 friends" at the end of an item.
+// The clause is taken out so its numbers and names stay out of the amount and the note.
+const SPLIT_CLAUSE = /\b(?:split|shared?)(?:\s+(?:it|the bill))?(?:\s+(\w+)\s+ways)?(?:\s+with\s+(.+?))?[.!]?$/i;
+
+function takeSplit(text: string): { text: string; split?: { people?: number; with?: string[] } } {
+  const m = text.match(SPLIT_CLAUSE);
+  if (!m || m.index === undefined) return { text };
+  const ways = readCount(m[1]);
+  const counted = m[2]?.match(/^(\w+)\s+(?:friends|others|people|colleagues)$/i);
+  let split: { people?: number; with?: string[] } | undefined;
+  if (counted && readCount(counted[1])) split = { people: readCount(counted[1])! + 1 };
+  else if (m[2]) {
+    const names = m[2].split(/\s*,\s*|\s+and\s+|\s*&\s*/i).filter(Boolean).map((n) => n.charAt(0).toUpperCase() + n.slice(1));
+    split = { people: ways, with: names };
+  } else if (ways) split = { people: ways };
+  return split ? { text: text.slice(0, m.index).trim(), split } : { text };
+}
+
+// "200 uber, 450 lunch and 120 coffee" → one part per expense. Only used when every part
+// has an amount of its own, so "coffee and cake 200" stays a single expense.
+function splitItems(text: string): string[] {
+  const parts: string[] = [];
+  text.split(/\s*;\s*|,\s+|\s*\+\s*/).forEach((segment) => {
+    const clause = segment.match(SPLIT_CLAUSE);
+    const head = clause?.index !== undefined ? segment.slice(0, clause.index) : segment;
+    const pieces = head.split(/\s+and\s+/i);
+    if (clause?.index !== undefined) pieces[pieces.length - 1] += segment.slice(clause.index);
+    parts.push(...pieces.map((p) => p.trim()).filter(Boolean));
+  });
+  return parts.every((p) => findAmount(takeSplit(p).text) !== null) ? parts : [text];
+}
+
+function expenseItem(part: string, date: string) {
+  const { text, split } = takeSplit(part);
+  const category = findCategory(text) ?? "Other";
+  return { amount: findAmount(text)!, currency: findCurrency(text), category, note: extractNote(text), date, split };
+}
+
+const OFFLINE_NOTE = "(I'm in offline mode, so I can only handle simple requests right now.)";
+
+// --- Parser ---
+// Turns common phrasings into the same JSON shape the model would return.
+export function parseMessage(message: string, now = new Date()): object {
+  const text = message.trim();
+  const amount = findAmount(text);
+  const currency = findCurrency(text);
+  const category = findCategory(text);
+
+  // "undo" / "undo the last two"
+  if (/^(undo|revert|take (that|it) back)\b/i.test(text)) {
+    const count = readCount(text.match(/\blast (\w+)/i)?.[1]) ?? 1;
+    return { intent: "undo", execution_status: "SUCCESS", data: { count }, reply: "" };
+  }
+
+  // "show my last 5 expenses" / "list food transactions this week"
+  const listing = text.match(/^(?:show|list)\b.*?\b(?:last|latest|recent)?\s*(\w+)?\s*(expenses?|transactions?|spends?|income|payments?)\b/i);
+  if (listing && !/\b(how much|total|summary)\b/i.test(text)) {
+    const type = /^income$/i.test(listing[2]) ? "income" : /^transactions?$/i.test(listing[2]) ? undefined : "expense";
+    return {
+      intent: "list_transactions",
+      execution_status: "SUCCESS",
+      data: { type, category: type === "income" ? findIncomeCategory(text) : category, period: findPeriod(text), limit: readCount(listing[1]) },
+      reply: "",
+    };
+  }
+
+  // "delete the second one" / "remove that"
+  const ref = findRef(text);
+  if (/^(delete|remove)\b/i.test(text) && (ref !== undefined || /\b(it|that|last)\b/i.test(text))) {
+    return { intent: "delete_transaction", execution_status: "SUCCESS", data: { ref }, reply: "", confidence: 0.9 };
+  }
+
+  // "make the second one 300"
+  if (ref !== undefined && /\b(change|make|update|correct)\b/i.test(text) && amount !== null && /\b(one|item|entry|transaction)\b/i.test(text)) {
+    return {
+      intent: "update_last_expense",
+      execution_status: "SUCCESS",
+      data: { ref, amount, currency },
+      reply: `✅ Updated transaction #${ref} to ${money(amount, currency)}.`,
+      confidence: 0.9,
+    };
+  }
+
+  // "set my food budget to 5000" / "set total budget to 60000"
+  if (/\bbudget\b/i.test(text) && /\b(set|change|update|make)\b/i.test(text) && amount !== null) {
+    const budgetCategory = category ?? "total";
+    const next = text.match(/\bnext (week|month|year)\b/i);
+    const period = next ? `next_${next[1].toLowerCase()}` : findPeriod(text);
+    return {
+      intent: "set_budget",
+      execution_status: "SUCCESS",
+      data: { category: budgetCategory, amount, period },
+      reply: `✅ Done. Your ${budgetCategory === "total" ? "total" : budgetCategory} budget${next ? ` for ${next[0].toLowerCase()}` : ""} is now ${money(amount)}.`,
+      confidence: 0.9,
+    };
+  }
+
+  // "how much do I need to cut from shopping to hit my laptop goal by March?" / "how's my laptop goal?"
+  const goal = matchGoal(text);
+  if (/\bgoals?\b/i.test(text) || (goal && /\?$/.test(text))) {
+    if (/\b(cut|reduce|trim|to (hit|reach|make))\b/i.test(text)) {
+      return { intent: "goal_plan", execution_status: "SUCCESS", data: { goal, category, deadline: findDeadline(text) }, reply: "" };
+    }
+    if (amount === null) {
+      return { intent: "goal_progress", execution_status: "SUCCESS", data: { goal }, reply: "" };
+    }
+  }
+
+  // "save 80000 for a laptop by March, putting aside 10000 a month"
+  if (amount !== null && /\b(save|saving|goal)\b/i.test(text) && !/\bhow\b/i.test(text)) {
+    const name = findGoalName(text);
+    const monthly = text.match(/(\d+(?:,\d{3})*)\s*(k)?\s*(?:a|per|each|every)\s+month\b/i);
+    if (name) {
+      return {
+        intent: "add_goal",
+        execution_status: "SUCCESS",
+        data: { name, target: amount, deadline: findDeadline(text), monthly_contribution: monthly ? findAmount(monthly[0]) : undefined },
+        reply: `🎯 Goal set: ${name}, ${money(amount)}.`,
+        confidence: 0.9,
+      };
+    }
+  }
+
+  // "oops, change it to 250" / "make that 300"
+  if (/\b(change|make|update|correct)\b.*\b(it|that|last)\b/i.test(text) && amount !== null) {
+    return {
+      intent: "update_last_expense",
+      execution_status: "SUCCESS",
+      data: { amount, currency },
+      reply: `✅ Updated your last transaction to ${money(amount, currency)}.`,
+      confidence: 0.9,
+    };
+  }
+
+  // "compare shopping vs entertainment" / "this month vs last month"
+  if (/\b(vs|versus|compare|compared)\b/i.test(text)) {
+    const active = categoryKeys("expense");
+    const categories = active.filter((key) => matchByName(text, [key]) || CATEGORY_KEYWORDS.some(([k, re]) => k === key && re.test(text)));
+    const data = categories.length >= 2
+      ? { summary_type: "compare_categories", categories: categories.slice(0, 2), period: findPeriod(text) }
+      : { summary_type: "compare_periods", category, periods: ["this_month", "last_month"] };
+    return { intent: "get_summary", execution_status: "SUCCESS", data, reply: "" };
+  }
+
+  // "will I stay under budget?" / "am I on track with food this month?"
+  if (/\b(stay (under|within)|on track|forecast|month[- ]end|end of (the )?month|go over)\b/i.test(text)) {
+    return { intent: "get_advice", execution_status: "SUCCESS", data: { goal: null, category }, reply: "" };
+  }
+
+  // "how much did I spend on food last month?"
+  if (/\b(how much|total|summary|spent so far|spending)\b/i.test(text) && /\?|\bhow\b|\bshow\b|\bwhat\b|\bsummary\b/i.test(text)) {
+    const period = findPeriod(text);
+    if (/\b(earn|earned|income|received)\b/i.test(text)) {
+      return { intent: "get_summary", execution_status: "SUCCESS", data: { summary_type: "income_total", period }, reply: "" };
+    }
+    if (/\b(left|remaining)\b/i.test(text)) {
+      return { intent: "get_summary", execution_status: "SUCCESS", data: { summary_type: "budget_remaining", category, period }, reply: "" };
+    }
+    if (/\b(by|per|each) tags?\b/i.test(text)) {
+      return { intent: "get_summary", execution_status: "SUCCESS", data: { summary_type: "by_tag", category, period }, reply: "" };
+    }
+    return {
+      intent: "get_summary",
+      execution_status: "SUCCESS",
+      data: { summary_type: category ? "category_total" : "all_spending", category, period },
+      reply: "",
+    };
+  }
+
+  if (/\b(tip|tips|advice|save money|how can i save)\b/i.test(text)) {
+    return {
+      intent: "get_advice",
+      execution_status: "SUCCESS",
+      data: { goal: amount },
+      reply: `💡 Start with your largest category this month and set a budget for it — small caps on frequent spends add up fast. ${OFFLINE_NOTE}`,
+    };
+  }
+
+  if (amount === null || amount <= 0) {
+    return {
+      intent: "unknown",
+      execution_status: "CLARIFICATION_NEEDED",
+      data: {},
+      reply: `🤔 I couldn't find an amount. Try something like "150 for coffee". ${OFFLINE_NOTE}`,
+    };
+  }
+
+  const note = extractNote(text);
+
+  // "add netflix 649 every month"
+  const cadence = /\b(every week|weekly)\b/i.test(text) ? "weekly" : /\b(every year|yearly|annually)\b/i.test(text) ? "yearly" : /\b(every month|monthly)\b/i.test(text) ? "monthly" : null;
+  if (cadence) {
+    return {
+      intent: "add_recurring",
+      execution_status: "SUCCESS",
+      data: { amount, category: category ?? "Bills", note, cadence },
+      reply: `🔁 Got it — ${money(amount)} for ${note ?? "this bill"}, ${cadence}.`,
+      confidence: category ? 0.9 : 0.5,
+    };
+  }
+
+  if (INCOME_HINT.test(text)) {
+    const found = findIncomeCategory(text);
+    const incomeCategory = found ?? "Other Income";
+    return {
+      intent: "log_income",
+      execution_status: "SUCCESS",
+      data: { amount, currency, category: incomeCategory, note, date: findDate(text, now) },
+      reply: `💰 Logged ${money(amount, currency)} of ${incomeCategory} income.`,
+      confidence: found ? 0.9 : 0.5,
+    };
+  }
+
+  // "200 uber, 450 lunch and 120 coffee" and shared bills are shown on a card to confirm.
+  const date = findDate(text, now);
+  const items = splitItems(text).map((part) => expenseItem(part, date));
+  if (items.length > 1) {
+    return { intent: "log_expenses", execution_status: "SUCCESS", data: { items }, reply: "" };
+  }
+
+  // A category guessed from a keyword is a fair read; one that fell back to "Other" isn't.
+  const item = expenseItem(text, date);
+  return {
+    intent: "log_expense",
+    execution_status: "SUCCESS",
+    data: item,
+    reply: `✅ Logged ${money(item.amount, item.currency)}${item.note ? ` for ${item.note}` : ""} under ${item.category}.`,
+    confidence: category ? 0.9 : 0.5,
+  };
+}
+
+// A deterministic "model" for when no LLM server is reachable. It only understands
+// the user's message, not free-form prompts, so phrasing requests are refused and
+// callers fall back to their own plain-text replies.
+export class RuleBasedProvider implements LLMProvider {
+  readonly name = "rules";
+
+  async generate({ userMessage }: GenerateRequest): Promise<string> {
+    if (!userMessage) throw new Error("The rule-based provider can only parse chat messages");
+    return JSON.stringify(parseMessage(userMessage));
+  }
+}
@@ -0,0 +1,150 @@
+// stream.ts
+
+import { AsyncLocalStorage } from "async_hooks";
+
+// --- Reply Sink ---
+// Where a chat reply streams while the model writes it. Like the current user (see
+// runAsUser in app/accounts.ts) it belongs to the request, so generate() picks it up
+// without every caller passing it along.
+export type ReplySink = {
+  signal: AbortSignal; // Aborted when the user cancels or goes away
+  token(text: string): void; // More of the reply
+  reset(): void; // The text streamed so far is about to be replaced
+};
+
+const currentSink = new AsyncLocalStorage<ReplySink>();
+
+export function replySink(): ReplySink | undefined {
+  return currentSink.getStore();
+}
+
+export class CancelledError extends Error {
+  constructor() {
+    super("The request was cancelled.");
+    this.name = "CancelledError";
+  }
+}
+
+// Call before changing anything: once the user has cancelled, nothing may be applied.
+export function throwIfCancelled() {
+  if (replySink()?.signal.aborted) throw new CancelledError();
+}
+
+// Aborts on whichever comes first, the timeout or `signal`.
+export function timeoutSignal(ms: number, signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(ms);
+  if (!signal) return timeout;
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  [timeout, signal].forEach((s) => (s.aborted ? abort() : s.addEventListener("abort", abort, { once: true })));
+  return controller.signal;
+}
+
+// --- Partial JSON ---
+// The decoded "reply" string of a JSON object that is still arriving, so only the part
+// meant for the user streams. An escape cut off at the end waits for the next chunk.
+export function partialReply(json: string): string {
+  const start = json.match(/"reply"\s*:\s*"/);
+  if (!start || start.index === undefined) return "";
+  const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f", '"': '"', "\\": "\\", "/": "/" };
+  let text = "";
+  for (let i = start.index + start[0].length; i < json.length; i++) {
+    const ch = json[i];
+    if (ch === '"') break;
+    if (ch !== "\\") {
+      text += ch;
+      continue;
+    }
+    const next = json[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = json.slice(i + 2, i + 6);
+      if (!/^[0-9a-f]{4}$/i.test(hex)) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      text += escapes[next] ?? next;
+      i += 1;
+    }
+  }
+  return text;
+}
+
+// Turns the raw chunks of one generate() call into reply tokens for the sink: the "reply"
+// field of a JSON answer, or everything for plain text.
+export function tokenStream(sink: ReplySink, json: boolean): (chunk: string) => void {
+  sink.reset();
+  let raw = "";
+  let sent = 0;
+  return (chunk) => {
+    raw += chunk;
+    if (!json) {
+      sink.token(chunk);
+      return;
+    }
+    const reply = partialReply(raw);
+    if (reply.length > sent) {
+      sink.token(reply.slice(sent));
+      sent = reply.length;
+    }
+  };
+}
+
+// --- Server-Sent Events ---
+// Streams a chat answer: "token" events carry the reply as it is written and "reset"
+// drops what was shown when a later model call rewrites it (a repaired answer, or a
+// summary phrased from computed figures). "done" carries the same body the JSON response
+// would have had, sent only after everything was applied. If the client goes away the
+// model call is aborted and `work` must not change anything (see throwIfCancelled).
+export function streamReply(req: Request, work: () => Promise<object>): Response {
+  const encoder = new TextEncoder();
+  const cancel = new AbortController();
+  req.signal?.addEventListener("abort", () => cancel.abort(), { once: true });
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: object) => {
+        if (!cancel.signal.aborted) controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      let streamed = false;
+      const sink: ReplySink = {
+        signal: cancel.signal,
+        token: (text) => {
+          streamed = true;
+          send("token", { text });
+        },
+        reset: () => {
+          if (streamed) send("reset", {});
+          streamed = false;
+        },
+      };
+      currentSink.run(sink, async () => {
+        try {
+          send("done", await work());
+        } catch (err) {
+          if (!(err instanceof CancelledError)) {
+            console.error("❌ Streamed reply failed:", err);
+            send("error", { error: "Something went wrong while answering." });
+          }
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Already cancelled by the client.
+          }
+        }
+      });
+    },
+    cancel() {
+      cancel.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: { "Content-Type": "text/event-stream; charset=utf-8", "Cache-Control": "no-cache, no-transform", Connection: "keep-alive" },
+  });
+}
+
+export function wantsStream(req: Request): boolean {
+  return (req.headers.get("accept") ?? "").includes("text/event-stream");
+}
@@ -0,0 +1,45 @@
+// structured.ts
+
+import { generate, parseModelJson } from "./index";
+import { GenerateRequest } from "./types";
+
+type Validator<T> = (raw: unknown) => { ok: true; value: T } | { ok: false; errors: string[] };
+
+export type StructuredResult<T> = { ok: true; value: T; repaired: boolean } | { ok: false; errors: string[] };
+
+function attempt<T>(text: string, validate: Validator<T>): { ok: true; value: T } | { ok: false; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = parseModelJson(text);
+  } catch (err) {
+    return { ok: false, errors: [`The response was not valid JSON: ${(err as Error).message}`] };
+  }
+  return validate(raw);
+}
+
+// Generates a JSON reply and validates it. If it fails, the model gets exactly one
+// chance to repair it, with its previous output and the validation errors in the prompt.
+export async function generateValidated<T>(request: GenerateRequest, validate: Validator<T>): Promise<StructuredResult<T>> {
+  const first = await generate({ ...request, json: true });
+  const firstResult = attempt(first, validate);
+  if (firstResult.ok) return { ...firstResult, repaired: false };
+
+  console.warn("⚠️ Model output failed validation, asking for a repair:", firstResult.errors);
+  const repairPrompt = `${request.prompt}
+
+---
+Your previous response was:
+${first}
+
+It is invalid for these reasons:
+${firstResult.errors.map((e) => `- ${e}`).join("\n")}
+
+Return the corrected response as a single valid JSON object, with no other text.`;
+
+  const second = await generate({ ...request, prompt: repairPrompt, json: true });
+  const secondResult = attempt(second, validate);
+  if (secondResult.ok) return { ...secondResult, repaired: true };
+
+  console.error("❌ Model output still invalid after repair:", secondResult.errors);
+  return secondResult;
+}
@@ -0,0 +1,32 @@
+// types.ts
+
+export type GenerateRequest = {
+  prompt: string;
+  // The user's raw chat message. Providers that don't understand prompts (the
+  // rule-based parser) work from this instead.
+  userMessage?: string;
+  // Ask for a JSON object. Providers with a native JSON mode (Ollama's `format`) use it.
+  json?: boolean;
+  // Streaming providers pass each chunk of raw output here as it arrives (see stream.ts).
+  onToken?: (chunk: string) => void;
+  // Aborts the upstream call, e.g. when the user cancels.
+  signal?: AbortSignal;
+};
+
+export interface LLMProvider {
+  readonly name: string;
+  generate(request: GenerateRequest): Promise<string>;
+}
+
+export type LLMProviderName = "ollama" | "openai" | "rules";
+
+export type LLMConfig = {
+  provider: LLMProviderName;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+  temperature: number;
+  // When the configured provider fails, parse the message with the rule-based provider instead.
+  fallbackToRules: boolean;
+};
@@ -5,14 +5,20 @@ import React, {
   useEffect,
   useMemo,
   useRef,
+  useContext,
+  createContext,
   ReactNode,
 } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
+  Area,
+  AreaChart,
   Bar,
   BarChart,
   CartesianGrid,
   Cell,
+  Line,
+  LineChart,
   Pie,
   PieChart,
   ResponsiveContainer,
@@ -37,63 +43,366 @@ import {
   Wallet,
   X,
   Gift,
+  Briefcase,
+  Laptop,
+  RotateCcw,
+  ArrowDownLeft,
+  Landmark,
+  TrendingUp,
+  PiggyBank,
+  CalendarClock,
+  Pencil,
+  Trash2,
+  Check,
+  Undo2,
+  ChevronLeft,
+  ChevronRight,
+  Upload,
+  Tag,
+  Download,
+  FileText,
+  Settings2,
+  Home,
+  Car,
+  Plane,
+  Utensils,
+  Shirt,
+  Baby,
+  Dog,
+  Gamepad2,
+  Music,
+  Phone,
+  Zap,
+  Wifi,
+  Film,
+  Dumbbell,
+  Pill,
+  GraduationCap,
+  Bell,
+  Coins,
+  LogOut,
+  Square,
+  Users,
 } from "lucide-react";
-import { format, parse } from "date-fns";
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  format,
+  isSameMonth,
+  isValid,
+  parse,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+} from "date-fns";
 
 // ---------------- Types (Synced with Backend) ----------------
-type CategoryKey =
-  | "Food"
-  | "Transport"
-  | "Shopping"
-  | "Bills"
-  | "Coffee"
-  | "Entertainment"
-  | "Health"
-  | "Education"
-  | "Other";
+// Categories are data from the server; a key is the category's name.
+type CategoryKey = string;
+type IncomeCategoryKey = string;
+
+type TransactionType = "expense" | "income";
+
+type Category = { key: string; type: TransactionType; icon: string; color: string; archived?: boolean; parent?: string };
 
 type Expense = {
   id: string;
+  type: TransactionType;
   amount: number;
-  category: CategoryKey;
+  category: CategoryKey | IncomeCategoryKey;
   note?: string;
   date: string; // dd-MM-yyyy format from API
+  tags?: string[];
+  currency?: string; // Set when entered in another currency; `amount` is always in the base currency
+  originalAmount?: number;
+  split?: BillSplit; // `amount` is the user's share of a shared bill
 };
 
+// Mirrors app/splits.ts.
+type BillSplit = { people: number; with?: string[]; total: number };
+
+// `currency: null` switches an entry back to the base currency.
+type ExpenseChanges = Omit<Partial<Expense>, "currency"> & { currency?: string | null };
+
 type BudgetMap = Partial<Record<CategoryKey, number>> & { total?: number };
 
+type UpcomingBill = {
+  ruleId: string;
+  amount: number;
+  category: CategoryKey;
+  note?: string;
+  cadence: "weekly" | "monthly" | "yearly" | "custom";
+  dueDate: string; // dd-MM-yyyy
+  daysUntil: number;
+};
+
+// Mirrors app/budgets.ts.
+type BudgetCadence = "weekly" | "monthly" | "yearly";
+type BudgetSettings = { cadence: BudgetCadence; rollover: Record<string, string> };
+type BudgetStatus = { label: string; cadence: BudgetCadence; periods: { key: string; label: string }[]; budget: BudgetMap; carried: BudgetMap; available: BudgetMap; spent: BudgetMap; rollover: string[] };
+
+// Mirrors BudgetAlert and AlertSettings in expenseStore.ts.
+type BudgetAlert = { id: string; kind: "threshold" | "forecast"; key: string; period: string; threshold?: number; percent: number; message: string; createdAt: string; read?: boolean };
+type AlertSettings = { defaults: number[]; thresholds: Record<string, number[]>; forecast: boolean; browser: boolean };
+
+// Mirrors SpendingForecast in forecast.ts.
+type KeyForecast = { key: string; spent: number; billsDue: number; projected: number; low: number; high: number; budget?: number; status?: "under" | "at_risk" | "over" };
+type SpendingForecast = { month: string; monthEnd: string; daysElapsed: number; daysInMonth: number; total: KeyForecast; categories: KeyForecast[] };
+
+// Mirrors GoalProgress in goals.ts.
+type GoalProgress = { id: string; name: string; target: number; deadline?: string; monthlyContribution?: number; startDate: string; saved: number; remaining: number; percent: number; pace: number; monthsLeft?: number; neededPerMonth?: number; onTrack?: boolean; projectedDate?: string };
+
+type User = { id: string; username: string };
+
+type ExchangeRate = { id: string; from: string; to: string; rate: number; date: string };
+type CurrencySettings = { base: string; rates: ExchangeRate[] };
+
+type ServerData = { expenses: Expense[]; budget: BudgetMap; upcomingBills: UpcomingBill[]; categories: Category[]; budgetSettings: BudgetSettings; currency: CurrencySettings };
+
+// The slice of history the dashboard is showing.
+type DashboardPeriod =
+  | { kind: "month"; month: Date }
+  | { kind: "ytd" }
+  | { kind: "range"; from: string; to: string }; // yyyy-MM-dd, as <input type="date"> gives them
+
+type Toast = { message: string; undo?: () => void; onExpire?: () => void };
+
+type DataUpdate = { expenses?: Expense[]; budget?: BudgetMap; upcomingBills?: UpcomingBill[]; categories?: Category[]; budgetSettings?: BudgetSettings; goals?: GoalProgress[]; currency?: CurrencySettings };
+
+// Mirrors app/importer.ts.
+type ColumnMapping = { date: number; amount?: number; debit?: number; credit?: number; description?: number; category?: number };
+type ImportRow = { line: number; expense?: Omit<Expense, "id">; duplicate: boolean; errors: string[] };
+type ImportPreview = { format: "csv" | "ofx" | "qif"; headers: string[]; mapping: ColumnMapping; dateFormat: string | null; rows: ImportRow[] };
+
 type Message = {
     id: string;
     sender: 'user' | 'bot';
     content: ReactNode;
 };
 
+// A chat change held until it's confirmed; mirrors PendingCard in app/pendingActions.ts.
+type PendingChange = { id: string } & (
+  | { kind: 'log_expenses'; expenses: Expense[] }
+  | { kind: 'update_expense'; before: Expense; after: Expense }
+  | { kind: 'set_budget'; key: string; period: string; before?: number; amount: number }
+  | { kind: 'log_income'; income: Expense }
+  | { kind: 'add_recurring'; rule: { amount: number; category: CategoryKey; note?: string; cadence: string; dayOfMonth?: number; startDate: string; endDate?: string } }
+  | { kind: 'delete_expense'; expense: Expense }
+  | { kind: 'add_goal'; goal: { name: string; target: number; deadline?: string; monthlyContribution?: number } }
+);
+
+// Mirrors ConfirmSettings in expenseStore.ts.
+type ConfirmSettings = { autoCommit: boolean; minConfidence: number; maxAmount?: number };
+
+// A stored chat turn, as /api/conversations/:id returns it.
+type ChatTurn = { id: string; role: 'user' | 'assistant'; content: string; summaryData?: { category: string; total: number }[]; pending?: PendingChange };
+
 // ---------------- Helpers & Constants (Synced with Backend) ----------------
-const CATEGORIES: { key: CategoryKey; icon: ReactNode }[] = [
-  { key: "Food", icon: <ShoppingBag className="h-4 w-4" /> },
-  { key: "Transport", icon: <Bus className="h-4 w-4" /> },
-  { key: "Shopping", icon: <ShoppingBag className="h-4 w-4" /> },
-  { key: "Bills", icon: <Receipt className="h-4 w-4" /> },
-  { key: "Coffee", icon: <Coffee className="h-4 w-4" /> },
-  { key: "Entertainment", icon: <Gift className="h-4 w-4" /> },
-  { key: "Health", icon: <HeartPulse className="h-4 w-4" /> },
-  { key: "Education", icon: <BookOpen className="h-4 w-4" /> },
-  { key: "Other", icon: <Sparkles className="h-4 w-4" /> },
-];
+// Icon names stored on a category (CATEGORY_ICONS in expenseStore.ts) and what they draw.
+const CATEGORY_ICONS: Record<string, React.ElementType> = {
+  "shopping-bag": ShoppingBag, "bus": Bus, "receipt": Receipt, "coffee": Coffee, "gift": Gift,
+  "heart-pulse": HeartPulse, "book-open": BookOpen, "sparkles": Sparkles, "briefcase": Briefcase,
+  "laptop": Laptop, "rotate-ccw": RotateCcw, "arrow-down-left": ArrowDownLeft, "landmark": Landmark,
+  "trending-up": TrendingUp, "home": Home, "car": Car, "plane": Plane, "utensils": Utensils,
+  "shirt": Shirt, "baby": Baby, "dog": Dog, "gamepad": Gamepad2, "music": Music, "phone": Phone,
+  "zap": Zap, "wifi": Wifi, "film": Film, "dumbbell": Dumbbell, "pill": Pill,
+  "graduation-cap": GraduationCap, "piggy-bank": PiggyBank, "wallet": Wallet,
+};
 
 const CATEGORY_COLORS = [ "#8b5cf6", "#06b6d4", "#10b981", "#f59e0b", "#ef4444", "#14b8a6", "#f43f5e", "#3b82f6", "#84cc16", "#a855f7" ];
 
-function formatCurrency(n: number) {
-  return new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(n);
+// Sub-category → parent, so totals and budgets roll up the hierarchy (mirrors categoryParents()).
+function parentMap(categories: Category[]): Record<string, string> {
+  return Object.fromEntries(categories.filter((c) => c.parent).map((c) => [c.key, c.parent!]));
+}
+
+// Active categories of one type, each parent followed by its sub-categories.
+function orderedCategories(categories: Category[], type: TransactionType): Category[] {
+  const active = categories.filter((c) => c.type === type && !c.archived);
+  return active
+    .filter((c) => !c.parent || !active.some((p) => p.key === c.parent))
+    .flatMap((c) => [c, ...active.filter((child) => child.parent === c.key)]);
+}
+
+// The server's category list, shared with every component that draws or picks a category.
+const CategoryContext = createContext<Category[]>([]);
+
+function useCategories() {
+  const categories = useContext(CategoryContext);
+  return useMemo(() => {
+    const parents = parentMap(categories);
+    return {
+      all: categories,
+      active: (type: TransactionType) => orderedCategories(categories, type),
+      colorOf: (key: string) => categories.find((c) => c.key === key)?.color ?? CATEGORY_COLORS[0],
+      parentOf: (key: string): string | undefined => parents[key],
+      label: (key: string) => (parents[key] ? `${parents[key]} › ${key}` : key),
+    };
+  }, [categories]);
+}
+
+const CategoryIcon = ({ category, className = "h-4 w-4" }: { category: string; className?: string }) => {
+  const { all } = useCategories();
+  const Icon = CATEGORY_ICONS[all.find((c) => c.key === category)?.icon ?? "sparkles"] ?? Sparkles;
+  return <Icon className={className} />;
+};
+
+// Every amount from the server is in the base currency. The page sets this from the
+// currency settings before its children render.
+let baseCurrency = "INR";
+
+// Whole units for the base currency; an entry's original amount keeps its cents.
+function formatCurrency(n: number, currency = baseCurrency) {
+  const digits = currency !== baseCurrency && !Number.isInteger(n) ? 2 : 0;
+  return new Intl.NumberFormat(currency === "INR" ? "en-IN" : "en-US", { style: "currency", currency, minimumFractionDigits: digits, maximumFractionDigits: digits }).format(n);
+}
+
+function currencySymbol(currency = baseCurrency) {
+  return formatCurrency(0, currency).replace(/[\d.,\s]/g, "");
+}
+
+// "Split 4 ways with Raj and Priya"
+function splitLabel(split: BillSplit): string {
+  const names = split.with ?? [];
+  const others = names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names[0];
+  return `Split ${split.people} ways${others ? ` with ${others}` : ""}`;
+}
+
+// Loads the dashboard data from the server. Data that older builds kept only in
+// localStorage is handed to the server once, then removed from the browser.
+async function loadServerData(): Promise<ServerData> {
+  const res = await fetch("/api/entries");
+  if (!res.ok) throw new Error("Failed to load data from server");
+  const data: ServerData = await res.json();
+
+  const legacyExpenses = localStorage.getItem("budget_expenses");
+  const legacyBudget = localStorage.getItem("budget_budget");
+  if (data.expenses.length === 0 && (legacyExpenses || legacyBudget)) {
+    const importRes = await fetch("/api/entries", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        legacy: {
+          expenses: legacyExpenses ? JSON.parse(legacyExpenses) : undefined,
+          budget: legacyBudget ? JSON.parse(legacyBudget) : undefined,
+        },
+      }),
+    });
+    if (importRes.ok) {
+      localStorage.removeItem("budget_expenses");
+      localStorage.removeItem("budget_budget");
+      const imported = await importRes.json();
+      return { ...data, expenses: imported.expenses, budget: imported.budget };
+    }
+  }
+  return data;
+}
+
+// <input type="date"> speaks yyyy-MM-dd; the API speaks dd-MM-yyyy.
+function toInputDate(date: string) {
+  return format(parse(date, "dd-MM-yyyy", new Date()), "yyyy-MM-dd");
+}
+
+function fromInputDate(value: string) {
+  return format(parse(value, "yyyy-MM-dd", new Date()), "dd-MM-yyyy");
+}
+
+function periodRange(period: DashboardPeriod, now = new Date()): { start: Date; end: Date; label: string } {
+  switch (period.kind) {
+    case "ytd":
+      return { start: startOfYear(now), end: endOfDay(now), label: `${format(now, "yyyy")} to date` };
+    case "range": {
+      const start = startOfDay(parse(period.from, "yyyy-MM-dd", now));
+      const end = endOfDay(parse(period.to, "yyyy-MM-dd", now));
+      if (!isValid(start) || !isValid(end)) return periodRange({ kind: "month", month: now }, now);
+      return { start, end, label: `${format(start, "d MMM yyyy")} – ${format(end, "d MMM yyyy")}` };
+    }
+    case "month":
+    default:
+      return { start: startOfMonth(period.month), end: endOfMonth(period.month), label: format(period.month, "MMMM yyyy") };
+  }
+}
+
+// The same period in the form the summary endpoints accept.
+function periodParam(period: DashboardPeriod): string | { from: string; to: string } {
+  switch (period.kind) {
+    case "ytd":
+      return "this_year";
+    case "range":
+      return { from: fromInputDate(period.from), to: fromInputDate(period.to) };
+    case "month":
+    default:
+      return format(period.month, "MMMM yyyy");
+  }
+}
+
+// Query-string form of periodParam, for links to GET endpoints.
+function periodQuery(period: DashboardPeriod): string {
+  const p = periodParam(period);
+  return typeof p === "string" ? `period=${encodeURIComponent(p)}` : `from=${p.from}&to=${p.to}`;
+}
+
+function isInRange(dateString: string, range: { start: Date; end: Date }) {
+  const d = parse(dateString, "dd-MM-yyyy", new Date());
+  return isValid(d) && d >= range.start && d <= range.end;
+}
+
+const CADENCE_NAMES: Record<BudgetCadence, { adjective: string; unit: string }> = {
+  weekly: { adjective: "Weekly", unit: "weeks" },
+  monthly: { adjective: "Monthly", unit: "months" },
+  yearly: { adjective: "Yearly", unit: "years" },
+};
+
+// Mirrors budgetPeriodAt() in budgets.ts, for labelling the period being edited.
+function budgetPeriodLabel(date: Date, cadence: BudgetCadence): string {
+  if (cadence === "weekly") return `Week of ${format(startOfWeek(date, { weekStartsOn: 1 }), "d MMM yyyy")}`;
+  if (cadence === "yearly") return format(date, "yyyy");
+  return format(date, "MMMM yyyy");
 }
 
-function isSameMonth(dateString: string, ref = new Date()) {
-  try {
-    const d = parse(dateString, "dd-MM-yyyy", new Date());
-    return d.getMonth() === ref.getMonth() && d.getFullYear() === ref.getFullYear();
-  } catch {
-    return false;
+// --- Trend Series ---
+type MonthlyPoint = { month: string; total: number; byCategory: Record<CategoryKey, number> };
+type PacePoint = { day: string; spent?: number; pace: number };
+
+// Spending per calendar month (with a per-category breakdown) for the `months` months ending at `endMonth`.
+// Sub-categories are counted under their parent.
+function monthlySeries(expenses: Expense[], endMonth: Date, months = 12, parents: Record<string, string> = {}): MonthlyPoint[] {
+  const points: MonthlyPoint[] = [];
+  for (let i = months - 1; i >= 0; i--) {
+    const start = startOfMonth(addMonths(endMonth, -i));
+    const range = { start, end: endOfMonth(start) };
+    const point: MonthlyPoint = { month: format(start, "MMM yy"), total: 0, byCategory: {} };
+    expenses.forEach((e) => {
+      if (e.type === "income" || !isInRange(e.date, range)) return;
+      const key = parents[e.category] ?? e.category;
+      point.total += e.amount;
+      point.byCategory[key] = (point.byCategory[key] || 0) + e.amount;
+    });
+    points.push(point);
   }
+  return points;
+}
+
+// Running total of spending per day of the period, against a straight line from zero to the budget.
+// Days after today have a pace value but no spend, so the actual line stops where the data does.
+function cumulativeSeries(expenses: Expense[], range: { start: Date; end: Date }, budgetTotal: number, now = new Date()): PacePoint[] {
+  const days = eachDayOfInterval({ start: range.start, end: range.end });
+  const byDay = new Map<string, number>();
+  expenses.forEach((e) => {
+    if (e.type !== "income" && isInRange(e.date, range)) byDay.set(e.date, (byDay.get(e.date) || 0) + e.amount);
+  });
+  let running = 0;
+  return days.map((d, i) => {
+    running += byDay.get(format(d, "dd-MM-yyyy")) || 0;
+    return {
+      day: format(d, "d MMM"),
+      spent: d <= now ? running : undefined,
+      pace: Math.round((budgetTotal * (i + 1)) / days.length),
+    };
+  });
 }
 
 // ---------------- UI Components ----------------
@@ -123,9 +432,12 @@ const Badge = ({ children, className = "", variant = "secondary" }: { children:
 };
 
 // --- NEW COMPONENT: CATEGORY BUDGETS ---
-const CategoryBudgets = ({ byCategory, budget }: { byCategory: { name: CategoryKey, value: number }[], budget: BudgetMap }) => {
-    const spendingMap = new Map(byCategory.map(item => [item.name, item.value]));
-    const budgetedCategories = CATEGORIES.filter(cat => budget[cat.key] !== undefined && budget[cat.key]! > 0);
+// A parent's budget covers its sub-categories' spending as well as its own. `budget` is
+// what the period may spend, including anything `carried` over from earlier periods.
+const CategoryBudgets = ({ expenses, budget, carried }: { expenses: Expense[], budget: BudgetMap, carried: BudgetMap }) => {
+    const { active, parentOf, label } = useCategories();
+    const spentOn = (key: string) => expenses.filter((e) => e.category === key || parentOf(e.category) === key).reduce((a, e) => a + e.amount, 0);
+    const budgetedCategories = active("expense").filter(cat => budget[cat.key] !== undefined && budget[cat.key]! > 0);
 
     if (budgetedCategories.length === 0) {
         return null;
@@ -138,21 +450,27 @@ const CategoryBudgets = ({ byCategory, budget }: { byCategory: { name: CategoryK
                 <CardDescription>Your spending progress for each category.</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-                {budgetedCategories.map(({ key, icon }) => {
-                    const spent = spendingMap.get(key) || 0;
+                {budgetedCategories.map(({ key }) => {
+                    const spent = spentOn(key);
                     const catBudget = budget[key] || 0;
                     const progress = catBudget > 0 ? Math.min(100, (spent / catBudget) * 100) : 0;
                     const remaining = catBudget - spent;
+                    const carry = carried[key] || 0;
 
                     return (
                         <div key={key}>
                             <div className="flex justify-between items-center mb-1">
-                                <span className="text-sm font-medium flex items-center gap-2">{icon} {key}</span>
+                                <span className="text-sm font-medium flex items-center gap-2"><CategoryIcon category={key} /> {label(key)}</span>
                                 <span className={`text-sm font-medium ${remaining < 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
                                     {formatCurrency(spent)} / {formatCurrency(catBudget)}
                                 </span>
                             </div>
                             <Progress value={progress} />
+                            {carry !== 0 && (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                    {carry > 0 ? `Includes ${formatCurrency(carry)} unspent from before` : `Reduced by ${formatCurrency(-carry)} overspent before`}
+                                </p>
+                            )}
                         </div>
                     );
                 })}
@@ -161,59 +479,1329 @@ const CategoryBudgets = ({ byCategory, budget }: { byCategory: { name: CategoryK
     );
 };
 
+// --- Month-end Forecast ---
+// The band is the likely range, the darker bar what's spent so far and the line the budget.
+const FORECAST_STATUS = {
+    under: { label: "On track", className: "bg-emerald-500/15 text-emerald-600" },
+    at_risk: { label: "At risk", className: "bg-amber-500/15 text-amber-600" },
+    over: { label: "Over", className: "bg-red-500/15 text-red-600" },
+};
+
+const ForecastBar = ({ f }: { f: KeyForecast }) => {
+    const scale = Math.max(f.high, f.budget || 0) * 1.05 || 1;
+    const pct = (v: number) => `${Math.min(100, (v / scale) * 100)}%`;
+    return (
+        <div className="relative h-2 w-full rounded-full bg-secondary overflow-hidden">
+            <div className="absolute inset-y-0 bg-primary/25" style={{ left: pct(f.low), width: `calc(${pct(f.high)} - ${pct(f.low)})` }} />
+            <div className="absolute inset-y-0 left-0 bg-primary" style={{ width: pct(f.spent) }} />
+            {f.budget ? <div className="absolute inset-y-0 w-0.5 bg-foreground" style={{ left: pct(f.budget) }} /> : null}
+        </div>
+    );
+};
+
+const ForecastCard = ({ forecast }: { forecast: SpendingForecast | null }) => {
+    const { label } = useCategories();
+    if (!forecast || (forecast.total.projected === 0 && !forecast.total.budget)) return null;
+    const { total } = forecast;
+    const status = total.status && FORECAST_STATUS[total.status];
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2"><TrendingUp />Month-end Forecast</CardTitle>
+                <CardDescription>{forecast.month} · day {forecast.daysElapsed} of {forecast.daysInMonth}, from your pace, bills due and recent months.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div>
+                    <div className="flex items-baseline justify-between mb-1">
+                        <span className="text-2xl font-bold">{formatCurrency(total.projected)}</span>
+                        {status && <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>}
+                    </div>
+                    <ForecastBar f={total} />
+                    <p className="text-xs text-muted-foreground mt-1">
+                        Likely {formatCurrency(total.low)}–{formatCurrency(total.high)}
+                        {total.budget ? ` against ${formatCurrency(total.budget)}` : ""}
+                        {total.billsDue ? ` · ${formatCurrency(total.billsDue)} in bills still due` : ""}
+                    </p>
+                </div>
+                <div className="space-y-3 border-t pt-3">
+                    {forecast.categories.map((f) => (
+                        <div key={f.key}>
+                            <div className="flex items-center justify-between text-sm mb-1">
+                                <span className="flex items-center gap-2"><CategoryIcon category={f.key} /> {label(f.key)}</span>
+                                <span className={f.status === "over" ? "text-destructive font-medium" : f.status === "at_risk" ? "text-amber-600 font-medium" : "text-muted-foreground"}>
+                                    {formatCurrency(f.projected)}{f.budget ? ` / ${formatCurrency(f.budget)}` : ""}
+                                </span>
+                            </div>
+                            <ForecastBar f={f} />
+                        </div>
+                    ))}
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
+// --- Savings Goals ---
+// Progress comes from the server, which funds goals from each month's actual surplus.
+const GoalsCard = ({ goals, onChange }: { goals: GoalProgress[]; onChange: (goals: GoalProgress[]) => void }) => {
+    const [adding, setAdding] = useState(false);
+    const [name, setName] = useState("");
+    const [target, setTarget] = useState("");
+    const [deadline, setDeadline] = useState("");
+    const [monthly, setMonthly] = useState("");
+    const [error, setError] = useState<string | null>(null);
+
+    const create = async () => {
+        setError(null);
+        const res = await fetch("/api/goals", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name, target: Number(target), deadline: deadline ? fromInputDate(deadline) : undefined, monthlyContribution: monthly ? Number(monthly) : undefined }),
+        });
+        const body = await res.json();
+        if (!res.ok) { setError(body.error); return; }
+        onChange(body.goals);
+        setAdding(false);
+        setName(""); setTarget(""); setDeadline(""); setMonthly("");
+    };
+
+    const remove = async (goal: GoalProgress) => {
+        if (!window.confirm(`Delete the "${goal.name}" goal?`)) return;
+        const res = await fetch(`/api/goals/${goal.id}`, { method: "DELETE" });
+        if (res.ok) onChange(goals.filter((g) => g.id !== goal.id));
+    };
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="flex items-center gap-2"><PiggyBank />Savings Goals</CardTitle>
+                <Button variant="ghost" className="h-8 px-3" onClick={() => setAdding((a) => !a)}>{adding ? "Cancel" : <><Plus size={14} className="mr-1" /> New goal</>}</Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {adding && (
+                    <div className="space-y-2 rounded-lg border p-3">
+                        <Input placeholder="Name, e.g. Laptop" value={name} onChange={(e) => setName(e.target.value)} />
+                        <div className="grid grid-cols-2 gap-2">
+                            <Input type="number" placeholder={`Target (${currencySymbol()})`} value={target} onChange={(e) => setTarget(e.target.value)} />
+                            <Input type="number" placeholder={`Per month (${currencySymbol()}, optional)`} value={monthly} onChange={(e) => setMonthly(e.target.value)} />
+                        </div>
+                        <label className="text-xs text-muted-foreground block">Deadline (optional)
+                            <Input type="date" value={deadline} onChange={(e) => setDeadline(e.target.value)} className="mt-1" />
+                        </label>
+                        {error && <p className="text-xs text-destructive">{error}</p>}
+                        <Button className="w-full" onClick={create} disabled={!name.trim() || !target}>Add goal</Button>
+                    </div>
+                )}
+                {goals.length === 0 && !adding && <p className="text-sm text-muted-foreground">No goals yet. Add one here or tell the assistant &quot;save 80000 for a laptop by March&quot;.</p>}
+                {goals.map((g) => (
+                    <div key={g.id} className="group">
+                        <div className="flex items-center justify-between mb-1">
+                            <span className="text-sm font-medium">{g.name}</span>
+                            <span className="flex items-center gap-2">
+                                <span className="text-sm text-muted-foreground">{formatCurrency(g.saved)} / {formatCurrency(g.target)}</span>
+                                <button onClick={() => remove(g)} className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity" aria-label={`Delete the ${g.name} goal`}><X className="h-4 w-4" /></button>
+                            </span>
+                        </div>
+                        <Progress value={Math.min(100, g.percent)} />
+                        <p className="text-xs text-muted-foreground mt-1">
+                            {g.remaining === 0
+                                ? "Reached 🎉"
+                                : g.deadline
+                                    ? <>{formatCurrency(g.neededPerMonth || 0)}/month needed by {format(parse(g.deadline, "dd-MM-yyyy", new Date()), "d MMM yyyy")} · <span className={g.onTrack ? "text-emerald-600" : "text-amber-600"}>{g.onTrack ? "on track" : `saving ~${formatCurrency(g.pace)}/month`}</span></>
+                                    : g.projectedDate
+                                        ? `~${formatCurrency(g.pace)}/month · around ${format(parse(g.projectedDate, "dd-MM-yyyy", new Date()), "MMM yyyy")}`
+                                        : "Nothing left over each month for it lately"}
+                        </p>
+                    </div>
+                ))}
+            </CardContent>
+        </Card>
+    );
+};
+
+// Spending per #tag in the period. An expense with two tags counts towards both.
+const TagTotals = ({ expenses, selected, onSelect }: { expenses: Expense[], selected: string | null, onSelect: (tag: string | null) => void }) => {
+    const totals = useMemo(() => {
+        const m = new Map<string, { total: number; count: number }>();
+        expenses.forEach((e) => (e.tags || []).forEach((t) => {
+            const entry = m.get(t) || { total: 0, count: 0 };
+            m.set(t, { total: entry.total + e.amount, count: entry.count + 1 });
+        }));
+        return Array.from(m.entries()).sort((a, b) => b[1].total - a[1].total);
+    }, [expenses]);
+
+    if (totals.length === 0) {
+        return null;
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2"><Tag size={18} /> Tags</CardTitle>
+                <CardDescription>Spending per tag this period. Click a tag to filter the dashboard.</CardDescription>
+            </CardHeader>
+            <CardContent>
+                <ul className="space-y-1">
+                    {totals.map(([tag, { total, count }]) => (
+                        <li key={tag}>
+                            <button
+                                onClick={() => onSelect(selected === tag ? null : tag)}
+                                className={`w-full flex justify-between items-center p-2 rounded-lg text-sm hover:bg-accent ${selected === tag ? "bg-accent" : ""}`}
+                            >
+                                <span className="font-medium text-primary">#{tag} <span className="text-xs text-muted-foreground font-normal">· {count} {count === 1 ? "entry" : "entries"}</span></span>
+                                <span className="font-semibold">{formatCurrency(total)}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            </CardContent>
+        </Card>
+    );
+};
+
+// --- NEW COMPONENT: UPCOMING BILLS ---
+const UpcomingBills = ({ bills, onStop }: { bills: UpcomingBill[], onStop: (ruleId: string) => void }) => {
+    if (bills.length === 0) {
+        return null;
+    }
+    const totalDue = bills.reduce((a, b) => a + b.amount, 0);
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2"><CalendarClock />Upcoming Bills</CardTitle>
+                <CardDescription>{formatCurrency(totalDue)} due in the next 30 days.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {bills.map((bill) => (
+                    <div key={bill.ruleId} className="flex items-center gap-3 group">
+                        <div className="w-8 h-8 flex-shrink-0 rounded-full bg-secondary flex items-center justify-center"><CategoryIcon category={bill.category} /></div>
+                        <div className="flex-grow">
+                            <p className="text-sm font-medium">{bill.note || bill.category}</p>
+                            <p className="text-xs text-muted-foreground">
+                                {bill.daysUntil === 0 ? "Due today" : bill.daysUntil === 1 ? "Due tomorrow" : `Due in ${bill.daysUntil} days`} · {bill.dueDate} · {bill.cadence}
+                            </p>
+                        </div>
+                        <span className="text-sm font-semibold">{formatCurrency(bill.amount)}</span>
+                        <button onClick={() => onStop(bill.ruleId)} className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity" aria-label="Stop this recurring bill">
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+                ))}
+            </CardContent>
+        </Card>
+    );
+};
+
+// --- Notification Center ---
+// Alerts are raised on the server whenever a transaction is saved, so the list reloads
+// whenever the transactions change. Alerts that arrive while the page is open can also
+// show as browser notifications.
+const parseThresholds = (text: string) => text.split(/[\s,%]+/).filter(Boolean).map(Number);
+
+const NotificationCenter = ({ expenses, budget }: { expenses: Expense[]; budget: BudgetMap }) => {
+    const [open, setOpen] = useState(false);
+    const [alerts, setAlerts] = useState<BudgetAlert[]>([]);
+    const [settings, setSettings] = useState<AlertSettings | null>(null);
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [error, setError] = useState<string | null>(null);
+    const known = useRef<Set<string> | null>(null);
+    const { label } = useCategories();
+
+    useEffect(() => {
+        fetch("/api/alerts/settings").then((res) => res.json()).then(setSettings).catch((e) => console.error("Failed to load alert settings", e));
+    }, []);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch("/api/alerts")
+            .then((res) => res.json())
+            .then(({ alerts }: { alerts: BudgetAlert[] }) => {
+                if (cancelled) return;
+                // The first load only records what exists; later loads notify about anything new.
+                if (known.current && settings?.browser && typeof Notification !== "undefined" && Notification.permission === "granted") {
+                    alerts.filter((a) => !a.read && !known.current!.has(a.id)).forEach((a) => new Notification("Budget alert", { body: a.message, tag: a.id }));
+                }
+                known.current = new Set(alerts.map((a) => a.id));
+                setAlerts(alerts);
+            })
+            .catch((e) => console.error("Failed to load alerts", e));
+        return () => { cancelled = true; };
+    }, [expenses, settings?.browser]);
+
+    const unread = alerts.filter((a) => !a.read).length;
+
+    const markAllRead = async () => {
+        await fetch("/api/alerts/read", { method: "POST", headers: { "Content-Type": "application/json" }, body: "{}" });
+        setAlerts((list) => list.map((a) => ({ ...a, read: true })));
+    };
+
+    const clearAll = async () => {
+        await fetch("/api/alerts", { method: "DELETE" });
+        setAlerts([]);
+    };
+
+    const saveSettings = async (changes: Partial<AlertSettings>) => {
+        setError(null);
+        const res = await fetch("/api/alerts/settings", { method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify(changes) });
+        const body = await res.json();
+        if (!res.ok) { setError(body.details?.join(" ") || body.error); return; }
+        setSettings(body);
+        setDrafts({});
+    };
+
+    const toggleBrowser = async (enabled: boolean) => {
+        if (enabled && typeof Notification !== "undefined" && Notification.permission !== "granted") {
+            if ((await Notification.requestPermission()) !== "granted") { setError("Notifications are blocked for this site in the browser's settings."); return; }
+        }
+        saveSettings({ browser: enabled });
+    };
+
+    // "" means "use the defaults"; "none" (or 0) turns a key's threshold alerts off.
+    const saveThresholds = (key: string) => {
+        const text = (drafts[key] ?? "").trim();
+        if (!settings) return;
+        if (key === "defaults") { saveSettings({ defaults: parseThresholds(text) }); return; }
+        const thresholds = { ...settings.thresholds };
+        if (!text) delete thresholds[key];
+        else thresholds[key] = /^(none|off|0)$/i.test(text) ? [] : parseThresholds(text);
+        saveSettings({ thresholds });
+    };
+
+    const budgetKeys = Object.keys(budget).filter((k) => k !== "total" && budget[k]);
+    const thresholdInput = (key: string, value: number[] | undefined, placeholder: string) => (
+        <Input
+            className="h-8 w-28 text-xs"
+            placeholder={placeholder}
+            value={drafts[key] ?? (value ? (value.length ? value.join(", ") : "none") : "")}
+            onChange={(e) => setDrafts((d) => ({ ...d, [key]: e.target.value }))}
+            onBlur={() => drafts[key] !== undefined && saveThresholds(key)}
+            onKeyDown={(e) => { if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }}
+        />
+    );
+
+    return (
+        <div className="relative">
+            <Button variant="outline" size="icon" onClick={() => setOpen((o) => !o)} aria-label={`Notifications${unread ? ` (${unread} unread)` : ""}`} className="relative">
+                <Bell size={16} />
+                {unread > 0 && <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">{unread > 9 ? "9+" : unread}</span>}
+            </Button>
+            {open && (
+                <div className="absolute right-0 mt-2 w-96 max-h-[70vh] overflow-y-auto rounded-xl border bg-card shadow-xl z-30">
+                    <div className="flex items-center justify-between p-3 border-b">
+                        <h3 className="text-sm font-semibold">Budget alerts</h3>
+                        <div className="flex gap-1">
+                            <Button variant="ghost" className="h-7 px-2 text-xs" onClick={markAllRead} disabled={!unread}>Mark all read</Button>
+                            <Button variant="ghost" className="h-7 px-2 text-xs" onClick={clearAll} disabled={!alerts.length}>Clear</Button>
+                        </div>
+                    </div>
+                    {alerts.length === 0 ? (
+                        <p className="text-sm text-muted-foreground p-4">No alerts yet. You&apos;ll hear about it here when spending nears a budget.</p>
+                    ) : (
+                        <ul className="divide-y">
+                            {alerts.map((a) => (
+                                <li key={a.id} className={`p-3 text-sm flex gap-2 ${a.read ? "text-muted-foreground" : ""}`}>
+                                    <span>{a.kind === "forecast" ? "📈" : a.percent >= 100 ? "🚨" : "⚠️"}</span>
+                                    <div>
+                                        <p>{a.message}</p>
+                                        <p className="text-xs text-muted-foreground mt-0.5">{format(new Date(a.createdAt), "d MMM, HH:mm")}</p>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {settings && (
+                        <div className="border-t p-3 space-y-2 text-xs">
+                            <h4 className="font-semibold">Alert settings</h4>
+                            <div className="flex items-center justify-between gap-2">
+                                <span>Default thresholds (%)</span>
+                                {thresholdInput("defaults", settings.defaults, "50, 80, 100")}
+                            </div>
+                            {["total", ...budgetKeys].map((key) => (
+                                <div key={key} className="flex items-center justify-between gap-2">
+                                    <span className="text-muted-foreground">{key === "total" ? "Total budget" : label(key)}</span>
+                                    {thresholdInput(key, settings.thresholds[key], settings.defaults.join(", "))}
+                                </div>
+                            ))}
+                            <label className="flex items-center gap-2">
+                                <input type="checkbox" checked={settings.forecast} onChange={(e) => saveSettings({ forecast: e.target.checked })} />
+                                Warn when the current pace would overshoot a budget
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input type="checkbox" checked={settings.browser} onChange={(e) => toggleBrowser(e.target.checked)} />
+                                Browser notifications
+                            </label>
+                            {error && <p className="text-destructive">{error}</p>}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// --- Export & Backup ---
+const DataCard = ({ period, label, onRestored }: { period: DashboardPeriod; label: string; onRestored: (data: ServerData) => void }) => {
+    const [status, setStatus] = useState<string | null>(null);
+    const fileRef = useRef<HTMLInputElement>(null);
+    const linkClassName = "flex items-center gap-2 text-sm p-2 rounded-lg hover:bg-accent";
+
+    const restore = async (file: File | undefined) => {
+        if (fileRef.current) fileRef.current.value = "";
+        if (!file || !window.confirm("Restoring replaces all current transactions, budgets and recurring bills. Continue?")) return;
+        setStatus(null);
+        try {
+            const res = await fetch("/api/restore", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: await file.text(),
+            });
+            const body = await res.json();
+            if (!res.ok) { setStatus(body.error || "Restore failed."); return; }
+            onRestored(body);
+            setStatus(`Restored ${body.expenses.length} transactions.`);
+        } catch (e) {
+            setStatus("Restore failed: the file isn't valid JSON.");
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2"><Download />Export & Backup</CardTitle>
+                <CardDescription>CSV and report cover {label}; the backup holds everything.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-1">
+                <a href={`/api/export?format=csv&${periodQuery(period)}`} download className={linkClassName}><Download size={14} /> Transactions (CSV)</a>
+                <a href={`/api/export?format=report&${periodQuery(period)}`} target="_blank" rel="noreferrer" className={linkClassName}><FileText size={14} /> Printable report</a>
+                <a href="/api/export?format=json" download className={linkClassName}><Download size={14} /> Full backup (JSON)</a>
+                <button onClick={() => fileRef.current?.click()} className={`${linkClassName} w-full text-left`}><Upload size={14} /> Restore from backup…</button>
+                <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={(e) => restore(e.target.files?.[0])} />
+                {status && <p className="text-xs text-muted-foreground pt-2">{status}</p>}
+            </CardContent>
+        </Card>
+    );
+};
+
+// --- Currency ---
+// The base currency every total is in, and the exchange rates used to convert entries
+// made in other currencies. Rates can be typed in or imported from a CSV/JSON file.
+const SHOWN_RATES = 6;
+
+const CurrencyCard = ({ settings, onDataUpdate }: { settings: CurrencySettings; onDataUpdate: (data: DataUpdate) => void }) => {
+    const [base, setBase] = useState(settings.base);
+    const [from, setFrom] = useState("");
+    const [rate, setRate] = useState("");
+    const [date, setDate] = useState("");
+    const [showAll, setShowAll] = useState(false);
+    const [status, setStatus] = useState<string | null>(null);
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => setBase(settings.base), [settings.base]);
+
+    const postRates = async (body: object) => {
+        setStatus(null);
+        const res = await fetch("/api/currency/rates", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+        const result = await res.json();
+        if (!res.ok) { setStatus([result.error, ...(result.details ?? [])].join(" ")); return false; }
+        onDataUpdate({ currency: result.settings });
+        setStatus(`Saved ${result.added} ${result.added === 1 ? "rate" : "rates"}.`);
+        return true;
+    };
+
+    const addRate = async () => {
+        if (await postRates({ from, to: settings.base, rate: Number(rate), date: date ? fromInputDate(date) : undefined })) {
+            setFrom(""); setRate(""); setDate("");
+        }
+    };
+
+    const importFile = async (file: File | undefined) => {
+        if (fileRef.current) fileRef.current.value = "";
+        if (file) await postRates({ content: await file.text() });
+    };
+
+    const removeRate = async (id: string) => {
+        const res = await fetch(`/api/currency/rates/${encodeURIComponent(id)}`, { method: "DELETE" });
+        if (res.ok) onDataUpdate({ currency: { ...settings, rates: settings.rates.filter((r) => r.id !== id) } });
+    };
+
+    const changeBase = async () => {
+        const code = base.trim().toUpperCase();
+        if (!code || code === settings.base) return;
+        if (!window.confirm(`Convert every transaction, budget, bill and goal from ${settings.base} to ${code}?`)) return;
+        setStatus(null);
+        const res = await fetch("/api/currency", { method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ base: code }) });
+        const result = await res.json();
+        if (!res.ok) { setStatus([result.error, ...(result.details ?? [])].join(" ")); return; }
+        onDataUpdate({ currency: result.settings, expenses: result.expenses, budget: result.budget, upcomingBills: result.upcomingBills });
+        setStatus(`Amounts are now in ${code}.`);
+    };
+
+    const rates = settings.rates.slice().sort((a, b) => parse(b.date, "dd-MM-yyyy", new Date()).getTime() - parse(a.date, "dd-MM-yyyy", new Date()).getTime());
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2"><Coins />Currency</CardTitle>
+                <CardDescription>Totals are in {settings.base}. Entries in other currencies are converted at the rate for their date.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                    <Input value={base} onChange={(e) => setBase(e.target.value)} maxLength={3} className="h-9 uppercase" aria-label="Base currency" />
+                    <Button variant="outline" className="h-9 px-3 shrink-0" onClick={changeBase} disabled={base.trim().toUpperCase() === settings.base}>Change base</Button>
+                </div>
+                <div className="space-y-2">
+                    <p className="text-sm font-medium">Exchange rates</p>
+                    <div className="grid grid-cols-3 gap-2">
+                        <Input value={from} onChange={(e) => setFrom(e.target.value)} placeholder="USD" maxLength={3} className="h-9 uppercase" aria-label="From currency" />
+                        <Input type="number" min="0" step="any" value={rate} onChange={(e) => setRate(e.target.value)} placeholder={`in ${settings.base}`} className="h-9" aria-label="Rate" />
+                        <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="h-9" aria-label="Rate date" />
+                    </div>
+                    <div className="flex gap-2">
+                        <Button className="h-8 px-3 flex-1" onClick={addRate} disabled={!from.trim() || !rate}><Plus size={14} className="mr-1" /> Add rate</Button>
+                        <Button variant="ghost" className="h-8 px-3" onClick={() => fileRef.current?.click()}><Upload size={14} className="mr-1" /> Import file</Button>
+                        <input ref={fileRef} type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={(e) => importFile(e.target.files?.[0])} />
+                    </div>
+                    <p className="text-xs text-muted-foreground">Files need date, from, to and rate columns (CSV or JSON).</p>
+                </div>
+                {rates.length === 0
+                    ? <p className="text-sm text-muted-foreground">No rates yet. Add one before logging &quot;$12 lunch&quot;.</p>
+                    : (
+                        <ul className="space-y-1">
+                            {(showAll ? rates : rates.slice(0, SHOWN_RATES)).map((r) => (
+                                <li key={r.id} className="flex items-center justify-between text-sm group">
+                                    <span>1 {r.from} = {r.rate} {r.to}</span>
+                                    <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                                        {r.date}
+                                        <button onClick={() => removeRate(r.id)} className="opacity-0 group-hover:opacity-100 hover:text-destructive" aria-label={`Delete ${r.from} rate`}><Trash2 size={12} /></button>
+                                    </span>
+                                </li>
+                            ))}
+                            {rates.length > SHOWN_RATES && (
+                                <button onClick={() => setShowAll((s) => !s)} className="text-xs text-primary hover:underline">{showAll ? "Show fewer" : `Show all ${rates.length}`}</button>
+                            )}
+                        </ul>
+                    )}
+                {status && <p className="text-xs text-muted-foreground">{status}</p>}
+            </CardContent>
+        </Card>
+    );
+};
+
+// --- NEW COMPONENT: TRANSACTION LIST ---
+const PAGE_SIZE = 10;
+const UNDO_WINDOW_MS = 6000;
+
+const selectClassName = "flex h-9 w-full rounded-md border border-input bg-background px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+const EditTransactionRow = ({ expense, onSave, onCancel }: { expense: Expense; onSave: (updates: ExpenseChanges) => Promise<string | null>; onCancel: () => void }) => {
+    // A foreign entry is edited in the currency it was entered in.
+    const [amount, setAmount] = useState(String(expense.originalAmount ?? expense.amount));
+    const [currency, setCurrency] = useState(expense.currency ?? "");
+    const [category, setCategory] = useState<string>(expense.category);
+    const [note, setNote] = useState(expense.note || "");
+    const [date, setDate] = useState(toInputDate(expense.date));
+    const [tags, setTags] = useState((expense.tags || []).map((t) => `#${t}`).join(" "));
+    const [error, setError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+    const { active, label } = useCategories();
+    // An entry filed under an archived category can keep it.
+    const options = active(expense.type).map((c) => c.key);
+    if (!options.includes(expense.category)) options.push(expense.category);
+
+    const save = async () => {
+        setSaving(true);
+        // The server normalizes and validates tags; "#goa-trip, work" is fine here.
+        const tagList = tags.split(/[\s,]+/).filter(Boolean);
+        const code = currency.trim().toUpperCase();
+        const currencyChange = code === (expense.currency ?? "") ? {} : { currency: code || null };
+        const err = await onSave({ amount: Number(amount), ...currencyChange, category: category as Expense["category"], note, date: date ? fromInputDate(date) : expense.date, tags: tagList });
+        setSaving(false);
+        if (err) setError(err);
+    };
+
+    return (
+        <li className="p-2 rounded-lg bg-accent space-y-2">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+                <Input type="number" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} className="h-9" aria-label="Amount" />
+                <Input value={currency} onChange={(e) => setCurrency(e.target.value)} placeholder={baseCurrency} maxLength={3} className="h-9 uppercase" aria-label="Currency" />
+                <select value={category} onChange={(e) => setCategory(e.target.value)} className={selectClassName} aria-label="Category">
+                    {options.map((key) => <option key={key} value={key}>{label(key)}</option>)}
+                </select>
+                <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note" className="h-9" aria-label="Note" />
+                <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="h-9" aria-label="Date" />
+                <Input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="#tags" className="h-9" aria-label="Tags" />
+            </div>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+            <div className="flex justify-end gap-2">
+                <Button variant="ghost" onClick={onCancel} className="h-8 px-3">Cancel</Button>
+                <Button onClick={save} disabled={saving} className="h-8 px-3"><Check size={14} className="mr-1" /> Save</Button>
+            </div>
+        </li>
+    );
+};
+
+const TransactionList = ({ transactions, onUpdate, onDelete, onSelectTag }: { transactions: Expense[]; onUpdate: (expense: Expense, updates: ExpenseChanges) => Promise<string | null>; onDelete: (ids: string[]) => void; onSelectTag: (tag: string) => void }) => {
+    const [page, setPage] = useState(0);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [editingId, setEditingId] = useState<string | null>(null);
+
+    const pageCount = Math.max(1, Math.ceil(transactions.length / PAGE_SIZE));
+    useEffect(() => {
+        if (page >= pageCount) setPage(pageCount - 1);
+    }, [page, pageCount]);
+
+    // Forget selections for rows that are gone (deleted, or filtered out by search).
+    useEffect(() => {
+        setSelected((prev) => {
+            const ids = new Set(transactions.map((e) => e.id));
+            const next = new Set(Array.from(prev).filter((id) => ids.has(id)));
+            return next.size === prev.size ? prev : next;
+        });
+    }, [transactions]);
+
+    const visible = transactions.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+    const allVisibleSelected = visible.length > 0 && visible.every((e) => selected.has(e.id));
+
+    const toggle = (id: string) => setSelected((prev) => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+    const toggleAllVisible = () => setSelected((prev) => {
+        const next = new Set(prev);
+        visible.forEach((e) => (allVisibleSelected ? next.delete(e.id) : next.add(e.id)));
+        return next;
+    });
+
+    if (transactions.length === 0) {
+        return <p className="text-center py-8 text-muted-foreground">No transactions found.</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center gap-3 text-sm px-2">
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} aria-label="Select all on this page" className="h-4 w-4 accent-primary" />
+                <span className="text-muted-foreground">{selected.size > 0 ? `${selected.size} selected` : `${transactions.length} transactions`}</span>
+                {selected.size > 0 && (
+                    <Button variant="outline" className="ml-auto h-8 px-3 text-destructive" onClick={() => { onDelete(Array.from(selected)); setSelected(new Set()); }}>
+                        <Trash2 size={14} className="mr-1" /> Delete selected
+                    </Button>
+                )}
+            </div>
+            <ul className="space-y-2">
+                {visible.map((e) => editingId === e.id ? (
+                    <EditTransactionRow
+                        key={e.id}
+                        expense={e}
+                        onCancel={() => setEditingId(null)}
+                        onSave={async (updates) => {
+                            const err = await onUpdate(e, updates);
+                            if (!err) setEditingId(null);
+                            return err;
+                        }}
+                    />
+                ) : (
+                    <li key={e.id} className="flex items-center gap-4 p-2 rounded-lg hover:bg-accent group">
+                        <input type="checkbox" checked={selected.has(e.id)} onChange={() => toggle(e.id)} aria-label={`Select ${e.note || e.category}`} className="h-4 w-4 accent-primary" />
+                        <div className="w-9 h-9 flex-shrink-0 rounded-full bg-secondary flex items-center justify-center"><CategoryIcon category={e.category} /></div>
+                        <div className="flex-grow">
+                            <p className="font-medium">{e.note || e.category}</p>
+                            <p className="text-xs text-muted-foreground">
+                                {e.date} · {e.category}
+                                {e.split && <span className="ml-1.5 inline-flex items-center gap-0.5" title={splitLabel(e.split)}><Users size={11} /> {e.split.people}</span>}
+                                {e.tags?.map((t) => <button key={t} onClick={() => onSelectTag(t)} className="ml-1.5 text-primary hover:underline">#{t}</button>)}
+                            </p>
+                        </div>
+                        <div className="text-right">
+                            <p className={`font-semibold ${e.type === "income" ? "text-emerald-600 dark:text-emerald-400" : ""}`}>{e.type === "income" ? "+" : ""}{formatCurrency(e.amount)}</p>
+                            {e.currency && e.originalAmount !== undefined && <p className="text-xs text-muted-foreground">{formatCurrency(e.originalAmount, e.currency)}</p>}
+                        </div>
+                        <div className="flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                            <button onClick={() => setEditingId(e.id)} className="p-1.5 rounded-md text-muted-foreground hover:text-foreground" aria-label="Edit transaction"><Pencil size={14} /></button>
+                            <button onClick={() => onDelete([e.id])} className="p-1.5 rounded-md text-muted-foreground hover:text-destructive" aria-label="Delete transaction"><Trash2 size={14} /></button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            {pageCount > 1 && (
+                <div className="flex items-center justify-center gap-3 text-sm">
+                    <Button variant="ghost" size="icon" onClick={() => setPage((p) => Math.max(0, p - 1))} disabled={page === 0} aria-label="Previous page"><ChevronLeft size={16} /></Button>
+                    <span className="text-muted-foreground">Page {page + 1} of {pageCount}</span>
+                    <Button variant="ghost" size="icon" onClick={() => setPage((p) => Math.min(pageCount - 1, p + 1))} disabled={page >= pageCount - 1} aria-label="Next page"><ChevronRight size={16} /></Button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// --- Category Manager ---
+// Create, rename, recolor, archive and merge categories. Renames and merges rewrite
+// existing transactions on the server, so every response refreshes the dashboard data.
+const CategoryManager = ({ onClose, onDataUpdate }: { onClose: () => void; onDataUpdate: (data: DataUpdate) => void }) => {
+    const { all } = useCategories();
+    const [draft, setDraft] = useState<{ name: string; type: TransactionType; icon: string; color: string; parent: string }>({ name: "", type: "expense", icon: "sparkles", color: CATEGORY_COLORS[0], parent: "" });
+    const [names, setNames] = useState<Record<string, string>>({});
+    const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+    const [error, setError] = useState<string | null>(null);
+
+    const send = async (url: string, method: string, body: object) => {
+        setError(null);
+        try {
+            const res = await fetch(url, { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+            const data = await res.json();
+            if (!res.ok) { setError(data.error || "Something went wrong."); return false; }
+            onDataUpdate(data);
+            return true;
+        } catch (e) {
+            setError("Could not reach the server.");
+            return false;
+        }
+    };
+
+    const update = (key: string, changes: object) => send(`/api/categories/${encodeURIComponent(key)}`, "PATCH", changes);
+
+    const rename = async (c: Category) => {
+        const name = names[c.key]?.trim();
+        if (!name || name === c.key) return;
+        if (await update(c.key, { name })) setNames(({ [c.key]: _, ...rest }) => rest);
+    };
+
+    const merge = async (c: Category) => {
+        const into = mergeTargets[c.key];
+        if (!into || !window.confirm(`Move every "${c.key}" transaction into "${into}" and remove "${c.key}"?`)) return;
+        await send(`/api/categories/${encodeURIComponent(c.key)}/merge`, "POST", { into });
+    };
+
+    const create = async () => {
+        if (await send("/api/categories", "POST", { ...draft, parent: draft.parent || undefined })) setDraft((d) => ({ ...d, name: "" }));
+    };
+
+    // Only top-level categories of the same type can be parents; a category with children stays top-level.
+    const parentSelect = (type: TransactionType, value: string, onChange: (parent: string) => void, label: string, self?: Category) => (
+        <select
+            className={`${selectClassName} w-36`}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={!!self && all.some((o) => o.parent === self.key)}
+            aria-label={label}
+        >
+            <option value="">Top level</option>
+            {all.filter((o) => o.type === type && !o.parent && !o.archived && o !== self).map((o) => <option key={o.key} value={o.key}>Under {o.key}</option>)}
+        </select>
+    );
+
+    const iconSelect = (value: string, onChange: (icon: string) => void, label: string) => (
+        <select className={`${selectClassName} w-32`} value={value} onChange={(e) => onChange(e.target.value)} aria-label={label}>
+            {Object.keys(CATEGORY_ICONS).map((icon) => <option key={icon} value={icon}>{icon}</option>)}
+        </select>
+    );
+
+    return (
+        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-background/80 backdrop-blur-sm" onClick={onClose}></div>
+            <div className="flex flex-col max-h-[85vh] w-full max-w-3xl bg-card rounded-2xl border shadow-2xl relative z-10">
+                <header className="flex items-center justify-between p-4 shrink-0">
+                    <h2 className="text-lg font-semibold flex items-center gap-2"><Settings2 className="h-5 w-5 text-primary" /> Categories</h2>
+                    <Button variant="ghost" size="icon" onClick={onClose} className="rounded-full"><X className="h-5 w-5" /></Button>
+                </header>
+                <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-6">
+                    {(["expense", "income"] as TransactionType[]).map((type) => (
+                        <section key={type}>
+                            <h3 className="text-sm font-semibold mb-2">{type === "income" ? "Income" : "Expense"} categories</h3>
+                            <ul className="space-y-2">
+                                {all.filter((c) => c.type === type).map((c) => (
+                                    <li key={c.key} className={`flex flex-wrap items-center gap-2 p-2 rounded-lg hover:bg-accent ${c.archived ? "opacity-60" : ""} ${c.parent ? "ml-6" : ""}`}>
+                                        <input type="color" value={c.color} onChange={(e) => update(c.key, { color: e.target.value })} className="h-8 w-8 rounded cursor-pointer bg-transparent" aria-label={`Color for ${c.key}`} />
+                                        <CategoryIcon category={c.key} />
+                                        <Input
+                                            value={names[c.key] ?? c.key}
+                                            onChange={(e) => setNames((prev) => ({ ...prev, [c.key]: e.target.value }))}
+                                            onBlur={() => rename(c)}
+                                            onKeyDown={(e) => e.key === "Enter" && rename(c)}
+                                            className="h-8 w-40"
+                                            aria-label={`Name of ${c.key}`}
+                                        />
+                                        {iconSelect(c.icon, (icon) => update(c.key, { icon }), `Icon for ${c.key}`)}
+                                        {parentSelect(type, c.parent ?? "", (parent) => update(c.key, { parent: parent || null }), `Parent of ${c.key}`, c)}
+                                        <select className={`${selectClassName} w-36`} value={mergeTargets[c.key] ?? ""} onChange={(e) => setMergeTargets((prev) => ({ ...prev, [c.key]: e.target.value }))} aria-label={`Merge ${c.key} into`}>
+                                            <option value="">Merge into…</option>
+                                            {all.filter((o) => o.type === type && o.key !== c.key && !o.archived).map((o) => <option key={o.key} value={o.key}>{o.key}</option>)}
+                                        </select>
+                                        <Button variant="outline" className="h-8 px-3" onClick={() => merge(c)} disabled={!mergeTargets[c.key]}>Merge</Button>
+                                        <Button variant="ghost" className="h-8 px-3 ml-auto" onClick={() => update(c.key, { archived: !c.archived })}>{c.archived ? "Restore" : "Archive"}</Button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    ))}
+                    <section className="border-t pt-4">
+                        <h3 className="text-sm font-semibold mb-2">New category</h3>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <input type="color" value={draft.color} onChange={(e) => setDraft((d) => ({ ...d, color: e.target.value }))} className="h-8 w-8 rounded cursor-pointer bg-transparent" aria-label="Color" />
+                            <Input value={draft.name} onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))} placeholder="Name" className="h-8 w-40" />
+                            <select className={`${selectClassName} w-28`} value={draft.type} onChange={(e) => setDraft((d) => ({ ...d, type: e.target.value as TransactionType, parent: "" }))} aria-label="Type">
+                                <option value="expense">Expense</option>
+                                <option value="income">Income</option>
+                            </select>
+                            {iconSelect(draft.icon, (icon) => setDraft((d) => ({ ...d, icon })), "Icon")}
+                            {parentSelect(draft.type, draft.parent, (parent) => setDraft((d) => ({ ...d, parent })), "Parent")}
+                            <Button className="h-8 px-3" onClick={create} disabled={!draft.name.trim()}><Plus size={14} className="mr-1" /> Add</Button>
+                        </div>
+                    </section>
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                </div>
+            </div>
+        </motion.div>
+    );
+};
+
+// --- Import Dialog ---
+const IMPORT_DATE_FORMATS = ["dd-MM-yyyy", "dd/MM/yyyy", "yyyy-MM-dd", "MM/dd/yyyy", "dd.MM.yyyy", "d MMM yyyy", "dd MMM yyyy", "d-MMM-yyyy", "dd-MMM-yy", "yyyyMMdd", "dd/MM/yy", "MM/dd/yy"];
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string }[] = [
+    { key: "date", label: "Date" },
+    { key: "amount", label: "Amount" },
+    { key: "debit", label: "Debit" },
+    { key: "credit", label: "Credit" },
+    { key: "description", label: "Description" },
+    { key: "category", label: "Category" },
+];
+
+// Upload → preview with editable column mapping → commit. Nothing is saved until "Import".
+const ImportDialog = ({ onClose, onImported }: { onClose: () => void; onImported: (expenses: Expense[], count: number) => void }) => {
+    const { active, label } = useCategories();
+    const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [dateFormat, setDateFormat] = useState(""); // "" means detect automatically
+    const [included, setIncluded] = useState<Set<number>>(new Set());
+    const [categories, setCategories] = useState<Record<number, string>>({});
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const runPreview = async (next: { name: string; content: string }, mapping?: ColumnMapping, format = dateFormat) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const res = await fetch("/api/import/preview", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ content: next.content, fileName: next.name, mapping, dateFormat: format || undefined }),
+            });
+            const body = await res.json();
+            if (!res.ok) { setError(body.error || "Could not read the file."); return; }
+            setPreview(body);
+            setCategories({});
+            // Duplicates and unreadable rows start unticked.
+            setIncluded(new Set((body as ImportPreview).rows.filter((r) => r.expense && !r.duplicate).map((r) => r.line)));
+        } catch (e) {
+            setError("Could not reach the server.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleFile = async (selected: File | undefined) => {
+        if (!selected) return;
+        const next = { name: selected.name, content: await selected.text() };
+        setFile(next);
+        setDateFormat("");
+        runPreview(next, undefined, "");
+    };
+
+    const updateMapping = (key: keyof ColumnMapping, value: string) => {
+        if (!file || !preview) return;
+        const mapping = { ...preview.mapping, [key]: value === "" ? undefined : Number(value) };
+        runPreview(file, mapping);
+    };
+
+    const toggle = (line: number) => setIncluded((prev) => {
+        const next = new Set(prev);
+        if (next.has(line)) next.delete(line); else next.add(line);
+        return next;
+    });
+
+    const commit = async () => {
+        if (!preview) return;
+        const rows = preview.rows
+            .filter((r) => r.expense && included.has(r.line))
+            .map((r) => ({ ...r.expense!, category: categories[r.line] ?? r.expense!.category }));
+        setBusy(true);
+        setError(null);
+        try {
+            const res = await fetch("/api/import", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ rows }),
+            });
+            const body = await res.json();
+            if (!res.ok) { setError([body.error, ...(body.details ?? [])].join(" ")); return; }
+            onImported(body.expenses, body.imported);
+        } catch (e) {
+            setError("Could not reach the server.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const duplicates = preview?.rows.filter((r) => r.duplicate).length ?? 0;
+    const invalid = preview?.rows.filter((r) => !r.expense).length ?? 0;
+
+    return (
+        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-background/80 backdrop-blur-sm" onClick={onClose}></div>
+            <div className="flex flex-col max-h-[85vh] w-full max-w-3xl bg-card rounded-2xl border shadow-2xl relative z-10">
+                <header className="flex items-center justify-between p-4 shrink-0">
+                    <h2 className="text-lg font-semibold flex items-center gap-2"><Upload className="h-5 w-5 text-primary" /> Import Transactions</h2>
+                    <Button variant="ghost" size="icon" onClick={onClose} className="rounded-full"><X className="h-5 w-5" /></Button>
+                </header>
+                <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-4">
+                    <div>
+                        <input type="file" accept=".csv,.ofx,.qfx,.qif,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} className="text-sm" />
+                        <p className="text-xs text-muted-foreground mt-1">CSV, OFX/QFX or QIF exports from your bank.</p>
+                    </div>
+                    {preview && (
+                        <>
+                            {preview.format === "csv" && (
+                                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                                    {MAPPING_FIELDS.map(({ key, label }) => (
+                                        <label key={key} className="text-xs text-muted-foreground space-y-1">
+                                            <span>{label} column</span>
+                                            <select className={selectClassName} value={preview.mapping[key] ?? ""} onChange={(e) => updateMapping(key, e.target.value)} disabled={busy}>
+                                                {key !== "date" && <option value="">—</option>}
+                                                {preview.headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                                            </select>
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                            <label className="text-xs text-muted-foreground space-y-1 block max-w-xs">
+                                <span>Date format {preview.dateFormat ? `(using ${preview.dateFormat})` : "(not recognized)"}</span>
+                                <select className={selectClassName} value={dateFormat} onChange={(e) => { setDateFormat(e.target.value); if (file) runPreview(file, preview.mapping, e.target.value); }} disabled={busy}>
+                                    <option value="">Detect automatically</option>
+                                    {IMPORT_DATE_FORMATS.map((f) => <option key={f} value={f}>{f}</option>)}
+                                </select>
+                            </label>
+                            <p className="text-sm text-muted-foreground">
+                                {preview.rows.length} rows · {included.size} selected
+                                {duplicates > 0 && ` · ${duplicates} likely duplicates`}
+                                {invalid > 0 && ` · ${invalid} unreadable`}
+                            </p>
+                            <ul className="space-y-1 text-sm">
+                                {preview.rows.map((r) => (
+                                    <li key={r.line} className={`flex items-center gap-3 p-2 rounded-lg ${r.expense ? "hover:bg-accent" : "opacity-60"}`}>
+                                        <input type="checkbox" checked={included.has(r.line)} disabled={!r.expense} onChange={() => toggle(r.line)} aria-label={`Include row ${r.line}`} className="h-4 w-4 accent-primary" />
+                                        {r.expense ? (
+                                            <>
+                                                <span className="w-24 shrink-0 text-muted-foreground">{r.expense.date}</span>
+                                                <span className="flex-grow truncate">{r.expense.note || "—"}</span>
+                                                {r.duplicate && <Badge variant="outline">Duplicate?</Badge>}
+                                                <select className={`${selectClassName} w-36`} value={categories[r.line] ?? r.expense.category} onChange={(e) => setCategories((prev) => ({ ...prev, [r.line]: e.target.value }))}>
+                                                    {active(r.expense.type).map((c) => <option key={c.key} value={c.key}>{label(c.key)}</option>)}
+                                                </select>
+                                                <span className={`w-24 text-right font-semibold ${r.expense.type === "income" ? "text-emerald-600 dark:text-emerald-400" : ""}`}>{r.expense.type === "income" ? "+" : ""}{formatCurrency(r.expense.amount)}</span>
+                                            </>
+                                        ) : (
+                                            <span className="text-destructive">Row {r.line}: {r.errors.join(" ")}</span>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                </div>
+                <footer className="flex justify-end gap-2 p-4 border-t shrink-0">
+                    <Button variant="ghost" onClick={onClose}>Cancel</Button>
+                    <Button onClick={commit} disabled={busy || included.size === 0}>Import {included.size || ""} transactions</Button>
+                </footer>
+            </div>
+        </motion.div>
+    );
+};
+
+// --- NEW COMPONENT: PERIOD SELECTOR ---
+const PeriodSelector = ({ period, onChange }: { period: DashboardPeriod; onChange: (period: DashboardPeriod) => void }) => {
+    const now = new Date();
+    const currentMonth = startOfMonth(now);
+    const month = period.kind === "month" ? period.month : currentMonth;
+    const isCurrentMonth = period.kind === "month" && month.getTime() >= currentMonth.getTime();
+    const modeClass = (active: boolean) => `px-3 py-1 rounded-md text-xs font-medium transition-colors ${active ? "bg-background shadow-sm" : "text-muted-foreground hover:text-foreground"}`;
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <div className="flex items-center gap-1">
+                <Button variant="ghost" size="icon" onClick={() => onChange({ kind: "month", month: addMonths(month, -1) })} aria-label="Previous month"><ChevronLeft size={16} /></Button>
+                <Button variant="ghost" size="icon" onClick={() => onChange({ kind: "month", month: addMonths(month, 1) })} disabled={isCurrentMonth} aria-label="Next month"><ChevronRight size={16} /></Button>
+            </div>
+            <div className="flex items-center gap-1 bg-secondary rounded-lg p-1">
+                <button className={modeClass(period.kind === "month")} onClick={() => onChange({ kind: "month", month: currentMonth })}>This month</button>
+                <button className={modeClass(period.kind === "ytd")} onClick={() => onChange({ kind: "ytd" })}>Year to date</button>
+                <button
+                    className={modeClass(period.kind === "range")}
+                    onClick={() => onChange({ kind: "range", from: format(startOfMonth(month), "yyyy-MM-dd"), to: format(period.kind === "month" && !isCurrentMonth ? endOfMonth(month) : now, "yyyy-MM-dd") })}
+                >
+                    Custom
+                </button>
+            </div>
+            {period.kind === "range" && (
+                <div className="flex items-center gap-2">
+                    <Input type="date" value={period.from} max={period.to} onChange={(e) => e.target.value && onChange({ ...period, from: e.target.value })} className="h-8 w-auto" aria-label="From date" />
+                    <span className="text-muted-foreground text-sm">to</span>
+                    <Input type="date" value={period.to} min={period.from} onChange={(e) => e.target.value && onChange({ ...period, to: e.target.value })} className="h-8 w-auto" aria-label="To date" />
+                </div>
+            )}
+        </div>
+    );
+};
+
+const ToastBar = ({ toast, onUndo, onDismiss }: { toast: Toast | null; onUndo: () => void; onDismiss: () => void }) => (
+    <AnimatePresence>
+        {toast && (
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 20 }}
+                className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 rounded-xl border bg-popover text-popover-foreground shadow-lg px-4 py-3 text-sm"
+            >
+                <span>{toast.message}</span>
+                {toast.undo && <button onClick={onUndo} className="font-semibold text-primary flex items-center gap-1"><Undo2 size={14} /> Undo</button>}
+                <button onClick={onDismiss} className="text-muted-foreground hover:text-foreground" aria-label="Dismiss"><X size={14} /></button>
+            </motion.div>
+        )}
+    </AnimatePresence>
+);
+
+// --- Sign In ---
+const SignInScreen = ({ onSignedIn }: { onSignedIn: (user: User) => void }) => {
+    const [mode, setMode] = useState<"login" | "register">("login");
+    const [username, setUsername] = useState("");
+    const [password, setPassword] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const submit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        setError(null);
+        const res = await fetch(`/api/auth/${mode}`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ username, password }) });
+        const body = await res.json().catch(() => ({}));
+        setBusy(false);
+        if (!res.ok) { setError([body.error, ...(body.details ?? [])].filter(Boolean).join(" ") || "Something went wrong."); return; }
+        onSignedIn(body.user);
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-background text-foreground p-4">
+            <Card className="w-full max-w-sm">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2"><Sparkles className="h-5 w-5 text-primary" /> My Budget Buddy</CardTitle>
+                    <CardDescription>{mode === "login" ? "Sign in to your budget." : "Create an account; your data stays private to it."}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <form onSubmit={submit} className="space-y-3">
+                        <Input placeholder="Username" autoComplete="username" value={username} onChange={(e) => setUsername(e.target.value)} />
+                        <Input type="password" placeholder="Password" autoComplete={mode === "login" ? "current-password" : "new-password"} value={password} onChange={(e) => setPassword(e.target.value)} />
+                        {error && <p className="text-xs text-destructive">{error}</p>}
+                        <Button type="submit" className="w-full" disabled={busy || !username || !password}>{mode === "login" ? "Sign in" : "Create account"}</Button>
+                    </form>
+                    <button onClick={() => { setMode(mode === "login" ? "register" : "login"); setError(null); }} className="mt-4 text-sm text-primary hover:underline">
+                        {mode === "login" ? "New here? Create an account" : "Already have an account? Sign in"}
+                    </button>
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
 // ---------------- Main Page Component ----------------
+// Everything below the sign-in belongs to one user; the server scopes every request to the
+// session's account, and the dashboard is remounted when someone else signs in.
 export default function BudgetTrackerPage() {
+    const [user, setUser] = useState<User | null | undefined>(undefined);
+
+    useEffect(() => {
+        fetch("/api/auth/me")
+            .then((res) => (res.ok ? res.json() : { user: null }))
+            .then((body: { user: User | null }) => setUser(body.user))
+            .catch(() => setUser(null));
+    }, []);
+
+    const signOut = async () => {
+        await fetch("/api/auth/logout", { method: "POST" }).catch(() => undefined);
+        setUser(null);
+    };
+
+    if (user === undefined) return null;
+    if (!user) return <SignInScreen onSignedIn={setUser} />;
+    return <Dashboard key={user.id} user={user} onSignOut={signOut} />;
+}
+
+function Dashboard({ user, onSignOut }: { user: User; onSignOut: () => void }) {
     const [expenses, setExpenses] = useState<Expense[]>([]);
     const [budget, setBudget] = useState<BudgetMap>({ total: 50000 });
     const [dark, setDark] = useState(false);
     const [chatOpen, setChatOpen] = useState(false);
+    const [importOpen, setImportOpen] = useState(false);
     const [isInitialized, setIsInitialized] = useState(false);
     const [query, setQuery] = useState("");
     const [activeChart, setActiveChart] = useState(0);
+    const [drillCategory, setDrillCategory] = useState<CategoryKey | null>(null);
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
+    const [budgetSettings, setBudgetSettings] = useState<BudgetSettings>({ cadence: "monthly", rollover: {} });
+    const [budgetStatus, setBudgetStatus] = useState<BudgetStatus | null>(null);
+    // Bumped when budgets change on the server (chat, category edits, restore) so the editor reloads.
+    const [budgetRevision, setBudgetRevision] = useState(0);
+    // Bumped after the editor saves, so the status catches up without reloading what is being typed.
+    const [statusRevision, setStatusRevision] = useState(0);
+    const budgetDirty = useRef(false);
+    const [upcomingBills, setUpcomingBills] = useState<UpcomingBill[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [currency, setCurrency] = useState<CurrencySettings>({ base: "INR", rates: [] });
+    baseCurrency = currency.base;
+    const [categoriesOpen, setCategoriesOpen] = useState(false);
+    const [toast, setToast] = useState<Toast | null>(null);
+    const [period, setPeriod] = useState<DashboardPeriod>({ kind: "month", month: startOfMonth(new Date()) });
+    const toastRef = useRef<{ timer: ReturnType<typeof setTimeout>; onExpire?: () => void } | null>(null);
 
     useEffect(() => {
         const isDarkMode = localStorage.getItem("budget_theme") === "dark" || (!("budget_theme" in localStorage) && window.matchMedia('(prefers-color-scheme: dark)').matches);
         setDark(isDarkMode);
-        try {
-            const storedExpenses = localStorage.getItem("budget_expenses");
-            const storedBudget = localStorage.getItem("budget_budget");
-            if (storedExpenses) setExpenses(JSON.parse(storedExpenses));
-            if (storedBudget) setBudget(JSON.parse(storedBudget));
-        } catch (e) { console.error("Failed to load data", e); }
-        setIsInitialized(true);
+        loadServerData()
+            .then(({ expenses, budget, upcomingBills, categories, budgetSettings, currency }) => {
+                setExpenses(expenses);
+                setBudget(budget);
+                setUpcomingBills(upcomingBills);
+                setCategories(categories);
+                setBudgetSettings(budgetSettings);
+                setCurrency(currency);
+            })
+            .catch((e) => console.error("Failed to load data", e))
+            .finally(() => setIsInitialized(true));
     }, []);
 
     useEffect(() => {
         if (!isInitialized) return;
         if (dark) document.documentElement.classList.add("dark"); else document.documentElement.classList.remove("dark");
         localStorage.setItem("budget_theme", dark ? "dark" : "light");
-        localStorage.setItem("budget_expenses", JSON.stringify(expenses));
-        localStorage.setItem("budget_budget", JSON.stringify(budget));
-    }, [dark, expenses, budget, isInitialized]);
+    }, [dark, isInitialized]);
+
+    // Budgets are versioned per period. The settings card edits the viewed month's period,
+    // or the current one when looking at a longer range.
+    const budgetDate = useMemo(() => (period.kind === "month" && !isSameMonth(period.month, new Date()) ? period.month : new Date()), [period]);
+    const budgetDateKey = format(budgetDate, "dd-MM-yyyy");
+
+    useEffect(() => {
+        if (!isInitialized) return;
+        budgetDirty.current = false;
+        fetch(`/api/budget?date=${budgetDateKey}`)
+            .then((res) => res.json())
+            .then((loaded: BudgetMap) => { if (!budgetDirty.current) setBudget(loaded); })
+            .catch((e) => console.error("Failed to load budget", e));
+    }, [budgetDateKey, budgetSettings.cadence, budgetRevision, isInitialized]);
+
+    const editBudget = (update: (b: BudgetMap) => BudgetMap) => {
+        budgetDirty.current = true;
+        setBudget(update);
+    };
+
+    // Budget edits are saved to the server, debounced so typing doesn't fire a request per keystroke.
+    useEffect(() => {
+        if (!isInitialized || !budgetDirty.current) return;
+        const timer = setTimeout(() => {
+            budgetDirty.current = false;
+            fetch(`/api/budget?date=${budgetDateKey}`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(budget),
+            })
+                .then(() => setStatusRevision((r) => r + 1))
+                .catch((e) => console.error("Failed to save budget", e));
+        }, 500);
+        return () => clearTimeout(timer);
+    }, [budget, budgetDateKey, isInitialized]);
+
+    const saveBudgetSettings = async (changes: { cadence?: BudgetCadence; rollover?: string[] }) => {
+        const res = await fetch("/api/budget/settings", {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(changes),
+        });
+        if (!res.ok) return;
+        setBudgetSettings((await res.json()).settings);
+        setBudgetRevision((r) => r + 1);
+    };
+
+    const toggleRollover = (key: string) => {
+        const keys = Object.keys(budgetSettings.rollover);
+        saveBudgetSettings({ rollover: keys.includes(key) ? keys.filter((k) => k !== key) : [...keys, key] });
+    };
+
+    const range = useMemo(() => periodRange(period), [period]);
+    const statusQuery = `from=${format(range.start, "dd-MM-yyyy")}&to=${format(range.end, "dd-MM-yyyy")}`;
+    // What the viewed range may spend, with rollover, from the server.
+    useEffect(() => {
+        if (!isInitialized) return;
+        let cancelled = false;
+        fetch(`/api/budget/status?${statusQuery}`)
+            .then((res) => res.json())
+            .then((status: BudgetStatus) => { if (!cancelled) setBudgetStatus(status); })
+            .catch((e) => console.error("Failed to load budget status", e));
+        return () => { cancelled = true; };
+    }, [statusQuery, expenses, statusRevision, budgetRevision, isInitialized]);
+
+    const [goals, setGoals] = useState<GoalProgress[]>([]);
+    useEffect(() => {
+        if (!isInitialized) return;
+        let cancelled = false;
+        fetch("/api/goals")
+            .then((res) => res.json())
+            .then((body: { goals: GoalProgress[] }) => { if (!cancelled) setGoals(body.goals); })
+            .catch((e) => console.error("Failed to load goals", e));
+        return () => { cancelled = true; };
+    }, [expenses, budgetRevision, isInitialized]);
+
+    const [forecast, setForecast] = useState<SpendingForecast | null>(null);
+    useEffect(() => {
+        if (!isInitialized) return;
+        let cancelled = false;
+        fetch("/api/forecast")
+            .then((res) => res.json())
+            .then((f: SpendingForecast) => { if (!cancelled) setForecast(f); })
+            .catch((e) => console.error("Failed to load forecast", e));
+        return () => { cancelled = true; };
+    }, [expenses, statusRevision, budgetRevision, isInitialized]);
 
-    const monthExpenses = useMemo(() => expenses.filter((e) => isSameMonth(e.date)), [expenses]);
-    const totalSpent = useMemo(() => monthExpenses.reduce((a, b) => a + b.amount, 0), [monthExpenses]);
+    const periodBudget = budgetStatus?.available ?? {};
+    const budgetPeriods = budgetStatus?.periods.length ?? 1;
+    const carriedTotal = budgetStatus?.carried.total || 0;
+    const cadenceName = CADENCE_NAMES[budgetSettings.cadence];
+    const parents = useMemo(() => parentMap(categories), [categories]);
+    // Everything in the period; the tag filter narrows the rest of the dashboard but not the tag totals.
+    const periodAll = useMemo(() => expenses.filter((e) => isInRange(e.date, range)), [expenses, range]);
+    const periodTransactions = useMemo(() => (tagFilter ? periodAll.filter((e) => e.tags?.includes(tagFilter)) : periodAll), [periodAll, tagFilter]);
+    const periodExpenses = useMemo(() => periodTransactions.filter((e) => e.type !== "income"), [periodTransactions]);
+    const totalSpent = useMemo(() => periodExpenses.reduce((a, b) => a + b.amount, 0), [periodExpenses]);
+    const totalIncome = useMemo(() => periodTransactions.filter((e) => e.type === "income").reduce((a, b) => a + b.amount, 0), [periodTransactions]);
+    const netSavings = totalIncome - totalSpent;
+    const savingsRate = totalIncome > 0 ? (netSavings / totalIncome) * 100 : null;
     const byCategory = useMemo(() => {
         const m = new Map<CategoryKey, number>();
-        monthExpenses.forEach((e) => m.set(e.category, (m.get(e.category) || 0) + e.amount));
+        periodExpenses.forEach((e) => {
+            const key = parents[e.category] ?? e.category;
+            m.set(key, (m.get(key) || 0) + e.amount);
+        });
         return Array.from(m.entries()).map(([k, v]) => ({ name: k, value: v }));
-    }, [monthExpenses]);
+    }, [periodExpenses, parents]);
+    // Trends always cover the twelve months ending with the selected period.
+    const trendSource = useMemo(() => (tagFilter ? expenses.filter((e) => e.tags?.includes(tagFilter)) : expenses), [expenses, tagFilter]);
+    const trendSeries = useMemo(() => monthlySeries(trendSource, range.end, 12, parents), [trendSource, range, parents]);
+    const trendCategories = useMemo(() => categories.filter((c) => c.type === "expense").map((c) => c.key).filter((k) => trendSeries.some((p) => p.byCategory[k])), [categories, trendSeries]);
+    const paceSeries = useMemo(() => cumulativeSeries(trendSource, range, periodBudget.total || 0), [trendSource, range, periodBudget]);
+    const selectCategory = (category: string) => setDrillCategory(category as CategoryKey);
+    const chartViews = [
+        { label: "By category", chart: <BarChartView data={byCategory.map(d => ({...d, category: d.name}))} onSelect={selectCategory} /> },
+        { label: "Share of spending", chart: <PieChartView data={byCategory} onSelect={selectCategory} /> },
+        { label: "Last 12 months", chart: <MonthlyTrendView data={trendSeries} /> },
+        { label: "Category trends", chart: <CategoryTrendView data={trendSeries} categories={trendCategories} onSelect={selectCategory} /> },
+        { label: "Spend vs. budget pace", chart: <PaceChartView data={paceSeries} /> },
+    ];
     const filteredExpenses = useMemo(() => {
         const q = query.toLowerCase().trim();
-        if (!q) return monthExpenses;
-        return monthExpenses.filter((e) => e.note?.toLowerCase().includes(q) || e.category.toLowerCase().includes(q));
-    }, [monthExpenses, query]);
+        if (!q) return periodTransactions;
+        return periodTransactions.filter((e) => e.note?.toLowerCase().includes(q) || e.category.toLowerCase().includes(q) || e.tags?.some((t) => `#${t}`.includes(q)));
+    }, [periodTransactions, query]);
 
-    const handleDataUpdate = ({ expenses: updatedExpenses, budget: updatedBudget }: { expenses?: Expense[], budget?: BudgetMap }) => {
+    // A budget from the server may belong to another period than the one being edited, so
+    // it only triggers a reload.
+    const handleDataUpdate = ({ expenses: updatedExpenses, budget: updatedBudget, upcomingBills: updatedBills, categories: updatedCategories, budgetSettings: updatedSettings, goals: updatedGoals, currency: updatedCurrency }: DataUpdate) => {
         if (updatedExpenses) setExpenses(updatedExpenses);
-        if (updatedBudget) setBudget(updatedBudget);
+        if (updatedSettings) setBudgetSettings(updatedSettings);
+        if (updatedBudget || updatedSettings) setBudgetRevision((r) => r + 1);
+        if (updatedBills) setUpcomingBills(updatedBills);
+        if (updatedCategories) setCategories(updatedCategories);
+        if (updatedGoals) setGoals(updatedGoals);
+        if (updatedCurrency) setCurrency(updatedCurrency);
+    };
+
+    // --- Toasts & Undo ---
+    // A toast's `onExpire` runs when it times out or is replaced, never after Undo.
+    // Deletes use it to reach the server only once the undo window has passed.
+    const dismissToast = (expire: boolean) => {
+        const current = toastRef.current;
+        if (!current) return;
+        clearTimeout(current.timer);
+        toastRef.current = null;
+        if (expire) current.onExpire?.();
+        setToast(null);
+    };
+
+    const showToast = (next: Toast) => {
+        dismissToast(true);
+        toastRef.current = { timer: setTimeout(() => dismissToast(true), UNDO_WINDOW_MS), onExpire: next.onExpire };
+        setToast(next);
+    };
+
+    useEffect(() => {
+        const flush = () => dismissToast(true);
+        window.addEventListener("beforeunload", flush);
+        return () => window.removeEventListener("beforeunload", flush);
+    }, []);
+
+    const patchExpense = async (id: string, updates: ExpenseChanges): Promise<{ expense?: Expense; error?: string }> => {
+        const res = await fetch(`/api/expenses/${encodeURIComponent(id)}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(updates),
+        });
+        const body = await res.json();
+        if (!res.ok) return { error: body.details?.join(" ") || body.error || "Update failed." };
+        return { expense: body };
+    };
+
+    const handleUpdate = async (original: Expense, updates: ExpenseChanges): Promise<string | null> => {
+        const { expense, error } = await patchExpense(original.id, updates);
+        if (error || !expense) return error || "Update failed.";
+        setExpenses((prev) => prev.map((e) => (e.id === original.id ? expense : e)));
+        showToast({
+            message: "Transaction updated.",
+            undo: async () => {
+                const { amount, currency, originalAmount, category, note, date, tags } = original;
+                const restored = await patchExpense(original.id, { amount: originalAmount ?? amount, currency: currency ?? null, category, note: note ?? "", date, tags: tags ?? [] });
+                if (restored.expense) setExpenses((prev) => prev.map((e) => (e.id === original.id ? restored.expense! : e)));
+            },
+        });
+        return null;
+    };
+
+    const handleDelete = (ids: string[]) => {
+        const removed = expenses.map((e, index) => ({ e, index })).filter(({ e }) => ids.includes(e.id));
+        if (removed.length === 0) return;
+        setExpenses((prev) => prev.filter((e) => !ids.includes(e.id)));
+        showToast({
+            message: removed.length === 1 ? "Transaction deleted." : `${removed.length} transactions deleted.`,
+            undo: () => setExpenses((prev) => {
+                const next = [...prev];
+                removed.forEach(({ e, index }) => next.splice(Math.min(index, next.length), 0, e));
+                return next;
+            }),
+            // keepalive lets the request finish even if the page is closing.
+            onExpire: () => {
+                fetch(`/api/expenses?ids=${ids.map(encodeURIComponent).join(",")}`, { method: "DELETE", keepalive: true })
+                    .catch((e) => console.error("Failed to delete", e));
+            },
+        });
+    };
+
+    const stopRecurring = async (ruleId: string) => {
+        const res = await fetch(`/api/recurring?id=${encodeURIComponent(ruleId)}`, { method: "DELETE" });
+        if (res.ok) setUpcomingBills((await res.json()).upcomingBills);
     };
     
-    const monthName = new Date().toLocaleString('default', { month: 'long', year: 'numeric' });
     const containerVariants = { hidden: { opacity: 0 }, show: { opacity: 1, transition: { staggerChildren: 0.1 } } };
     const itemVariants = { hidden: { y: 20, opacity: 0 }, show: { y: 0, opacity: 1 } };
 
     return (
+        <CategoryContext.Provider value={categories}>
         <div className="relative min-h-screen bg-background text-foreground">
             <div className="absolute inset-0 -z-10 bg-[radial-gradient(ellipse_80%_80%_at_50%_-20%,rgba(120,119,198,0.3),rgba(255,255,255,0))]"></div>
 
@@ -223,8 +1811,11 @@ export default function BudgetTrackerPage() {
                     <h1 className="text-lg font-semibold tracking-tight">My Budget Buddy</h1>
                     <div className="ml-auto flex items-center gap-2">
                         <Input placeholder="Search expenses..." value={query} onChange={e => setQuery(e.target.value)} className="w-48"/>
+                        <NotificationCenter expenses={expenses} budget={budget} />
                         <Button variant="outline" size="icon" onClick={() => setDark(d => !d)}>{dark ? <Sun size={16} /> : <Moon size={16} />}</Button>
+                        <Button variant="outline" onClick={() => setImportOpen(true)}><Upload size={16} className="mr-2"/> Import</Button>
                         <Button onClick={() => setChatOpen(true)}><Plus size={16} className="mr-2"/> Add / Ask</Button>
+                        <Button variant="ghost" onClick={onSignOut} title={`Signed in as ${user.username}`}><LogOut size={16} className="mr-2"/> {user.username}</Button>
                     </div>
                 </div>
             </header>
@@ -232,43 +1823,71 @@ export default function BudgetTrackerPage() {
             <motion.main variants={containerVariants} initial="hidden" animate="show" className="mx-auto max-w-6xl px-4 py-6 space-y-8">
                 <motion.div variants={itemVariants}>
                     <Card>
-                        <CardHeader>
-                            <CardTitle className="text-2xl">{monthName} Overview</CardTitle>
-                            <CardDescription>Your financial summary for the current month. Use the dots to switch views.</CardDescription>
+                        <CardHeader className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                            <div>
+                                <CardTitle className="text-2xl flex items-center gap-2">
+                                    {range.label} Overview
+                                    {tagFilter && (
+                                        <Badge variant="outline" className="text-sm font-normal">
+                                            #{tagFilter}
+                                            <button onClick={() => setTagFilter(null)} className="ml-1 text-muted-foreground hover:text-foreground" aria-label="Clear tag filter"><X size={12} /></button>
+                                        </Badge>
+                                    )}
+                                </CardTitle>
+                                <CardDescription>Your financial summary for the selected period. Use the dots to switch views, or click a category to see its trend.</CardDescription>
+                            </div>
+                            <PeriodSelector period={period} onChange={setPeriod} />
                         </CardHeader>
                         <CardContent>
                             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                                 <div className="space-y-4">
                                     <div className="flex items-baseline gap-2">
                                         <span className="text-sm text-muted-foreground">Total Spent</span>
-                                        <Badge variant="outline">{monthExpenses.length} entries</Badge>
+                                        <Badge variant="outline">{periodExpenses.length} entries</Badge>
                                     </div>
                                     <p className="text-4xl font-bold">{formatCurrency(totalSpent)}</p>
                                     <div>
                                         <div className="flex justify-between text-sm mb-1">
-                                            <span>Monthly Budget</span>
-                                            <span>{formatCurrency(budget.total || 0)}</span>
+                                            <span>{budgetPeriods === 1 ? `${cadenceName.adjective} Budget` : `Budget (${budgetPeriods} ${cadenceName.unit})`}</span>
+                                            <span>{formatCurrency(periodBudget.total || 0)}</span>
+                                        </div>
+                                        <Progress value={periodBudget.total ? Math.min(100, (totalSpent / periodBudget.total) * 100) : 0} />
+                                        {carriedTotal !== 0 && (
+                                            <p className="text-xs text-muted-foreground mt-1">
+                                                {carriedTotal > 0 ? `Includes ${formatCurrency(carriedTotal)} rolled over` : `Less ${formatCurrency(-carriedTotal)} overspent earlier`}
+                                            </p>
+                                        )}
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-3 border-t pt-4">
+                                        <div>
+                                            <span className="text-xs text-muted-foreground flex items-center gap-1"><TrendingUp size={12} /> Income</span>
+                                            <p className="text-lg font-semibold">{formatCurrency(totalIncome)}</p>
+                                        </div>
+                                        <div>
+                                            <span className="text-xs text-muted-foreground flex items-center gap-1"><PiggyBank size={12} /> Net Savings</span>
+                                            <p className={`text-lg font-semibold ${netSavings < 0 ? 'text-destructive' : ''}`}>{formatCurrency(netSavings)}</p>
+                                            <p className="text-xs text-muted-foreground">{savingsRate === null ? "No income logged" : `${savingsRate.toFixed(0)}% savings rate`}</p>
                                         </div>
-                                        <Progress value={budget.total ? Math.min(100, (totalSpent / budget.total) * 100) : 0} />
                                     </div>
                                 </div>
                                 <div className="md:col-span-2">
                                     <div className="h-[250px] relative overflow-hidden">
                                         <motion.div
-                                            className="w-[200%] h-full flex"
-                                            animate={{ x: `-${activeChart * 50}%` }}
+                                            className="h-full flex"
+                                            style={{ width: `${chartViews.length * 100}%` }}
+                                            animate={{ x: `-${(activeChart * 100) / chartViews.length}%` }}
                                             transition={{ type: "tween", ease: "easeInOut" }}
                                         >
-                                            <div className="w-1/2 h-full">
-                                                <BarChartView data={byCategory.map(d => ({...d, category: d.name}))} />
-                                            </div>
-                                            <div className="w-1/2 h-full">
-                                                <PieChartView data={byCategory} />
-                                            </div>
+                                            {chartViews.map((view) => (
+                                                <div key={view.label} className="h-full" style={{ width: `${100 / chartViews.length}%` }}>
+                                                    {view.chart}
+                                                </div>
+                                            ))}
                                         </motion.div>
                                     </div>
-                                    <div className="flex justify-center items-center gap-2 mt-4">
-                                        {[0, 1].map((index) => (
+                                    <p className="text-center text-xs text-muted-foreground mt-3">{chartViews[activeChart].label}</p>
+                                    <div className="flex justify-center items-center gap-2 mt-2">
+                                        {chartViews.map((view, index) => (
                                             <button
                                                 key={index}
                                                 onClick={() => setActiveChart(index)}
@@ -276,7 +1895,7 @@ export default function BudgetTrackerPage() {
                                                 className={`h-2 rounded-full transition-all duration-300 ${
                                                     activeChart === index ? 'w-4 bg-primary' : 'w-2 bg-secondary hover:bg-border'
                                                 }`}
-                                                aria-label={`Go to chart ${index + 1}`}
+                                                aria-label={`Show ${view.label} chart`}
                                             />
                                         ))}
                                     </div>
@@ -286,38 +1905,54 @@ export default function BudgetTrackerPage() {
                     </Card>
                 </motion.div>
 
+                {drillCategory && (
+                    <motion.div variants={itemVariants}>
+                        <CategoryDrillDown category={drillCategory} series={trendSeries} transactions={periodTransactions} budget={periodBudget} onClose={() => setDrillCategory(null)} />
+                    </motion.div>
+                )}
+
                 <motion.div variants={containerVariants} className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                     <motion.div variants={itemVariants} className="lg:col-span-2">
                         <Card>
-                            <CardHeader><CardTitle>Recent Expenses</CardTitle><CardDescription>Your latest transactions this month.</CardDescription></CardHeader>
+                            <CardHeader><CardTitle>Transactions</CardTitle><CardDescription>Your income and expenses for {range.label}. Hover a row to edit or delete it.</CardDescription></CardHeader>
                             <CardContent>
-                                <motion.ul variants={containerVariants} className="space-y-2">
-                                    {filteredExpenses.length > 0 ? filteredExpenses.slice(0, 10).map((e) => (
-                                        <motion.li key={e.id} variants={itemVariants} className="flex items-center gap-4 p-2 rounded-lg hover:bg-accent">
-                                            <div className="w-9 h-9 flex-shrink-0 rounded-full bg-secondary flex items-center justify-center">{CATEGORIES.find(c => c.key === e.category)?.icon}</div>
-                                            <div className="flex-grow"><p className="font-medium">{e.note || e.category}</p><p className="text-xs text-muted-foreground">{e.date}</p></div>
-                                            <p className="font-semibold">{formatCurrency(e.amount)}</p>
-                                        </motion.li>
-                                    )) : <p className="text-center py-8 text-muted-foreground">No expenses found.</p>}
-                                </motion.ul>
+                                <TransactionList transactions={filteredExpenses} onUpdate={handleUpdate} onDelete={handleDelete} onSelectTag={setTagFilter} />
                             </CardContent>
                         </Card>
                     </motion.div>
 
                     <motion.div variants={itemVariants} className="space-y-6">
                         <Card>
-                            <CardHeader><CardTitle className="flex items-center gap-2"><Wallet />Budget Settings</CardTitle></CardHeader>
+                            <CardHeader className="flex flex-row items-center justify-between">
+                                <CardTitle className="flex items-center gap-2"><Wallet />Budget Settings</CardTitle>
+                                <Button variant="ghost" className="h-8 px-3" onClick={() => setCategoriesOpen(true)}><Settings2 size={14} className="mr-1" /> Categories</Button>
+                            </CardHeader>
                             <CardContent className="space-y-4">
+                                <div className="flex items-center justify-between gap-2">
+                                    <p className="text-xs text-muted-foreground">For {budgetPeriodLabel(budgetDate, budgetSettings.cadence)}; later periods keep these amounts until changed.</p>
+                                    <select
+                                        aria-label="Budget period"
+                                        value={budgetSettings.cadence}
+                                        onChange={(e) => saveBudgetSettings({ cadence: e.target.value as BudgetCadence })}
+                                        className="h-8 rounded-md border bg-background px-2 text-sm"
+                                    >
+                                        {(Object.keys(CADENCE_NAMES) as BudgetCadence[]).map((c) => <option key={c} value={c}>{CADENCE_NAMES[c].adjective}</option>)}
+                                    </select>
+                                </div>
                                 <div>
-                                    <label className="text-sm font-medium">Total Monthly Budget (₹)</label>
-                                    <Input type="number" placeholder="e.g., 50000" value={budget.total || ""} onChange={(e) => setBudget(b => ({...b, total: parseInt(e.target.value) || 0}))}/>
+                                    <label className="text-sm font-medium">Total {cadenceName.adjective} Budget ({currencySymbol()})</label>
+                                    <Input type="number" placeholder="e.g., 50000" value={budget.total || ""} onChange={(e) => editBudget(b => ({...b, total: parseInt(e.target.value) || 0}))}/>
+                                    <label className="flex items-center gap-2 text-xs text-muted-foreground mt-1.5">
+                                        <input type="checkbox" checked={"total" in budgetSettings.rollover} onChange={() => toggleRollover("total")} />
+                                        Roll unspent budget (or overspend) into the next period
+                                    </label>
                                 </div>
                                 <div className="border-t pt-4">
                                   <h4 className="text-sm font-semibold mb-3">Category Budgets (Optional)</h4>
                                   <div className="grid grid-cols-2 gap-3">
-                                      {CATEGORIES.map(({ key, icon }) => (
+                                      {orderedCategories(categories, "expense").map(({ key, parent }) => (
                                           <div key={key}>
-                                              <label htmlFor={`budget-${key}`} className="text-xs font-medium flex items-center gap-1.5 mb-1.5 text-muted-foreground">{icon} {key}</label>
+                                              <label htmlFor={`budget-${key}`} className="text-xs font-medium flex items-center gap-1.5 mb-1.5 text-muted-foreground"><CategoryIcon category={key} /> {parent ? `${parent} › ${key}` : key}</label>
                                               <Input 
                                                   id={`budget-${key}`}
                                                   type="number"
@@ -325,7 +1960,7 @@ export default function BudgetTrackerPage() {
                                                   value={budget[key] || ""}
                                                   onChange={(e) => {
                                                       const value = e.target.value;
-                                                      setBudget(b => {
+                                                      editBudget(b => {
                                                           const newBudget = {...b};
                                                           if (value === '' || parseInt(value, 10) === 0) {
                                                               delete newBudget[key];
@@ -336,19 +1971,47 @@ export default function BudgetTrackerPage() {
                                                       });
                                                   }}
                                               />
+                                              {budget[key] ? (
+                                                  <label className="flex items-center gap-1.5 text-xs text-muted-foreground mt-1">
+                                                      <input type="checkbox" checked={key in budgetSettings.rollover} onChange={() => toggleRollover(key)} />
+                                                      Roll over
+                                                  </label>
+                                              ) : null}
                                           </div>
                                       ))}
                                   </div>
                               </div>
                             </CardContent>
                         </Card>
-                        <CategoryBudgets byCategory={byCategory} budget={budget} />
+                        <CategoryBudgets expenses={periodExpenses} budget={periodBudget} carried={budgetStatus?.carried ?? {}} />
+                        <ForecastCard forecast={forecast} />
+                        <GoalsCard goals={goals} onChange={setGoals} />
+                        <TagTotals expenses={periodAll.filter((e) => e.type !== "income")} selected={tagFilter} onSelect={setTagFilter} />
+                        <UpcomingBills bills={upcomingBills} onStop={stopRecurring} />
+                        <CurrencyCard settings={currency} onDataUpdate={handleDataUpdate} />
+                        <DataCard period={period} label={range.label} onRestored={handleDataUpdate} />
                     </motion.div>
                 </motion.div>
             </motion.main>
 
-            <AnimatePresence>{chatOpen && <Chatbot expenses={expenses} onClose={() => setChatOpen(false)} onDataUpdate={handleDataUpdate} />}</AnimatePresence>
+            <ToastBar toast={toast} onUndo={() => { toast?.undo?.(); dismissToast(false); }} onDismiss={() => dismissToast(true)} />
+
+            <AnimatePresence>
+                {importOpen && (
+                    <ImportDialog
+                        onClose={() => setImportOpen(false)}
+                        onImported={(imported, count) => {
+                            setExpenses(imported);
+                            setImportOpen(false);
+                            showToast({ message: `${count} transactions imported.` });
+                        }}
+                    />
+                )}
+            </AnimatePresence>
+            <AnimatePresence>{chatOpen && <Chatbot period={periodParam(period)} onClose={() => setChatOpen(false)} onDataUpdate={handleDataUpdate} />}</AnimatePresence>
+            <AnimatePresence>{categoriesOpen && <CategoryManager onClose={() => setCategoriesOpen(false)} onDataUpdate={handleDataUpdate} />}</AnimatePresence>
         </div>
+        </CategoryContext.Provider>
     );
 }
 
@@ -373,32 +2036,157 @@ const CustomTooltip = ({ active, payload, label }: any) => {
     return null;
 };
 
-const BarChartView = ({ data }: { data: { category: string, value: number }[] }) => (
+const formatAxisAmount = (v: number) => `${currencySymbol()}${Number(v)/1000}k`;
+
+const BarChartView = ({ data, onSelect }: { data: { category: string, value: number }[], onSelect?: (category: string) => void }) => {
+    const { colorOf } = useCategories();
+    return (
     <ResponsiveContainer width="100%" height="100%">
         <BarChart data={data} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
             <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
             <XAxis dataKey="category" fontSize={12} tickLine={false} axisLine={false} stroke="hsl(var(--muted-foreground))" />
-            <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={(v) => `₹${Number(v)/1000}k`} stroke="hsl(var(--muted-foreground))" />
+            <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={formatAxisAmount} stroke="hsl(var(--muted-foreground))" />
             <RechartsTooltip cursor={{ fill: 'hsl(var(--accent))' }} content={<CustomTooltip />} />
-            <Bar dataKey="value" name="Amount" radius={[4, 4, 0, 0]}>
-                {data.map((_, i) => <Cell key={`cell-${i}`} fill={CATEGORY_COLORS[i % CATEGORY_COLORS.length]} />)}
+            <Bar dataKey="value" name="Amount" radius={[4, 4, 0, 0]} className={onSelect ? "cursor-pointer" : ""} onClick={(item) => onSelect?.(item.payload.category)}>
+                {data.map((d, i) => <Cell key={`cell-${i}`} fill={colorOf(d.category)} />)}
             </Bar>
         </BarChart>
     </ResponsiveContainer>
-);
+    );
+};
 
-const PieChartView = ({ data }: { data: { name: string, value: number }[] }) => (
+const PieChartView = ({ data, onSelect }: { data: { name: string, value: number }[], onSelect?: (category: string) => void }) => {
+    const { colorOf } = useCategories();
+    return (
     <ResponsiveContainer width="100%" height="100%">
         <PieChart>
-            <Pie data={data} dataKey="value" nameKey="name" cx="50%" cy="50%" innerRadius={50} outerRadius={80} paddingAngle={2}>
-                {data.map((_, i) => <Cell key={`cell-${i}`} fill={CATEGORY_COLORS[i % CATEGORY_COLORS.length]} stroke="hsl(var(--background))" />)}
+            <Pie data={data} dataKey="value" nameKey="name" cx="50%" cy="50%" innerRadius={50} outerRadius={80} paddingAngle={2} className={onSelect ? "cursor-pointer" : ""} onClick={(item) => onSelect?.(item.name)}>
+                {data.map((d, i) => <Cell key={`cell-${i}`} fill={colorOf(d.name)} stroke="hsl(var(--background))" />)}
             </Pie>
             <RechartsTooltip content={<CustomTooltip />} />
             <Legend iconSize={10} wrapperStyle={{ fontSize: '12px', color: 'hsl(var(--muted-foreground))' }} />
         </PieChart>
     </ResponsiveContainer>
+    );
+};
+
+const MonthlyTrendView = ({ data }: { data: MonthlyPoint[] }) => (
+    <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={data} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+            <defs>
+                <linearGradient id="trendFill" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor={CATEGORY_COLORS[0]} stopOpacity={0.4} />
+                    <stop offset="95%" stopColor={CATEGORY_COLORS[0]} stopOpacity={0} />
+                </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+            <XAxis dataKey="month" fontSize={12} tickLine={false} axisLine={false} stroke="hsl(var(--muted-foreground))" />
+            <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={formatAxisAmount} stroke="hsl(var(--muted-foreground))" />
+            <RechartsTooltip content={<CustomTooltip />} />
+            <Area type="monotone" dataKey="total" name="Spent" stroke={CATEGORY_COLORS[0]} strokeWidth={2} fill="url(#trendFill)" />
+        </AreaChart>
+    </ResponsiveContainer>
+);
+
+const CategoryTrendView = ({ data, categories, onSelect }: { data: MonthlyPoint[], categories: CategoryKey[], onSelect?: (category: string) => void }) => {
+    const { colorOf } = useCategories();
+    return (
+    <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+            <XAxis dataKey="month" fontSize={12} tickLine={false} axisLine={false} stroke="hsl(var(--muted-foreground))" />
+            <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={formatAxisAmount} stroke="hsl(var(--muted-foreground))" />
+            <RechartsTooltip cursor={{ fill: 'hsl(var(--accent))' }} content={<CustomTooltip />} />
+            <Legend iconSize={10} wrapperStyle={{ fontSize: '12px', color: 'hsl(var(--muted-foreground))' }} />
+            {categories.map((c) => (
+                <Bar key={c} dataKey={(p: MonthlyPoint) => p.byCategory[c] || 0} name={c} stackId="categories" fill={colorOf(c)} className={onSelect ? "cursor-pointer" : ""} onClick={() => onSelect?.(c)} />
+            ))}
+        </BarChart>
+    </ResponsiveContainer>
+    );
+};
+
+const PaceChartView = ({ data }: { data: PacePoint[] }) => (
+    <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+            <XAxis dataKey="day" fontSize={12} tickLine={false} axisLine={false} minTickGap={24} stroke="hsl(var(--muted-foreground))" />
+            <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={formatAxisAmount} stroke="hsl(var(--muted-foreground))" />
+            <RechartsTooltip content={<CustomTooltip />} />
+            <Legend iconSize={10} wrapperStyle={{ fontSize: '12px', color: 'hsl(var(--muted-foreground))' }} />
+            <Line type="monotone" dataKey="spent" name="Spent so far" stroke={CATEGORY_COLORS[0]} strokeWidth={2} dot={false} />
+            <Line type="linear" dataKey="pace" name="Budget pace" stroke="hsl(var(--muted-foreground))" strokeDasharray="5 5" dot={false} />
+        </LineChart>
+    </ResponsiveContainer>
 );
 
+// --- Category Drill-Down ---
+// Opened by clicking a category in any chart: its 12-month trend and largest entries in the period.
+const CategoryDrillDown = ({ category, series, transactions, budget, onClose }: { category: CategoryKey, series: MonthlyPoint[], transactions: Expense[], budget: BudgetMap, onClose: () => void }) => {
+    const { colorOf, parentOf } = useCategories();
+    // A parent category's drill-down includes its sub-categories, with a breakdown of each.
+    const entries = transactions.filter((e) => e.type !== "income" && (e.category === category || parentOf(e.category) === category));
+    const total = entries.reduce((a, b) => a + b.amount, 0);
+    const largest = [...entries].sort((a, b) => b.amount - a.amount).slice(0, 5);
+    const bySubcategory = Array.from(entries.reduce((m, e) => m.set(e.category, (m.get(e.category) || 0) + e.amount), new Map<string, number>()).entries()).sort((a, b) => b[1] - a[1]);
+    const color = colorOf(category);
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+                <div>
+                    <CardTitle>{category} Trend</CardTitle>
+                    <CardDescription>
+                        {formatCurrency(total)} across {entries.length} entries in this period
+                        {budget[category] ? ` · ${formatCurrency(budget[category] || 0)} budget` : ""}
+                    </CardDescription>
+                </div>
+                <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close drill-down"><X size={16} /></Button>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="md:col-span-2 h-[220px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={series} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+                            <XAxis dataKey="month" fontSize={12} tickLine={false} axisLine={false} stroke="hsl(var(--muted-foreground))" />
+                            <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={formatAxisAmount} stroke="hsl(var(--muted-foreground))" />
+                            <RechartsTooltip cursor={{ fill: 'hsl(var(--accent))' }} content={<CustomTooltip />} />
+                            <Bar dataKey={(p: MonthlyPoint) => p.byCategory[category] || 0} name={category} fill={color} radius={[4, 4, 0, 0]} />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+                <div>
+                    {bySubcategory.length > 1 && (
+                        <>
+                            <p className="text-sm font-medium mb-2">By sub-category</p>
+                            <ul className="space-y-2 text-sm mb-4">
+                                {bySubcategory.map(([key, amount]) => (
+                                    <li key={key} className="flex justify-between gap-2">
+                                        <span className="flex items-center gap-2"><CategoryIcon category={key} /> {key === category ? `${key} (general)` : key}</span>
+                                        <span className="font-medium">{formatCurrency(amount)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                    <p className="text-sm font-medium mb-2">Largest entries</p>
+                    {largest.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Nothing logged in this period.</p>
+                    ) : (
+                        <ul className="space-y-2 text-sm">
+                            {largest.map((e) => (
+                                <li key={e.id} className="flex justify-between gap-2">
+                                    <span className="truncate">{e.note || category} <span className="text-muted-foreground">· {e.date}</span></span>
+                                    <span className="font-medium">{formatCurrency(e.amount)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
+
 // --- SummaryCard Component ---
 const SummaryCard = ({ data }: { data: { category: string, total: number }[] }) => {
   return (
@@ -421,14 +2209,372 @@ const SummaryCard = ({ data }: { data: { category: string, total: number }[] })
   );
 };
 
+// --- Chat Routing ---
+// Two pipelines answer chat messages, both working on the same server-side data and
+// conversation: /api/entries logs and edits transactions, /api/assistant analyzes the
+// whole history and gives advice. "Auto" picks one per message; the toggle can force either.
+type ChatMode = 'auto' | 'log' | 'analyze';
+
+const CHAT_ENDPOINTS: Record<Exclude<ChatMode, 'auto'>, string> = { log: '/api/entries', analyze: '/api/assistant' };
+
+// An amount like "200", "1.5k" or "₹450"; single digits ("last 3 months") don't count.
+const AMOUNT_IN_TEXT = /(?:[₹$€£]\s?\d|\b\d+(?:\.\d+)?\s*k\b|\b\d{2,}(?:,\d{3})*(?:\.\d+)?\b)/i;
+
+// Follow-ups that act on transactions ("undo", "delete the second one", "show my last 5
+// expenses") and anything with an amount ("Could you log 200 for lunch?", "spending 450 on
+// groceries") go to logging, which also answers questions; other questions and analysis
+// requests go to the assistant, and anything else is logged.
+const routeChat = (text: string): Exclude<ChatMode, 'auto'> => {
+  const message = text.trim();
+  if (/^(undo|revert|delete|remove)\b/i.test(message)) return 'log';
+  if (/^(show|list)\b.*\b(expenses?|transactions?|income)\b/i.test(message) && !/\b(how much|total|summary)\b/i.test(message)) return 'log';
+  if (/\b(change|make|update|correct)\b.*\b(it|that|last|one)\b/i.test(message)) return 'log';
+  if (AMOUNT_IN_TEXT.test(message)) return 'log';
+  if (/\?\s*$/.test(message)) return 'analyze';
+  if (/^(how|what|why|where|which|when|should|will|would|can|could|am|is|are|do|does|did)\b/i.test(message)) return 'analyze';
+  if (/\b(advice|tips?|analy[sz]e|insights?|compare|vs|versus|trends?|forecast|summary|breakdown|on track|afford|spending)\b/i.test(message)) return 'analyze';
+  return 'log';
+};
+
+// Reads a server-sent event stream, calling `onEvent` with each event's name and data.
+const readEvents = async (body: ReadableStream<Uint8Array>, onEvent: (event: string, data: any) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split("\n\n");
+    buffer = frames.pop() ?? "";
+    frames.forEach((frame) => {
+      const event = frame.match(/^event: (.*)$/m)?.[1] ?? "message";
+      const data = frame.match(/^data: (.*)$/m)?.[1];
+      onEvent(event, data ? JSON.parse(data) : {});
+    });
+  }
+};
+
+// --- PendingCard Component ---
+// A change the chat worked out but holds back until it's confirmed: expenses to log (untick
+// any to leave them out), income, an edit to or deletion of a transaction, a budget change,
+// or a new recurring bill or goal. Edits are saved to the held change on the server, so
+// what gets applied is exactly what the card shows.
+const expenseDetails = (e: Expense) => (
+  <>
+    <div className="flex-grow">
+      <p className="font-medium">{e.note || e.category}</p>
+      <p className="text-xs text-muted-foreground">
+        {e.date} · {e.category}
+        {e.split && <span className="ml-1.5 inline-flex items-center gap-0.5"><Users size={11} /> {splitLabel(e.split)}</span>}
+      </p>
+    </div>
+    <div className="text-right">
+      <p className="font-semibold">{formatCurrency(e.amount)}</p>
+      {e.currency && e.originalAmount !== undefined && <p className="text-xs text-muted-foreground">{formatCurrency(e.originalAmount, e.currency)}</p>}
+    </div>
+  </>
+);
+
+const PendingCard = ({ pending: held, onResolved }: { pending: PendingChange; onResolved: (reply: string, data?: DataUpdate) => void }) => {
+  const [pending, setPending] = useState(held);
+  const [keep, setKeep] = useState<boolean[]>(() => (held.kind === 'log_expenses' ? held.expenses.map(() => true) : []));
+  // The item being edited: its position for expenses, 0 for anything else.
+  const [editing, setEditing] = useState<number | null>(null);
+  const [amountDraft, setAmountDraft] = useState("");
+  const [status, setStatus] = useState<'open' | 'saving' | 'done'>('open');
+  const [error, setError] = useState<string | null>(null);
+  const { label } = useCategories();
+  const url = `/api/pending/${encodeURIComponent(pending.id)}`;
+  const kept = keep.filter(Boolean).length;
+
+  const expire = () => {
+    setStatus('done');
+    onResolved("⌛ That confirmation has expired. Send the message again.");
+  };
+
+  // Returns the error for the editor to show, or null once the card is redrawn.
+  const saveEdit = async (edit: object): Promise<string | null> => {
+    try {
+      const res = await fetch(url, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify(edit) });
+      if (res.status === 404) { expire(); return null; }
+      const body = await res.json();
+      if (!res.ok) return body.error;
+      setPending(body.pending);
+      setEditing(null);
+      return null;
+    } catch {
+      return "Couldn't reach the server. Please try again.";
+    }
+  };
+
+  const startEdit = (index: number) => {
+    if (pending.kind === 'set_budget') setAmountDraft(String(pending.amount));
+    if (pending.kind === 'add_recurring') setAmountDraft(String(pending.rule.amount));
+    if (pending.kind === 'add_goal') setAmountDraft(String(pending.goal.target));
+    setEditing(index);
+  };
+
+  const resolve = async (confirm: boolean) => {
+    setStatus('saving');
+    setError(null);
+    try {
+      const keepList = pending.kind === 'log_expenses' ? { keep: keep.flatMap((k, i) => (k ? [i] : [])) } : {};
+      const res = await fetch(url, confirm
+        ? { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(keepList) }
+        : { method: "DELETE" });
+      if (res.status === 404) return expire();
+      if (!res.ok) throw new Error((await res.json()).error);
+      setStatus('done');
+      if (!confirm) return onResolved("👍 Cancelled. Nothing was changed.");
+      const data = await res.json();
+      onResolved(data.reply, { expenses: data.updatedExpenses, budget: data.updatedBudget, upcomingBills: data.updatedUpcomingBills, goals: data.updatedGoals });
+    } catch (e) {
+      setStatus('open');
+      setError(e instanceof Error && e.message ? e.message : "Couldn't reach the server. Please try again.");
+    }
+  };
+
+  const open = status === 'open' && editing === null;
+  const heading = {
+    log_expenses: pending.kind === 'log_expenses' && pending.expenses.length > 1 ? `🧾 Log these ${pending.expenses.length} expenses?` : "🧾 Log this expense?",
+    update_expense: "✏️ Apply this change?",
+    set_budget: "💰 Change this budget?",
+    log_income: "💰 Log this income?",
+    delete_expense: "🗑️ Delete this transaction?",
+    add_recurring: "🔁 Add this recurring bill?",
+    add_goal: "🎯 Create this goal?",
+  }[pending.kind];
+
+  // Budgets, bills and goals are edited by their amount alone.
+  const amountForm = (label: string, toEdit: (amount: number) => object) => (
+    <form className="flex items-center gap-2" onSubmit={async (e) => { e.preventDefault(); setError(await saveEdit(toEdit(Number(amountDraft)))); }}>
+      <Input type="number" min="0" value={amountDraft} onChange={(e) => setAmountDraft(e.target.value)} className="h-8 w-28" aria-label={label} autoFocus />
+      <Button variant="ghost" type="button" onClick={() => setEditing(null)} className="h-8 px-2">Cancel</Button>
+      <Button type="submit" className="h-8 px-2"><Check size={14} /></Button>
+    </form>
+  );
+
+  return (
+    <div className="whitespace-normal">
+      <p>{heading}</p>
+      <div className="mt-2 border-t border-black/10 dark:border-white/10 pt-3 text-sm">
+        {pending.kind === 'log_expenses' && (
+          <ul className="space-y-2">
+            {pending.expenses.map((e, i) => editing === i ? (
+              <EditTransactionRow key={e.id} expense={e} onCancel={() => setEditing(null)} onSave={(changes) => saveEdit({ item: i, changes })} />
+            ) : (
+              <li key={e.id} className={`flex items-start gap-2 ${keep[i] ? "" : "opacity-50"}`}>
+                <input
+                  type="checkbox"
+                  checked={keep[i]}
+                  disabled={!open}
+                  onChange={() => setKeep((k) => k.map((v, j) => (j === i ? !v : v)))}
+                  aria-label={`Include ${e.note || e.category}`}
+                  className="mt-1 h-4 w-4 accent-primary"
+                />
+                {expenseDetails(e)}
+                {open && <button onClick={() => startEdit(i)} className="p-1 rounded-md text-muted-foreground hover:text-foreground" aria-label="Edit expense"><Pencil size={14} /></button>}
+              </li>
+            ))}
+          </ul>
+        )}
+        {pending.kind === 'update_expense' && (editing === 0 ? (
+          <ul><EditTransactionRow expense={pending.after} onCancel={() => setEditing(null)} onSave={(changes) => saveEdit({ changes })} /></ul>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-start gap-2 text-muted-foreground line-through">{expenseDetails(pending.before)}</div>
+            <div className="flex items-start gap-2">{expenseDetails(pending.after)}</div>
+          </div>
+        ))}
+        {pending.kind === 'set_budget' && (
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <p className="font-medium">{pending.key === "total" ? "Total" : label(pending.key)} budget</p>
+              <p className="text-xs text-muted-foreground">{pending.period}</p>
+            </div>
+            {editing === 0 ? amountForm("Budget amount", (amount) => ({ amount })) : (
+              <p className="text-right">
+                <span className="text-muted-foreground">{pending.before === undefined ? "Not set" : formatCurrency(pending.before)}</span>
+                {" → "}
+                <span className="font-semibold">{formatCurrency(pending.amount)}</span>
+              </p>
+            )}
+          </div>
+        )}
+        {pending.kind === 'log_income' && (editing === 0 ? (
+          <ul><EditTransactionRow expense={pending.income} onCancel={() => setEditing(null)} onSave={(changes) => saveEdit({ changes })} /></ul>
+        ) : (
+          <div className="flex items-start gap-2">{expenseDetails(pending.income)}</div>
+        ))}
+        {pending.kind === 'delete_expense' && (
+          <div className="flex items-start gap-2 text-muted-foreground line-through">{expenseDetails(pending.expense)}</div>
+        )}
+        {pending.kind === 'add_recurring' && (
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <p className="font-medium">{pending.rule.note || label(pending.rule.category)}</p>
+              <p className="text-xs text-muted-foreground">
+                {pending.rule.cadence === 'custom' ? `Day ${pending.rule.dayOfMonth} of each month` : pending.rule.cadence.charAt(0).toUpperCase() + pending.rule.cadence.slice(1)} from {pending.rule.startDate}
+                {pending.rule.endDate && ` to ${pending.rule.endDate}`}
+              </p>
+            </div>
+            {editing === 0
+              ? amountForm("Bill amount", (amount) => ({ changes: { amount } }))
+              : <p className="font-semibold">{formatCurrency(pending.rule.amount)}</p>}
+          </div>
+        )}
+        {pending.kind === 'add_goal' && (
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <p className="font-medium">{pending.goal.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {pending.goal.deadline ? `By ${pending.goal.deadline}` : "No deadline"}
+                {pending.goal.monthlyContribution !== undefined && ` · up to ${formatCurrency(pending.goal.monthlyContribution)} a month`}
+              </p>
+            </div>
+            {editing === 0
+              ? amountForm("Goal target", (target) => ({ changes: { target } }))
+              : <p className="font-semibold">{formatCurrency(pending.goal.target)}</p>}
+          </div>
+        )}
+      </div>
+      {error && <p className="mt-2 text-xs text-red-500">{error}</p>}
+      {status !== 'done' && editing === null && (
+        <div className="mt-3 flex justify-end gap-2">
+          <Button variant="ghost" size="normal" onClick={() => resolve(false)} disabled={status === 'saving'}>Cancel</Button>
+          {pending.kind !== 'delete_expense' && (pending.kind !== 'log_expenses' || pending.expenses.length === 1) && (
+            <Button variant="outline" size="normal" onClick={() => startEdit(0)} disabled={status === 'saving'}>
+              <Pencil className="h-4 w-4 mr-1" /> Edit
+            </Button>
+          )}
+          <Button size="normal" onClick={() => resolve(true)} disabled={status === 'saving' || (pending.kind === 'log_expenses' && kept === 0)}>
+            <Check className="h-4 w-4 mr-1" /> {pending.kind === 'delete_expense' ? "Delete" : pending.kind !== 'log_expenses' ? "Confirm" : kept === 1 ? "Log it" : `Log ${kept}`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- ConfirmSettingsPanel Component ---
+// When chat changes are applied without the card: never, or when the model is sure enough
+// and the amount is small enough.
+const CONFIDENCE_STEPS = [50, 60, 70, 80, 90, 100];
+
+const ConfirmSettingsPanel = () => {
+  const [settings, setSettings] = useState<ConfirmSettings | null>(null);
+  const [maxDraft, setMaxDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/pending/settings").then((res) => res.json()).then(setSettings).catch((e) => console.error("Failed to load confirmation settings", e));
+  }, []);
+
+  // `maxAmount: null` removes the limit.
+  const save = async (changes: Partial<Omit<ConfirmSettings, "maxAmount">> & { maxAmount?: number | null }) => {
+    setError(null);
+    const res = await fetch("/api/pending/settings", { method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify(changes) });
+    const body = await res.json();
+    if (!res.ok) { setError(body.details?.join(" ") || body.error); return; }
+    setSettings(body);
+    setMaxDraft(null);
+  };
+
+  if (!settings) return null;
+  const percent = Math.round(settings.minConfidence * 100);
+  return (
+    <div className="mx-4 mb-2 p-3 rounded-lg border text-sm space-y-2">
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={settings.autoCommit} onChange={(e) => save({ autoCommit: e.target.checked })} className="h-4 w-4 accent-primary" />
+        Apply chat changes without asking when they look right
+      </label>
+      {settings.autoCommit && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <span>Still ask when I&apos;m less than</span>
+          <select value={percent} onChange={(e) => save({ minConfidence: Number(e.target.value) / 100 })} className={`${selectClassName} h-8 w-20 text-xs`} aria-label="Minimum confidence">
+            {Array.from(new Set([...CONFIDENCE_STEPS, percent])).sort((a, b) => a - b).map((p) => <option key={p} value={p}>{p}%</option>)}
+          </select>
+          <span>sure, or for more than</span>
+          <Input
+            type="number"
+            min="0"
+            className="h-8 w-28 text-xs"
+            placeholder="any amount"
+            value={maxDraft ?? settings.maxAmount ?? ""}
+            onChange={(e) => setMaxDraft(e.target.value)}
+            onBlur={() => maxDraft !== null && save({ maxAmount: maxDraft.trim() ? Number(maxDraft) : null })}
+            onKeyDown={(e) => { if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }}
+            aria-label="Largest amount to apply without asking"
+          />
+        </div>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+// A reply with summary rows gets the chart under it.
+const botContent = (reply: string, summaryData?: { category: string; total: number }[]): ReactNode => {
+  if (!summaryData || !Array.isArray(summaryData) || summaryData.length === 0) return reply;
+  return (
+    <div>
+      <p>{reply}</p>
+      <SummaryCard data={summaryData} />
+    </div>
+  );
+};
+
 // --- Chatbot Component ---
-const Chatbot: React.FC<{ expenses: Expense[]; onClose: () => void; onDataUpdate: (data: { expenses?: Expense[]; budget?: BudgetMap }) => void; }> = ({ expenses, onClose, onDataUpdate }) => {
+const Chatbot: React.FC<{ period: string | { from: string; to: string }; onClose: () => void; onDataUpdate: (data: DataUpdate) => void; }> = ({ period, onClose, onDataUpdate }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
+  // The server keeps the conversation; null until the first message starts one.
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  // The reply as it streams in; it becomes a message once the server has applied it.
+  const [draft, setDraft] = useState("");
+  const [mode, setMode] = useState<ChatMode>('auto');
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
+  // Reopening the panel picks up the most recent conversation where it left off.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      try {
+        const list = await fetch('/api/conversations');
+        if (!list.ok) return;
+        const latest = (await list.json()).conversations?.[0];
+        if (!latest) return;
+        const res = await fetch(`/api/conversations/${encodeURIComponent(latest.id)}`);
+        if (!res.ok || cancelled) return;
+        const { conversation } = await res.json();
+        setConversationId(conversation.id);
+        setMessages(conversation.turns.map((t: ChatTurn): Message => ({
+          id: t.id,
+          sender: t.role === 'user' ? 'user' : 'bot',
+          content: t.role === 'user' ? t.content
+            : t.pending ? <PendingCard pending={t.pending} onResolved={resolvePending} />
+            : botContent(t.content, t.summaryData),
+        })));
+      } catch (e) {
+        console.error("Failed to restore the chat", e);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  const startNewChat = () => {
+    setConversationId(null);
+    setMessages([]);
+  };
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
@@ -450,37 +2596,54 @@ const Chatbot: React.FC<{ expenses: Expense[]; onClose: () => void; onDataUpdate
     const userMsg: Message = { id: Date.now().toString(), content: messageText, sender: "user" };
     setMessages((prev) => [...prev, userMsg]);
     setInput("");
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
-    const endpoint = '/api/entries';
+    const endpoint = CHAT_ENDPOINTS[mode === 'auto' ? routeChat(messageText) : mode];
 
     try {
       const res = await fetch(endpoint, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: messageText, expenses: expenses })
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+        body: JSON.stringify({ message: messageText, period, conversationId }),
+        signal: controller.signal,
       });
-      if (!res.ok) throw new Error("API request failed");
-      const data = await res.json();
-      let botContent: ReactNode = data.reply || "Sorry, something went wrong.";
-      if (data.summaryData && Array.isArray(data.summaryData) && data.summaryData.length > 0) {
-          botContent = (
-            <div>
-              <p>{data.reply}</p>
-              <SummaryCard data={data.summaryData} />
-            </div>
-          );
-      }
-      setMessages((prev) => [...prev, { id: Date.now().toString() + "-bot", content: botContent, sender: "bot" }]);
-      if (data.updatedExpenses || data.updatedBudget) {
-        onDataUpdate({ expenses: data.updatedExpenses, budget: data.updatedBudget });
+      if (!res.ok || !res.body) throw new Error("API request failed");
+      let data: any = null;
+      let text = "";
+      await readEvents(res.body, (event, payload) => {
+        if (event === "token") setDraft((text += payload.text));
+        else if (event === "reset") setDraft((text = ""));
+        else if (event === "done") data = payload;
+        else if (event === "error") throw new Error(payload.error);
+      });
+      if (!data) throw new Error("The reply ended early");
+      if (data.conversationId) setConversationId(data.conversationId);
+      const reply = data.reply || "Sorry, something went wrong.";
+      const content = data.pending ? <PendingCard pending={data.pending} onResolved={resolvePending} /> : botContent(reply, data.summaryData);
+      setMessages((prev) => [...prev, { id: Date.now().toString() + "-bot", content, sender: "bot" }]);
+      if (data.updatedExpenses || data.updatedBudget || data.updatedUpcomingBills || data.updatedGoals) {
+        onDataUpdate({ expenses: data.updatedExpenses, budget: data.updatedBudget, upcomingBills: data.updatedUpcomingBills, goals: data.updatedGoals });
       }
     } catch (e) {
-      setMessages(p => [...p, { id: 'err', content: "⚠️ Error contacting server. Please try again.", sender: 'bot'}]);
+      const content = controller.signal.aborted ? "⏹️ Stopped. Nothing was changed." : "⚠️ Error contacting server. Please try again.";
+      setMessages(p => [...p, { id: Date.now().toString() + "-err", content, sender: 'bot'}]);
     } finally {
+      abortRef.current = null;
+      setDraft("");
       setLoading(false);
     }
   };
 
+  // A confirmed or cancelled card answers in the chat like any other reply.
+  const resolvePending = (reply: string, data?: DataUpdate) => {
+    setMessages((prev) => [...prev, { id: Date.now().toString() + "-bot", content: reply, sender: "bot" }]);
+    if (data?.expenses || data?.budget || data?.upcomingBills || data?.goals) onDataUpdate(data);
+  };
+
+  // Aborts the model call on the server too; a stopped reply never changes any data.
+  const stopReply = () => abortRef.current?.abort();
+
   const WelcomeScreen = () => (
     <div className="flex flex-col items-center justify-center h-full text-center p-8">
         <div className="w-16 h-16 mb-4 bg-primary/10 text-primary rounded-2xl flex items-center justify-center">
@@ -488,7 +2651,7 @@ const Chatbot: React.FC<{ expenses: Expense[]; onClose: () => void; onDataUpdate
         </div>
         <h2 className="text-2xl font-bold mb-2">My Budget Buddy Assistant</h2>
         <p className="text-muted-foreground mb-6 max-w-sm">
-          You can add an expense like "150 for coffee" or ask for insights like "How much did I spend on food?"
+          You can add an expense like "150 for coffee" (or several, like "200 uber, 450 lunch", or a shared bill like "dinner 3000 split 4 ways"), log income like "got my salary of 80000", or ask for insights like "How much did I spend on food?" I remember the conversation, so "show my last 5 expenses" then "delete the second one" or "undo" works too.
         </p>
         <div className="flex flex-wrap justify-center gap-2">
             <Button variant="outline" size="normal" onClick={() => quickAction("How much did I spend on food this month?")}>Spending on Food?</Button>
@@ -512,10 +2675,35 @@ const Chatbot: React.FC<{ expenses: Expense[]; onClose: () => void; onDataUpdate
                 <h2 className="text-lg font-semibold flex items-center gap-2">
                     <Sparkles className="h-5 w-5 text-primary" /> Budget Assistant
                 </h2>
-                <Button variant="ghost" size="icon" onClick={onClose} className="rounded-full">
-                    <X className="h-5 w-5" />
-                </Button>
+                <div className="flex items-center gap-1">
+                    <div className="flex items-center rounded-md border border-input p-0.5 mr-1" role="group" aria-label="Chat mode">
+                        {(['auto', 'log', 'analyze'] as ChatMode[]).map((m) => (
+                            <button
+                                key={m}
+                                type="button"
+                                onClick={() => setMode(m)}
+                                aria-pressed={mode === m}
+                                title={m === 'auto' ? "Log entries and answer questions, picked per message" : m === 'log' ? "Log and edit transactions" : "Analyze spending and get advice"}
+                                className={`px-2.5 py-1 rounded text-xs font-medium capitalize transition-colors ${mode === m ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:bg-accent"}`}
+                            >
+                                {m}
+                            </button>
+                        ))}
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={() => setSettingsOpen((o) => !o)} aria-pressed={settingsOpen} title="When to ask before changing anything">
+                        <Settings2 className="h-4 w-4" />
+                    </Button>
+                    {messages.length > 0 && (
+                        <Button variant="ghost" size="normal" onClick={startNewChat} disabled={loading} title="Start a new conversation">
+                            <Plus className="h-4 w-4 mr-1" /> New chat
+                        </Button>
+                    )}
+                    <Button variant="ghost" size="icon" onClick={onClose} className="rounded-full">
+                        <X className="h-5 w-5" />
+                    </Button>
+                </div>
             </header>
+            {settingsOpen && <ConfirmSettingsPanel />}
             <div className="flex-1 overflow-y-auto px-6 pb-6">
                 <div className="space-y-6">
                     {messages.length === 0 && !loading && <WelcomeScreen />}
@@ -529,13 +2717,21 @@ const Chatbot: React.FC<{ expenses: Expense[]; onClose: () => void; onDataUpdate
                             <motion.div
                                 initial={{ opacity: 0, y: 10 }}
                                 animate={{ opacity: 1, y: 0 }}
-                                className={`px-4 py-2.5 rounded-2xl max-w-lg leading-relaxed ${m.sender === "user" ? "bg-primary text-primary-foreground rounded-br-none" : "bg-secondary text-secondary-foreground rounded-bl-none"}`}
+                                className={`px-4 py-2.5 rounded-2xl max-w-lg leading-relaxed whitespace-pre-line ${m.sender === "user" ? "bg-primary text-primary-foreground rounded-br-none" : "bg-secondary text-secondary-foreground rounded-bl-none"}`}
                             >
                                 {m.content}
                             </motion.div>
                         </div>
                     ))}
-                    {loading && (
+                    {loading && draft && (
+                        <div className="flex items-end gap-3 justify-start">
+                            <div className="w-8 h-8 rounded-full bg-secondary text-secondary-foreground flex items-center justify-center shrink-0"><Bot size={18}/></div>
+                            <div className="px-4 py-2.5 rounded-2xl max-w-lg leading-relaxed whitespace-pre-line bg-secondary text-secondary-foreground rounded-bl-none">
+                                {draft}
+                            </div>
+                        </div>
+                    )}
+                    {loading && !draft && (
                         <div className="flex items-end gap-3 justify-start">
                             <div className="w-8 h-8 rounded-full bg-secondary text-secondary-foreground flex items-center justify-center shrink-0"><Bot size={18}/></div>
                             <div className="px-4 py-3 rounded-2xl bg-secondary text-secondary-foreground rounded-bl-none flex items-center gap-2">
@@ -559,17 +2755,28 @@ const Chatbot: React.FC<{ expenses: Expense[]; onClose: () => void; onDataUpdate
                         value={input}
                         onChange={(e) => setInput(e.target.value)}
                         onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); }}}
-                        placeholder="Log '150 for coffee' or ask 'how can I save?'..."
+                        placeholder={mode === 'log' ? "Log '150 for coffee' or 'undo'..." : mode === 'analyze' ? "Ask 'where did my money go this month?'..." : "Log '150 for coffee' or ask 'how can I save?'..."}
                         className="flex-1 bg-transparent resize-none outline-none max-h-40 py-2.5 px-2 text-base placeholder:text-muted-foreground"
                         autoFocus
                     />
-                    <button
-                        type="submit"
-                        disabled={loading || !input.trim()}
-                        className="w-10 h-10 bg-primary text-primary-foreground rounded-lg flex items-center justify-center shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                        <Send className="h-5 w-5" />
-                    </button>
+                    {loading && abortRef.current ? (
+                        <button
+                            type="button"
+                            onClick={stopReply}
+                            title="Stop"
+                            className="w-10 h-10 bg-red-500 text-white rounded-lg flex items-center justify-center shrink-0"
+                        >
+                            <Square className="h-4 w-4 fill-current" />
+                        </button>
+                    ) : (
+                        <button
+                            type="submit"
+                            disabled={loading || !input.trim()}
+                            className="w-10 h-10 bg-primary text-primary-foreground rounded-lg flex items-center justify-center shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Send className="h-5 w-5" />
+                        </button>
+                    )}
                 </form>
             </footer>
         </motion.div>
@@ -0,0 +1,437 @@
+// pendingActions.ts
+
+import crypto from "crypto";
+import { format } from "date-fns";
+import {
+  addExpense,
+  addGoal,
+  addPendingAction,
+  addRecurringRule,
+  appendTurns,
+  BudgetAlert,
+  BudgetMap,
+  Conversation,
+  deleteExpense,
+  Expense,
+  getBudget,
+  getBudgetSettings,
+  getConfirmSettings,
+  getCurrencySettings,
+  getExpenseById,
+  getExpenses,
+  getGoalProgress,
+  getGoals,
+  getPendingAction,
+  getRecurringRules,
+  logExpenses,
+  materializeRecurring,
+  PendingAction,
+  PlanChange,
+  RecurringRule,
+  replacePendingAction,
+  SavingsGoal,
+  setBudget,
+  takePendingAction,
+  TransactionChange,
+  updateExpenseById,
+} from "@/app/expenseStore";
+import { appendAlerts } from "@/app/alerts";
+import { budgetPeriodAt } from "@/app/budgets";
+import { formatMoney, priceChanges, priceEntry } from "@/app/currency";
+import { describeTransaction } from "@/app/conversations";
+import { describeGoal, goalNamed, GoalProgress, validateGoalChanges } from "@/app/goals";
+import { buildRecurringRule, upcomingBills, UpcomingBill } from "@/app/recurring";
+import { BillSplit, shareOf } from "@/app/splits";
+import { parseExpenseDate } from "@/app/summaryEngine";
+import { mergeTags } from "@/app/tags";
+import { validateExpenseInput } from "@/app/validation";
+import { ChatResult } from "@/app/conversationReplies";
+
+// One expense as log_expense / log_expenses describe it, already validated. With a split,
+// `amount` is the whole bill.
+export type ExpenseItem = {
+  amount: number;
+  currency?: string;
+  category: string;
+  note?: string;
+  date?: string;
+  tags?: string[];
+  split?: Omit<BillSplit, "total">;
+};
+
+// What the client needs to draw the confirmation card: the expenses or income to log, a
+// transaction before and after the change or the one to delete, a budget's old and new
+// amount for its period, or the recurring bill or savings goal to add.
+export type PendingCard = { id: string } & (
+  | { kind: "log_expenses"; expenses: Expense[] }
+  | { kind: "update_expense"; before: Expense; after: Expense }
+  | { kind: "set_budget"; key: string; period: string; before?: number; amount: number }
+  | { kind: "log_income"; income: Expense }
+  | { kind: "add_recurring"; rule: RecurringRule }
+  | { kind: "delete_expense"; expense: Expense }
+  | { kind: "add_goal"; goal: SavingsGoal }
+);
+
+// The intent a card's outcome is recorded under in the conversation.
+const OUTCOME_INTENTS: Record<PendingAction["kind"], string> = {
+  log_expenses: "log_expenses",
+  update_expense: "update_last_expense",
+  set_budget: "set_budget",
+  log_income: "log_income",
+  add_recurring: "add_recurring",
+  delete_expense: "delete_transaction",
+  add_goal: "add_goal",
+};
+
+const GONE = "That transaction has since been deleted.";
+
+// Turns parsed items into the expenses they would become: dated today unless another day
+// was named, cut down to the user's share of a split bill and priced in the base currency.
+// Nothing is saved.
+export function draftExpenses(items: ExpenseItem[], tags: string[], now = new Date()): { expenses: Expense[] } | { error: string } {
+  const settings = getCurrencySettings();
+  const stamp = now.getTime();
+  const expenses: Expense[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const date = item.date || format(now, "dd-MM-yyyy");
+    const amount = item.split ? shareOf(item.amount, item.split) : item.amount;
+    const priced = priceEntry({ amount, date, currency: item.currency }, settings);
+    if ("error" in priced) return priced;
+    expenses.push({
+      id: items.length === 1 ? String(stamp) : `${stamp}-${i}`,
+      type: "expense",
+      ...priced,
+      category: item.category,
+      note: item.note,
+      date,
+      tags: mergeTags(tags, item.tags),
+      split: item.split && { ...item.split, total: item.amount },
+    });
+  }
+  return { expenses };
+}
+
+// Whether a chat change waits on a card (see ConfirmSettings). `amount` is what is at
+// stake in the base currency: the entry logged, edited or deleted, the new budget, the
+// recurring bill or the goal's target.
+export function needsConfirmation(amount: number, confidence: number | undefined, settings = getConfirmSettings()): boolean {
+  if (!settings.autoCommit) return true;
+  // A model that didn't say how sure it was counts as unsure.
+  if ((confidence ?? 0) < settings.minConfidence) return true;
+  return settings.maxAmount !== undefined && amount > settings.maxAmount;
+}
+
+// --- Cards ---
+function budgetName(key: string): string {
+  return key === "total" ? "Total" : key;
+}
+
+// Null when the transaction an update or deletion was for has since been deleted.
+function cardFor(action: PendingAction): PendingCard | null {
+  switch (action.kind) {
+    case "log_expenses":
+      return { id: action.id, kind: action.kind, expenses: action.expenses };
+    case "update_expense": {
+      const before = getExpenseById(action.expenseId);
+      if (!before) return null;
+      const priced = priceChanges(before, action.changes, getCurrencySettings());
+      return { id: action.id, kind: action.kind, before, after: { ...before, ...("error" in priced ? action.changes : priced) } };
+    }
+    case "set_budget": {
+      const at = parseExpenseDate(action.date);
+      const period = budgetPeriodAt(at, getBudgetSettings().cadence).label;
+      return { id: action.id, kind: action.kind, key: action.key, period, before: getBudget(at)[action.key], amount: action.amount };
+    }
+    case "log_income":
+      return { id: action.id, kind: action.kind, income: action.income };
+    case "add_recurring":
+      return { id: action.id, kind: action.kind, rule: action.rule };
+    case "delete_expense": {
+      const expense = getExpenseById(action.expenseId);
+      return expense ? { id: action.id, kind: action.kind, expense } : null;
+    }
+    case "add_goal":
+      return { id: action.id, kind: action.kind, goal: action.goal };
+  }
+}
+
+function itemLines(expenses: Expense[], base: string): string[] {
+  return expenses.map((e, i) => `${i + 1}. ${describeTransaction(e, base)}`);
+}
+
+// "₹649 for netflix, monthly from 01-11-2026"
+function ruleLine(rule: RecurringRule, base: string): string {
+  const cadence = rule.cadence === "custom" ? `on day ${rule.dayOfMonth} of each month` : rule.cadence;
+  return `${formatMoney(rule.amount, base, !Number.isInteger(rule.amount))} for ${rule.note ?? rule.category}, ${cadence} from ${rule.startDate}${rule.endDate ? ` to ${rule.endDate}` : ""}`;
+}
+
+// "laptop: ₹80,000 by 31-03-2027, setting aside up to ₹10,000 a month"
+function goalLine(goal: SavingsGoal, base: string): string {
+  const deadline = goal.deadline ? ` by ${goal.deadline}` : "";
+  const monthly = goal.monthlyContribution ? `, setting aside up to ${formatMoney(goal.monthlyContribution, base)} a month` : "";
+  return `${goal.name}: ${formatMoney(goal.target, base)}${deadline}${monthly}`;
+}
+
+// The chat reply that goes with a card, for anyone reading the conversation back.
+function cardReply(card: PendingCard, base: string): string {
+  switch (card.kind) {
+    case "log_expenses": {
+      const heading = card.expenses.length === 1 ? "🧾 Here's what I'll log. Confirm to save it:" : `🧾 I found ${card.expenses.length} expenses. Confirm to log them:`;
+      return [heading, ...itemLines(card.expenses, base)].join("\n");
+    }
+    case "update_expense":
+      return [`✏️ Here's the change. Confirm to apply it:`, `Before: ${describeTransaction(card.before, base)}`, `After: ${describeTransaction(card.after, base)}`].join("\n");
+    case "set_budget": {
+      const before = card.before === undefined ? "not set" : formatMoney(card.before, base);
+      return `💰 ${budgetName(card.key)} budget for ${card.period}: ${before} → ${formatMoney(card.amount, base, !Number.isInteger(card.amount))}. Confirm to apply it.`;
+    }
+    case "log_income":
+      return `💰 Here's the income I'll log. Confirm to save it:\n${describeTransaction(card.income, base)}`;
+    case "add_recurring":
+      return `🔁 New recurring bill: ${ruleLine(card.rule, base)}. Confirm to add it.`;
+    case "delete_expense":
+      return `🗑️ Delete ${describeTransaction(card.expense, base)}? Confirm to delete it.`;
+    case "add_goal":
+      return `🎯 New goal: ${goalLine(card.goal, base)}. Confirm to create it.`;
+  }
+}
+
+// --- Holding Changes Back ---
+function hold(action: PendingAction, now: Date): ChatResult {
+  addPendingAction(action, now);
+  const pending = cardFor(action)!;
+  return { reply: cardReply(pending, getCurrencySettings().base), pending, turn: { intent: OUTCOME_INTENTS[action.kind], pendingId: action.id } };
+}
+
+function newAction(conversation: Conversation, now: Date) {
+  return { id: crypto.randomBytes(16).toString("hex"), conversationId: conversation.id, createdAt: now.toISOString() };
+}
+
+export function holdExpenses(conversation: Conversation, expenses: Expense[], now = new Date()): ChatResult {
+  return hold({ ...newAction(conversation, now), kind: "log_expenses", expenses }, now);
+}
+
+// `changes` as validated, before pricing: a new amount is in the transaction's currency.
+export function holdUpdate(conversation: Conversation, expense: Expense, changes: Partial<Omit<Expense, "id">>, now = new Date()): ChatResult {
+  return hold({ ...newAction(conversation, now), kind: "update_expense", expenseId: expense.id, changes }, now);
+}
+
+export function holdBudget(conversation: Conversation, key: string, amount: number, at: Date, now = new Date()): ChatResult {
+  return hold({ ...newAction(conversation, now), kind: "set_budget", date: format(at, "dd-MM-yyyy"), key, amount }, now);
+}
+
+export function holdIncome(conversation: Conversation, income: Expense, now = new Date()): ChatResult {
+  return hold({ ...newAction(conversation, now), kind: "log_income", income }, now);
+}
+
+export function holdRecurring(conversation: Conversation, rule: RecurringRule, now = new Date()): ChatResult {
+  return hold({ ...newAction(conversation, now), kind: "add_recurring", rule }, now);
+}
+
+export function holdDelete(conversation: Conversation, expense: Expense, now = new Date()): ChatResult {
+  return hold({ ...newAction(conversation, now), kind: "delete_expense", expenseId: expense.id }, now);
+}
+
+export function holdGoal(conversation: Conversation, goal: SavingsGoal, now = new Date()): ChatResult {
+  return hold({ ...newAction(conversation, now), kind: "add_goal", goal }, now);
+}
+
+// The card for a held change that is still open, as it stands after any edits, so a
+// restored chat can offer it again. Null once it is confirmed, cancelled or expired.
+export function openCard(id: string, now = new Date()): PendingCard | null {
+  const action = getPendingAction(id, now);
+  return action ? cardFor(action) : null;
+}
+
+// --- Editing a Card ---
+// What the card's Edit sends: { item, changes } for one of several expenses (item is
+// 0-based and may be left out when there is only one), { changes } for income, an update,
+// a recurring bill or a goal, and { amount } for a budget. For transactions `changes` takes
+// the fields of PATCH /api/expenses/:id (for a shared bill the amount is the user's own
+// share); for a bill, those of POST /api/recurring; for a goal, PATCH /api/goals/:id.
+// A deletion can't be edited.
+export type PendingEdit = { item?: unknown; changes?: unknown; amount?: unknown };
+
+function applyEdit(action: PendingAction, edit: PendingEdit): PendingAction | { error: string } {
+  const settings = getCurrencySettings();
+  switch (action.kind) {
+    case "log_expenses": {
+      const index = edit.item ?? (action.expenses.length === 1 ? 0 : undefined);
+      const expense = typeof index === "number" && Number.isInteger(index) ? action.expenses[index] : undefined;
+      if (!expense) return { error: `"item" must be the position of one of the ${action.expenses.length} expenses, starting at 0.` };
+      const checked = validateExpenseInput(edit.changes, expense);
+      if (!checked.ok) return { error: checked.errors.join(" ") };
+      const priced = priceChanges(expense, checked.value, settings);
+      if ("error" in priced) return priced;
+      return { ...action, expenses: action.expenses.map((e, i) => (i === index ? { ...e, ...priced } : e)) };
+    }
+    case "update_expense": {
+      const target = getExpenseById(action.expenseId);
+      if (!target) return { error: GONE };
+      const checked = validateExpenseInput(edit.changes, { ...target, ...action.changes });
+      if (!checked.ok) return { error: checked.errors.join(" ") };
+      const changes = { ...action.changes, ...checked.value };
+      const priced = priceChanges(target, changes, settings);
+      if ("error" in priced) return priced;
+      return { ...action, changes };
+    }
+    case "set_budget": {
+      const amount = edit.amount;
+      if (typeof amount !== "number" || !Number.isFinite(amount) || amount < 0) return { error: `"amount" must be a non-negative number.` };
+      return { ...action, amount };
+    }
+    case "log_income": {
+      const checked = validateExpenseInput(edit.changes, action.income);
+      if (!checked.ok) return { error: checked.errors.join(" ") };
+      const priced = priceChanges(action.income, checked.value, settings);
+      if ("error" in priced) return priced;
+      return { ...action, income: { ...action.income, ...priced } };
+    }
+    case "add_recurring": {
+      const built = buildRecurringRule({ ...action.rule, ...(edit.changes as object) });
+      if ("error" in built) return built;
+      return { ...action, rule: { ...built.rule, id: action.rule.id } };
+    }
+    case "delete_expense":
+      return { error: "A deletion can't be edited; cancel it instead." };
+    case "add_goal": {
+      const checked = validateGoalChanges(edit.changes, action.goal, getGoals());
+      if ("error" in checked) return checked;
+      return { ...action, goal: { ...action.goal, ...checked.changes } };
+    }
+  }
+}
+
+// Saves an edit to a held change and returns the redrawn card. Null when the token is
+// unknown, used or expired.
+export function editPendingAction(id: string, edit: PendingEdit, now = new Date()): { pending: PendingCard } | { error: string } | null {
+  const action = getPendingAction(id, now);
+  if (!action) return null;
+  const edited = applyEdit(action, edit);
+  if ("error" in edited) return edited;
+  replacePendingAction(edited);
+  const pending = cardFor(edited);
+  return pending ? { pending } : { error: GONE };
+}
+
+// --- Confirming and Cancelling ---
+// Adds the outcome to the chat it came from. Changes are recorded as on any other turn,
+// so "undo" takes them back like anything else done in the conversation.
+function recordOutcome(action: PendingAction, reply: string, changes: TransactionChange[], now: Date, planChanges: PlanChange[] = []) {
+  appendTurns(action.conversationId, [{
+    id: `${now.getTime()}-fin`,
+    role: "assistant",
+    content: reply,
+    createdAt: now.toISOString(),
+    intent: OUTCOME_INTENTS[action.kind],
+    changes: changes.length ? changes : undefined,
+    planChanges: planChanges.length ? planChanges : undefined,
+  }], now);
+}
+
+export type ConfirmResult = {
+  reply: string;
+  updatedExpenses?: Expense[];
+  updatedBudget?: BudgetMap;
+  updatedUpcomingBills?: UpcomingBill[];
+  updatedGoals?: GoalProgress[];
+  alerts?: BudgetAlert[];
+};
+
+// Applies a held change. For several expenses, `keep` lists the 0-based items the user
+// left ticked; all of them when it is missing. Returns null when the token is unknown,
+// used or expired.
+export function confirmPendingAction(id: string, keep?: number[], now = new Date()): ConfirmResult | { error: string } | null {
+  const action = getPendingAction(id, now);
+  if (!action) return null;
+  const settings = getCurrencySettings();
+  const base = settings.base;
+
+  switch (action.kind) {
+    case "log_expenses": {
+      if (!takePendingAction(id, now)) return null;
+      const kept = keep ? action.expenses.filter((_e, i) => keep.includes(i)) : action.expenses;
+      const alerts = kept.length ? logExpenses(kept) : [];
+      const skipped = action.expenses.length - kept.length;
+      const heading = kept.length === 0
+        ? "👍 Nothing was logged."
+        : `✅ Logged ${kept.length === 1 ? "1 expense" : `${kept.length} expenses`}${skipped ? ` (skipped ${skipped})` : ""}:`;
+      const reply = appendAlerts([heading, ...itemLines(kept, base)].join("\n"), alerts);
+      recordOutcome(action, reply, kept.map((e) => ({ id: e.id, before: null })), now);
+      return { reply, updatedExpenses: getExpenses(), alerts };
+    }
+
+    // Priced against the transaction as it is now, in case it changed while the card waited.
+    case "update_expense": {
+      const target = getExpenseById(action.expenseId);
+      if (!target) return { error: GONE };
+      const priced = priceChanges(target, action.changes, settings);
+      if ("error" in priced) return priced;
+      if (!takePendingAction(id, now)) return null;
+      const alerts = updateExpenseById(target.id, priced) ?? [];
+      const reply = appendAlerts(`✅ Updated: ${describeTransaction(getExpenseById(target.id)!, base)}`, alerts);
+      recordOutcome(action, reply, [{ id: target.id, before: target }], now);
+      return { reply, updatedExpenses: getExpenses(), alerts };
+    }
+
+    case "set_budget": {
+      if (!takePendingAction(id, now)) return null;
+      const at = parseExpenseDate(action.date);
+      const before = getBudget(at);
+      setBudget({ ...before, [action.key]: action.amount }, at);
+      const period = budgetPeriodAt(at, getBudgetSettings().cadence).label;
+      const reply = `✅ ${budgetName(action.key)} budget for ${period} set to ${formatMoney(action.amount, base, !Number.isInteger(action.amount))}.`;
+      recordOutcome(action, reply, [], now, [{ kind: "budget", date: action.date, key: action.key, before: before[action.key] }]);
+      return { reply, updatedBudget: getBudget(at) };
+    }
+
+    case "log_income": {
+      if (!takePendingAction(id, now)) return null;
+      addExpense(action.income);
+      const reply = `✅ Logged ${describeTransaction(action.income, base)}`;
+      recordOutcome(action, reply, [{ id: action.income.id, before: null }], now);
+      return { reply, updatedExpenses: getExpenses() };
+    }
+
+    // Any occurrences already due are logged straight away, as when a bill is added directly.
+    case "add_recurring": {
+      if (!takePendingAction(id, now)) return null;
+      addRecurringRule(action.rule);
+      materializeRecurring(now);
+      const reply = `✅ Added ${ruleLine(action.rule, base)}.`;
+      recordOutcome(action, reply, [], now, [{ kind: "recurring", ruleId: action.rule.id }]);
+      return { reply, updatedExpenses: getExpenses(), updatedUpcomingBills: upcomingBills(getRecurringRules(), now) };
+    }
+
+    case "delete_expense": {
+      const target = getExpenseById(action.expenseId);
+      if (!target) return { error: GONE };
+      if (!takePendingAction(id, now)) return null;
+      deleteExpense(target.id);
+      const reply = `🗑️ Deleted ${describeTransaction(target, base)}. Say "undo" to bring it back.`;
+      recordOutcome(action, reply, [{ id: target.id, before: target }], now);
+      return { reply, updatedExpenses: getExpenses() };
+    }
+
+    // Names are checked again in case a goal with the same one was added meanwhile.
+    case "add_goal": {
+      if (goalNamed(getGoals(), action.goal.name)) return { error: `A goal called "${action.goal.name}" already exists.` };
+      if (!takePendingAction(id, now)) return null;
+      addGoal(action.goal);
+      const updatedGoals = getGoalProgress();
+      const progress = updatedGoals.find((g) => g.id === action.goal.id)!;
+      const reply = [`🎯 Goal created.`, describeGoal(progress, base)].join("\n");
+      recordOutcome(action, reply, [], now, [{ kind: "goal", goalId: action.goal.id }]);
+      return { reply, updatedGoals };
+    }
+  }
+}
+
+// Drops a held change without applying it. False when there was nothing to cancel.
+export function cancelPendingAction(id: string, now = new Date()): boolean {
+  const action = takePendingAction(id, now);
+  if (!action) return false;
+  recordOutcome(action, "👍 Cancelled. Nothing was changed.", [], now);
+  return true;
+}
@@ -0,0 +1,134 @@
+// recurring.ts
+
+import crypto from "crypto";
+import { addDays, addMonths, addWeeks, addYears, differenceInCalendarDays, format, getDaysInMonth, isValid, startOfDay } from "date-fns";
+import { CategoryKey, categoryKeys, RecurringRule } from "@/app/expenseStore";
+import { parseExpenseDate } from "@/app/summaryEngine";
+
+export type RecurringCadence = "weekly" | "monthly" | "yearly" | "custom";
+
+export const RECURRING_CADENCES: RecurringCadence[] = ["weekly", "monthly", "yearly", "custom"];
+
+export type UpcomingBill = {
+  ruleId: string;
+  amount: number;
+  category: CategoryKey;
+  note?: string;
+  cadence: RecurringCadence;
+  dueDate: string; // dd-MM-yyyy
+  daysUntil: number;
+};
+
+// --- Rule Construction ---
+// Builds a rule from loosely-shaped input (a chat extraction or an API body).
+// Accepts snake_case keys as the model emits them, or camelCase from API clients.
+export function buildRecurringRule(input: any, now = new Date()): { rule: RecurringRule } | { error: string } {
+  const amount = Number(input?.amount);
+  if (!Number.isFinite(amount) || amount <= 0) return { error: "Amount must be a positive number." };
+
+  const keys = categoryKeys("expense");
+  const category = keys.find((k) => k.toLowerCase() === String(input?.category ?? "").toLowerCase());
+  if (!category) return { error: `Category must be one of ${keys.join(", ")}.` };
+
+  const cadence = String(input?.cadence ?? "monthly").toLowerCase() as RecurringCadence;
+  if (!RECURRING_CADENCES.includes(cadence)) return { error: `Cadence must be one of ${RECURRING_CADENCES.join(", ")}.` };
+
+  const dayOfMonth = input?.dayOfMonth ?? input?.day_of_month;
+  if (cadence === "custom" && !(Number.isInteger(Number(dayOfMonth)) && dayOfMonth >= 1 && dayOfMonth <= 31)) {
+    return { error: "A custom cadence needs a day of month between 1 and 31." };
+  }
+
+  const startDate = input?.startDate ?? input?.start_date ?? format(now, "dd-MM-yyyy");
+  const endDate = input?.endDate ?? input?.end_date ?? undefined;
+  if (!isValid(parseExpenseDate(startDate))) return { error: "Start date must be in dd-MM-yyyy format." };
+  if (endDate && !isValid(parseExpenseDate(endDate))) return { error: "End date must be in dd-MM-yyyy format." };
+
+  return {
+    rule: {
+      id: crypto.randomUUID(),
+      amount,
+      category,
+      note: input?.note || undefined,
+      cadence,
+      dayOfMonth: cadence === "custom" ? Number(dayOfMonth) : undefined,
+      startDate,
+      endDate,
+    },
+  };
+}
+
+// --- Occurrence Calculation ---
+// Monthly and yearly rules repeat on the start date's day; "custom" repeats monthly
+// on `dayOfMonth`. Days past the end of a short month clamp to its last day.
+function clampToMonth(year: number, month: number, day: number): Date {
+  const daysInMonth = getDaysInMonth(new Date(year, month, 1));
+  return new Date(year, month, Math.min(day, daysInMonth));
+}
+
+function nthOccurrence(rule: RecurringRule, start: Date, n: number): Date {
+  switch (rule.cadence) {
+    case "weekly":
+      return addWeeks(start, n);
+    case "yearly": {
+      const d = addYears(new Date(start.getFullYear(), start.getMonth(), 1), n);
+      return clampToMonth(d.getFullYear(), d.getMonth(), start.getDate());
+    }
+    case "custom": {
+      const day = rule.dayOfMonth || start.getDate();
+      // The first occurrence is the first matching day on or after the start date.
+      const firstMonth = day >= start.getDate() ? start : addMonths(new Date(start.getFullYear(), start.getMonth(), 1), 1);
+      const d = addMonths(new Date(firstMonth.getFullYear(), firstMonth.getMonth(), 1), n);
+      return clampToMonth(d.getFullYear(), d.getMonth(), day);
+    }
+    case "monthly":
+    default: {
+      const d = addMonths(new Date(start.getFullYear(), start.getMonth(), 1), n);
+      return clampToMonth(d.getFullYear(), d.getMonth(), start.getDate());
+    }
+  }
+}
+
+// All occurrences in [from, to], respecting the rule's own start and end dates.
+export function occurrencesBetween(rule: RecurringRule, from: Date, to: Date): Date[] {
+  const start = startOfDay(parseExpenseDate(rule.startDate));
+  if (!isValid(start)) return [];
+  const end = rule.endDate ? startOfDay(parseExpenseDate(rule.endDate)) : null;
+  const lower = startOfDay(from) > start ? startOfDay(from) : start;
+  const upper = end && isValid(end) && end < startOfDay(to) ? end : startOfDay(to);
+
+  const dates: Date[] = [];
+  for (let n = 0; ; n++) {
+    const d = nthOccurrence(rule, start, n);
+    if (d > upper) break;
+    if (d >= lower) dates.push(d);
+  }
+  return dates;
+}
+
+// Occurrences that are due (on or before `now`) and have not been materialized yet.
+export function dueOccurrences(rule: RecurringRule, now = new Date()): Date[] {
+  const from = rule.lastMaterialized ? addDays(parseExpenseDate(rule.lastMaterialized), 1) : parseExpenseDate(rule.startDate);
+  return occurrencesBetween(rule, from, now);
+}
+
+export function nextOccurrence(rule: RecurringRule, now = new Date()): Date | null {
+  // Looking a little over a year ahead is enough to catch the next yearly occurrence.
+  const [next] = occurrencesBetween(rule, addDays(now, 1), addDays(now, 370));
+  return next ?? null;
+}
+
+export function upcomingBills(rules: RecurringRule[], now = new Date(), withinDays = 30): UpcomingBill[] {
+  return rules
+    .map((rule) => ({ rule, due: nextOccurrence(rule, now) }))
+    .filter(({ due }) => due && differenceInCalendarDays(due, now) <= withinDays)
+    .map(({ rule, due }) => ({
+      ruleId: rule.id,
+      amount: rule.amount,
+      category: rule.category,
+      note: rule.note,
+      cadence: rule.cadence,
+      dueDate: format(due!, "dd-MM-yyyy"),
+      daysUntil: differenceInCalendarDays(due!, now),
+    }))
+    .sort((a, b) => a.daysUntil - b.daysUntil);
+}
@@ -0,0 +1,61 @@
+// splits.ts
+
+import { Expense } from "@/app/expenseStore";
+import { formatMoney } from "@/app/currency";
+
+// --- Shared Bills ---
+// "dinner 3000 split 4 ways" is stored as the user's own share (750), with the split kept
+// alongside. The whole bill is kept too, as it was entered: a share is rounded to the
+// paisa/cent, so 1000 split 3 ways would otherwise come back as 999.99.
+export type BillSplit = {
+  people: number; // Everyone who shared it, the user included
+  with?: string[]; // The others, when named
+  total: number; // The whole bill, in the currency it was entered in
+};
+
+export const MAX_SPLIT_PEOPLE = 50;
+
+// Validates a split given as { people?, with? }. Naming the others is enough; the count
+// defaults to them plus the user.
+export function normalizeSplit(raw: unknown, label: string, errors: string[]): Omit<BillSplit, "total"> | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    errors.push(`${label} must be an object like { "people": 4 } or { "with": ["Raj", "Priya"] }.`);
+    return undefined;
+  }
+  const { people, with: others } = raw as { people?: unknown; with?: unknown };
+  const before = errors.length;
+  let names: string[] | undefined;
+  if (others !== undefined && others !== null) {
+    if (!Array.isArray(others) || others.some((n) => typeof n !== "string" || !n.trim())) errors.push(`${label}.with must be a list of names.`);
+    else names = Array.from(new Set(others.map((n: string) => n.trim()))).filter(Boolean);
+  }
+  const minimum = (names?.length ?? 1) + 1;
+  const count = people ?? (names ? minimum : undefined);
+  if (!Number.isInteger(count) || (count as number) < 2 || (count as number) > MAX_SPLIT_PEOPLE) {
+    errors.push(`${label}.people must be a whole number from 2 to ${MAX_SPLIT_PEOPLE}.`);
+  } else if ((count as number) < minimum) {
+    errors.push(`${label}.people can't be fewer than the ${minimum} people named.`);
+  }
+  if (errors.length > before) return undefined;
+  return { people: count as number, with: names?.length ? names : undefined };
+}
+
+// Rounded to the paisa/cent, so four shares of 1000 are 250 each and three are 333.33.
+export function shareOf(amount: number, split: Pick<BillSplit, "people">): number {
+  return Math.round((amount / split.people) * 100) / 100;
+}
+
+// An edited share is taken as everyone's new share, so the bill becomes it times `people`.
+export function resplit(split: BillSplit, share: number): BillSplit {
+  return { ...split, total: Math.round(share * split.people * 100) / 100 };
+}
+
+// "your share of ₹3,000 split 4 ways with Raj and Priya"
+export function describeSplit(e: Pick<Expense, "currency" | "split">, base: string): string {
+  if (!e.split) return "";
+  const total = e.split.total;
+  const names = e.split.with;
+  const withText = names?.length ? ` with ${names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names[0]}` : "";
+  return `your share of ${formatMoney(total, e.currency ?? base, !Number.isInteger(total))} split ${e.split.people} ways${withText}`;
+}
@@ -0,0 +1,35 @@
+// accountStorage.ts
+
+import fs from "fs";
+import { AccountBackend, AccountData } from "./types";
+import { writeJsonFile } from "./jsonFileStorage";
+
+function emptyAccountData(): AccountData {
+  return { users: [], sessions: [] };
+}
+
+// Accounts and sessions live apart from every user's own document, in one small file.
+export class JsonAccountStorage implements AccountBackend {
+  constructor(private readonly filePath: string) {}
+
+  load(): AccountData {
+    if (!fs.existsSync(this.filePath)) return emptyAccountData();
+    return { ...emptyAccountData(), ...JSON.parse(fs.readFileSync(this.filePath, "utf-8")) };
+  }
+
+  save(data: AccountData) {
+    writeJsonFile(this.filePath, data);
+  }
+}
+
+export class MemoryAccountStorage implements AccountBackend {
+  private data: AccountData = emptyAccountData();
+
+  load(): AccountData {
+    return structuredClone(this.data);
+  }
+
+  save(data: AccountData) {
+    this.data = structuredClone(data);
+  }
+}
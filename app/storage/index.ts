@@ -0,0 +1,52 @@
+// index.ts
+
+import fs from "fs";
+import path from "path";
+import { AccountBackend, StorageBackend } from "./types";
+import { JsonFileStorage } from "./jsonFileStorage";
+import { MemoryStorage } from "./memoryStorage";
+import { JsonAccountStorage, MemoryAccountStorage } from "./accountStorage";
+
+export type { AccountBackend, AccountData, StorageBackend, StoreData } from "./types";
+export { CURRENT_SCHEMA_VERSION } from "./migrations";
+
+// --- Backend Selection ---
+// BUDGET_STORAGE_DRIVER: "json" (default) or "memory".
+// BUDGET_DATA_DIR: where the JSON backend keeps its files (default: ./.data). Each user's
+// data is in users/<id>.json and the accounts in accounts.json.
+// BUDGET_DATA_FILE: the single document older, single-user builds kept (default:
+// <BUDGET_DATA_DIR>/budget.json); the first account created takes it over.
+function driverOf(env: NodeJS.ProcessEnv): string {
+  const driver = (env.BUDGET_STORAGE_DRIVER || "json").toLowerCase();
+  if (driver !== "json" && driver !== "memory") {
+    throw new Error(`Unknown BUDGET_STORAGE_DRIVER "${driver}". Use "json" or "memory".`);
+  }
+  return driver;
+}
+
+function dataDir(env: NodeJS.ProcessEnv): string {
+  return env.BUDGET_DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+function userFile(userId: string, env: NodeJS.ProcessEnv): string {
+  return path.join(dataDir(env), "users", `${userId}.json`);
+}
+
+export function createStorage(userId: string, env: NodeJS.ProcessEnv = process.env): StorageBackend {
+  return driverOf(env) === "memory" ? new MemoryStorage() : new JsonFileStorage(userFile(userId, env));
+}
+
+export function createAccountStorage(env: NodeJS.ProcessEnv = process.env): AccountBackend {
+  return driverOf(env) === "memory" ? new MemoryAccountStorage() : new JsonAccountStorage(path.join(dataDir(env), "accounts.json"));
+}
+
+// Moves the single-user document into a user's place. Returns whether there was one.
+export function adoptLegacyData(userId: string, env: NodeJS.ProcessEnv = process.env): boolean {
+  if (driverOf(env) !== "json") return false;
+  const legacy = env.BUDGET_DATA_FILE || path.join(dataDir(env), "budget.json");
+  const target = userFile(userId, env);
+  if (!fs.existsSync(legacy) || fs.existsSync(target)) return false;
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.renameSync(legacy, target);
+  return true;
+}
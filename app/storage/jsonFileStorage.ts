@@ -0,0 +1,39 @@
+// jsonFileStorage.ts
+
+import fs from "fs";
+import path from "path";
+import { StorageBackend, StoreData } from "./types";
+import { emptyStoreData, migrate, CURRENT_SCHEMA_VERSION } from "./migrations";
+
+// Stores the whole document in a single JSON file. The file is re-read on every
+// load so separate server processes pointing at the same path agree on the data.
+export class JsonFileStorage implements StorageBackend {
+  readonly name = "json";
+
+  constructor(private readonly filePath: string) {}
+
+  load(): StoreData {
+    if (!fs.existsSync(this.filePath)) {
+      return emptyStoreData();
+    }
+    const raw = JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+    const data = migrate(raw);
+    // Persist the upgrade right away so the file on disk never lags behind the code.
+    if (raw.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+      this.save(data);
+    }
+    return data;
+  }
+
+  save(data: StoreData) {
+    writeJsonFile(this.filePath, data);
+  }
+}
+
+// Write to a temp file and rename, so a crash mid-write can't leave half a document behind.
+export function writeJsonFile(filePath: string, data: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
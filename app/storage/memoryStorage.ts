@@ -0,0 +1,19 @@
+// memoryStorage.ts
+
+import { StorageBackend, StoreData } from "./types";
+import { emptyStoreData } from "./migrations";
+
+// Keeps the document in process memory. Useful for tests and throwaway demos;
+// nothing survives a restart.
+export class MemoryStorage implements StorageBackend {
+  readonly name = "memory";
+  private data: StoreData = emptyStoreData();
+
+  load(): StoreData {
+    return structuredClone(this.data);
+  }
+
+  save(data: StoreData) {
+    this.data = structuredClone(data);
+  }
+}
@@ -0,0 +1,157 @@
+// migrations.ts
+
+import type { Category } from "@/app/expenseStore";
+import type { StoreData } from "./types";
+
+// --- Schema Migrations ---
+// Every persisted document carries a `schemaVersion`. When a document is loaded,
+// each migration with a higher version is applied in order, so data written by an
+// older build is upgraded in place instead of being thrown away.
+type Migration = {
+  version: number;
+  description: string;
+  up: (data: any) => any;
+};
+
+export const DEFAULT_BUDGET = { total: 50000, Food: 15000, Entertainment: 5000 };
+
+// The categories every store starts with; users can rename, merge or archive them.
+export const DEFAULT_CATEGORIES: Category[] = [
+  { key: "Food", type: "expense", icon: "shopping-bag", color: "#8b5cf6" },
+  { key: "Transport", type: "expense", icon: "bus", color: "#06b6d4" },
+  { key: "Shopping", type: "expense", icon: "shopping-bag", color: "#10b981" },
+  { key: "Bills", type: "expense", icon: "receipt", color: "#f59e0b" },
+  { key: "Coffee", type: "expense", icon: "coffee", color: "#ef4444" },
+  { key: "Entertainment", type: "expense", icon: "gift", color: "#14b8a6" },
+  { key: "Health", type: "expense", icon: "heart-pulse", color: "#f43f5e" },
+  { key: "Education", type: "expense", icon: "book-open", color: "#3b82f6" },
+  { key: "Other", type: "expense", icon: "sparkles", color: "#84cc16" },
+  { key: "Salary", type: "income", icon: "briefcase", color: "#10b981" },
+  { key: "Freelance", type: "income", icon: "laptop", color: "#06b6d4" },
+  { key: "Refund", type: "income", icon: "rotate-ccw", color: "#f59e0b" },
+  { key: "Transfer", type: "income", icon: "arrow-down-left", color: "#3b82f6" },
+  { key: "Interest", type: "income", icon: "landmark", color: "#a855f7" },
+  { key: "Gift", type: "income", icon: "gift", color: "#f43f5e" },
+  { key: "Other Income", type: "income", icon: "trending-up", color: "#84cc16" },
+];
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: "Initial schema: expenses, budget and last transaction",
+    up: (data) => ({
+      expenses: Array.isArray(data?.expenses) ? data.expenses : [],
+      budget: data?.budget ?? DEFAULT_BUDGET,
+      lastTransactionId: data?.lastTransactionId ?? null,
+    }),
+  },
+  {
+    version: 2,
+    description: "Add a direction to every transaction so income can be stored alongside expenses",
+    up: (data) => ({
+      ...data,
+      expenses: data.expenses.map((e: any) => ({ ...e, type: e.type === "income" ? "income" : "expense" })),
+    }),
+  },
+  {
+    version: 3,
+    description: "Add recurring expense rules",
+    up: (data) => ({ ...data, recurringRules: [] }),
+  },
+  {
+    version: 4,
+    description: "Store categories as data, seeded with the defaults plus any names already in use",
+    up: (data) => {
+      const categories: Category[] = DEFAULT_CATEGORIES.map((c) => ({ ...c }));
+      const known = new Set(categories.map((c) => c.key.toLowerCase()));
+      for (const e of data.expenses) {
+        if (typeof e.category === "string" && !known.has(e.category.toLowerCase())) {
+          known.add(e.category.toLowerCase());
+          categories.push({ key: e.category, type: e.type === "income" ? "income" : "expense", icon: "sparkles", color: "#a855f7" });
+        }
+      }
+      return { ...data, categories };
+    },
+  },
+  {
+    version: 5,
+    description: "Version budgets by period and add budget settings (cadence and rollover)",
+    up: ({ budget, ...data }) => ({
+      ...data,
+      budgets: [{ budget: budget ?? DEFAULT_BUDGET }],
+      budgetSettings: { cadence: "monthly", rollover: {} },
+    }),
+  },
+  {
+    version: 6,
+    description: "Add budget alerts and their thresholds",
+    up: (data) => ({
+      ...data,
+      alerts: [],
+      alertSettings: { defaults: [50, 80, 100], thresholds: {}, forecast: true, browser: false },
+    }),
+  },
+  {
+    version: 7,
+    description: "Add savings goals",
+    up: (data) => ({ ...data, goals: [] }),
+  },
+  {
+    version: 8,
+    description: "Add a base currency and an exchange-rate table",
+    up: (data) => ({ ...data, currency: { base: "INR", rates: [] } }),
+  },
+  {
+    version: 9,
+    description: "Keep chat conversations",
+    up: (data) => ({ ...data, conversations: [] }),
+  },
+  {
+    version: 10,
+    description: "Hold chat changes that wait for confirmation",
+    up: (data) => ({ ...data, pending: [] }),
+  },
+  {
+    version: 11,
+    description: "Confirm chat changes before applying them",
+    up: (data) => ({ ...data, confirmSettings: { autoCommit: false, minConfidence: 0.8 } }),
+  },
+  {
+    version: 12,
+    description: "Keep the whole bill on split expenses",
+    up: (data) => {
+      const withTotal = (e: any) => {
+        if (!e.split || typeof e.split.total === "number") return e;
+        const share = e.currency && typeof e.originalAmount === "number" ? e.originalAmount : e.amount;
+        return { ...e, split: { ...e.split, total: Math.round(share * e.split.people * 100) / 100 } };
+      };
+      return {
+        ...data,
+        expenses: data.expenses.map(withTotal),
+        pending: data.pending.map((a: any) => (a.kind === "log_expenses" ? { ...a, expenses: a.expenses.map(withTotal) } : a)),
+      };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export function migrate(raw: any): StoreData {
+  let data = raw ?? {};
+  const fromVersion: number = typeof data.schemaVersion === "number" ? data.schemaVersion : 0;
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Stored data has schema version ${fromVersion}, but this build only supports up to ${CURRENT_SCHEMA_VERSION}.`);
+  }
+
+  for (const migration of migrations) {
+    if (migration.version > fromVersion) {
+      data = { ...migration.up(data), schemaVersion: migration.version };
+    }
+  }
+  return data as StoreData;
+}
+
+export function emptyStoreData(): StoreData {
+  return migrate(null);
+}
@@ -0,0 +1,42 @@
+// types.ts
+
+import type { Session, UserAccount } from "@/app/accounts";
+import type { AlertSettings, BudgetAlert, BudgetSettings, BudgetVersion, Category, ConfirmSettings, Conversation, CurrencySettings, Expense, PendingAction, RecurringRule, SavingsGoal } from "@/app/expenseStore";
+
+// --- Persisted Document Shape ---
+export type StoreData = {
+  schemaVersion: number;
+  expenses: Expense[];
+  budgets: BudgetVersion[];
+  budgetSettings: BudgetSettings;
+  alerts: BudgetAlert[];
+  alertSettings: AlertSettings;
+  goals: SavingsGoal[];
+  currency: CurrencySettings;
+  lastTransactionId: string | null;
+  recurringRules: RecurringRule[];
+  categories: Category[];
+  conversations: Conversation[];
+  pending: PendingAction[];
+  confirmSettings: ConfirmSettings;
+};
+
+// Kept apart from the users' own documents (see accountStorage.ts).
+export type AccountData = {
+  users: UserAccount[];
+  sessions: Session[];
+};
+
+// --- Backend Contract ---
+// A backend only knows how to read and write the whole document. Migrations and
+// business rules live above it, so swapping JSON for another engine stays small.
+export interface StorageBackend {
+  readonly name: string;
+  load(): StoreData;
+  save(data: StoreData): void;
+}
+
+export interface AccountBackend {
+  load(): AccountData;
+  save(data: AccountData): void;
+}
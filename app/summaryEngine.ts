@@ -0,0 +1,473 @@
+// summaryEngine.ts
+
+import {
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  format,
+  isValid,
+  parse,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+  subDays,
+  subMonths,
+  subWeeks,
+  subYears,
+} from "date-fns";
+import { BudgetMap, CategoryKey, categoryKeys, categoryParents, Expense } from "@/app/expenseStore";
+import { normalizeTag } from "@/app/tags";
+import { formatMoney } from "@/app/currency";
+
+// --- Query Types ---
+// The model only extracts one of these from the user's question. Every number in
+// the answer is computed here, never by the model.
+export type PeriodKey =
+  | "today"
+  | "yesterday"
+  | "this_week"
+  | "last_week"
+  | "this_month"
+  | "last_month"
+  | "this_year"
+  | "last_year"
+  | "all_time";
+
+// A named period, a month name ("September", "September 2025") or an explicit dd-MM-yyyy range.
+export type PeriodSpec = PeriodKey | string | { from: string; to: string };
+
+export type SummaryType =
+  | "category_total"
+  | "all_spending"
+  | "by_period"
+  | "by_merchant"
+  | "by_tag"
+  | "compare_categories"
+  | "compare_periods"
+  | "budget_remaining"
+  | "income_total"
+  | "cash_flow";
+
+export type SummaryQuery = {
+  summary_type: SummaryType;
+  category?: CategoryKey;
+  categories?: CategoryKey[];
+  merchant?: string;
+  tag?: string;
+  period?: PeriodSpec;
+  periods?: PeriodSpec[];
+  granularity?: "day" | "week" | "month";
+};
+
+export type DateRange = { label: string; start: Date; end: Date };
+
+export type CashFlow = { income: number; spent: number; net: number; savingsRate: number | null };
+
+// `category` doubles as the row label so results render directly in SummaryCard.
+export type SummaryRow = { category: string; total: number };
+
+export type SummaryResult = {
+  summary_type: SummaryType;
+  period: string;
+  rows: SummaryRow[];
+  total: number;
+  count: number;
+  budget?: number;
+  remaining?: number;
+  difference?: number;
+  cashFlow?: CashFlow;
+};
+
+export const SUMMARY_TYPES: SummaryType[] = [
+  "category_total",
+  "all_spending",
+  "by_period",
+  "by_merchant",
+  "by_tag",
+  "compare_categories",
+  "compare_periods",
+  "budget_remaining",
+  "income_total",
+  "cash_flow",
+];
+
+export function normalizePeriod(p: unknown): PeriodSpec | undefined {
+  if (typeof p === "string") return p.trim() || undefined;
+  if (p && typeof p === "object" && typeof (p as any).from === "string" && typeof (p as any).to === "string") {
+    return { from: (p as any).from, to: (p as any).to };
+  }
+  return undefined;
+}
+
+// Coerces whatever the model extracted into a well-formed query. Unknown summary
+// types fall back to "all_spending" and unknown categories are dropped.
+export function normalizeSummaryQuery(data: any): SummaryQuery {
+  // Archived categories still have history worth asking about.
+  const known = categoryKeys("expense", true);
+  const toCategory = (c: unknown): CategoryKey | undefined =>
+    typeof c === "string" ? known.find((k) => k.toLowerCase() === c.trim().toLowerCase()) : undefined;
+
+  const summaryType: SummaryType = SUMMARY_TYPES.includes(data?.summary_type) ? data.summary_type : "all_spending";
+  const categories = Array.isArray(data?.categories)
+    ? data.categories.map(toCategory).filter((c: CategoryKey | undefined): c is CategoryKey => !!c)
+    : undefined;
+  const periods = Array.isArray(data?.periods)
+    ? data.periods.map(normalizePeriod).filter((p: PeriodSpec | undefined): p is PeriodSpec => !!p)
+    : undefined;
+
+  return {
+    summary_type: summaryType,
+    category: toCategory(data?.category),
+    categories,
+    merchant: typeof data?.merchant === "string" && data.merchant.trim() ? data.merchant.trim() : undefined,
+    tag: typeof data?.tag === "string" ? normalizeTag(data.tag) : undefined,
+    period: normalizePeriod(data?.period),
+    periods,
+    granularity: ["day", "week", "month"].includes(data?.granularity) ? data.granularity : undefined,
+  };
+}
+
+// --- Dates & Periods ---
+export function parseExpenseDate(date: string): Date {
+  return parse(date, "dd-MM-yyyy", new Date());
+}
+
+const PERIOD_ALIASES: Record<string, PeriodKey> = {
+  today: "today",
+  yesterday: "yesterday",
+  this_week: "this_week",
+  week: "this_week",
+  last_week: "last_week",
+  this_month: "this_month",
+  month: "this_month",
+  last_month: "last_month",
+  previous_month: "last_month",
+  this_year: "this_year",
+  year: "this_year",
+  year_to_date: "this_year",
+  last_year: "last_year",
+  all_time: "all_time",
+  all: "all_time",
+  overall: "all_time",
+};
+
+export function resolvePeriod(period: PeriodSpec | undefined, now = new Date()): DateRange {
+  if (period && typeof period === "object") {
+    const start = parseExpenseDate(period.from);
+    const end = parseExpenseDate(period.to);
+    if (isValid(start) && isValid(end)) {
+      return { label: `${period.from} to ${period.to}`, start: startOfDay(start), end: endOfDay(end) };
+    }
+    period = undefined;
+  }
+
+  const normalized = (period || "this_month").toString().trim().toLowerCase().replace(/[\s-]+/g, "_");
+  const key = PERIOD_ALIASES[normalized];
+  const weekOpts = { weekStartsOn: 1 as const };
+
+  switch (key) {
+    case "today":
+      return { label: "Today", start: startOfDay(now), end: endOfDay(now) };
+    case "yesterday": {
+      const d = subDays(now, 1);
+      return { label: "Yesterday", start: startOfDay(d), end: endOfDay(d) };
+    }
+    case "this_week":
+      return { label: "This week", start: startOfWeek(now, weekOpts), end: endOfWeek(now, weekOpts) };
+    case "last_week": {
+      const d = subWeeks(now, 1);
+      return { label: "Last week", start: startOfWeek(d, weekOpts), end: endOfWeek(d, weekOpts) };
+    }
+    case "this_month":
+      return { label: format(now, "MMMM yyyy"), start: startOfMonth(now), end: endOfMonth(now) };
+    case "last_month": {
+      const d = subMonths(now, 1);
+      return { label: format(d, "MMMM yyyy"), start: startOfMonth(d), end: endOfMonth(d) };
+    }
+    case "this_year":
+      return { label: format(now, "yyyy"), start: startOfYear(now), end: endOfYear(now) };
+    case "last_year": {
+      const d = subYears(now, 1);
+      return { label: format(d, "yyyy"), start: startOfYear(d), end: endOfYear(d) };
+    }
+    case "all_time":
+      return { label: "all time", start: new Date(0), end: endOfDay(now) };
+  }
+
+  // Month names, with or without a year. A bare month in the future means last year's.
+  const raw = period!.toString().trim();
+  for (const pattern of ["MMMM yyyy", "MMM yyyy", "MM-yyyy", "MMMM", "MMM"]) {
+    const d = parse(raw, pattern, now);
+    if (isValid(d)) {
+      const month = !pattern.includes("yyyy") && d > now ? subYears(d, 1) : d;
+      return { label: format(month, "MMMM yyyy"), start: startOfMonth(month), end: endOfMonth(month) };
+    }
+  }
+
+  return resolvePeriod("this_month", now);
+}
+
+export function filterByRange(expenses: Expense[], range: DateRange): Expense[] {
+  return expenses.filter((e) => {
+    const d = parseExpenseDate(e.date);
+    return isValid(d) && d >= range.start && d <= range.end;
+  });
+}
+
+// --- Direction ---
+export function isIncome(e: Expense): boolean {
+  return e.type === "income";
+}
+
+export function spendingOnly(expenses: Expense[]): Expense[] {
+  return expenses.filter((e) => !isIncome(e));
+}
+
+export function incomeOnly(expenses: Expense[]): Expense[] {
+  return expenses.filter(isIncome);
+}
+
+// --- Aggregations ---
+function sum(expenses: Expense[]): number {
+  return expenses.reduce((a, e) => a + (Number(e.amount) || 0), 0);
+}
+
+function sortedRows(m: Map<string, number>): SummaryRow[] {
+  return Array.from(m.entries())
+    .map(([category, total]) => ({ category, total }))
+    .sort((a, b) => b.total - a.total);
+}
+
+// Pass `parents` (from categoryParents) to roll sub-categories up into their parent.
+export function totalsByCategory(expenses: Expense[], parents: Record<string, string> = {}): SummaryRow[] {
+  const m = new Map<string, number>();
+  expenses.forEach((e) => {
+    const key = parents[e.category] ?? e.category;
+    m.set(key, (m.get(key) || 0) + e.amount);
+  });
+  return sortedRows(m);
+}
+
+// An expense with several tags counts towards each of them.
+export function totalsByTag(expenses: Expense[]): SummaryRow[] {
+  const m = new Map<string, number>();
+  expenses.forEach((e) => (e.tags || []).forEach((t) => m.set(`#${t}`, (m.get(`#${t}`) || 0) + e.amount)));
+  return sortedRows(m);
+}
+
+export function totalsByPeriod(expenses: Expense[], granularity: "day" | "week" | "month" = "month"): SummaryRow[] {
+  const buckets = new Map<number, { label: string; total: number }>();
+  expenses.forEach((e) => {
+    const d = parseExpenseDate(e.date);
+    if (!isValid(d)) return;
+    const start =
+      granularity === "day" ? startOfDay(d) : granularity === "week" ? startOfWeek(d, { weekStartsOn: 1 }) : startOfMonth(d);
+    const label =
+      granularity === "day" ? format(start, "dd MMM") : granularity === "week" ? `Week of ${format(start, "dd MMM")}` : format(start, "MMM yyyy");
+    const bucket = buckets.get(start.getTime()) || { label, total: 0 };
+    bucket.total += e.amount;
+    buckets.set(start.getTime(), bucket);
+  });
+  // Chronological order reads better than largest-first for a time series.
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, b]) => ({ category: b.label, total: b.total }));
+}
+
+export function totalsByMerchant(expenses: Expense[]): SummaryRow[] {
+  const m = new Map<string, number>();
+  expenses.forEach((e) => {
+    const key = e.note?.trim() ? e.note.trim().toLowerCase() : e.category.toLowerCase();
+    m.set(key, (m.get(key) || 0) + e.amount);
+  });
+  return sortedRows(m).map((r) => ({ ...r, category: r.category.replace(/\b\w/g, (c) => c.toUpperCase()) }));
+}
+
+// Savings rate is the share of income left after spending; null when there was no income.
+export function cashFlow(transactions: Expense[]): CashFlow {
+  const income = sum(incomeOnly(transactions));
+  const spent = sum(spendingOnly(transactions));
+  const net = income - spent;
+  return { income, spent, net, savingsRate: income > 0 ? (net / income) * 100 : null };
+}
+
+function matchesMerchant(e: Expense, merchant: string): boolean {
+  return (e.note || "").toLowerCase().includes(merchant.trim().toLowerCase());
+}
+
+function hasTag(e: Expense, tag: string): boolean {
+  return !!e.tags?.includes(tag);
+}
+
+// Asking about a parent category includes its sub-categories ("Food" covers "Groceries").
+function inCategory(e: Expense, category: string, parents: Record<string, string>): boolean {
+  return e.category === category || parents[e.category] === category;
+}
+
+// --- Query Execution ---
+export function runSummaryQuery(
+  query: SummaryQuery,
+  expenses: Expense[],
+  budget: BudgetMap,
+  now = new Date(),
+  parents: Record<string, string> = categoryParents()
+): SummaryResult {
+  const range = resolvePeriod(query.period, now);
+  let allInPeriod = filterByRange(expenses, range);
+  if (query.merchant) allInPeriod = allInPeriod.filter((e) => matchesMerchant(e, query.merchant!));
+  if (query.tag) allInPeriod = allInPeriod.filter((e) => hasTag(e, query.tag!));
+  const ofCategory = (list: Expense[]) => (query.category ? list.filter((e) => inCategory(e, query.category!, parents)) : list);
+  // Unless a query is explicitly about income, only money going out counts.
+  const inPeriod = spendingOnly(allInPeriod);
+
+  switch (query.summary_type) {
+    case "income_total": {
+      const selected = incomeOnly(allInPeriod);
+      return { summary_type: query.summary_type, period: range.label, rows: totalsByCategory(selected), total: sum(selected), count: selected.length };
+    }
+
+    case "cash_flow": {
+      const flow = cashFlow(allInPeriod);
+      return {
+        summary_type: query.summary_type,
+        period: range.label,
+        rows: [
+          { category: "Income", total: flow.income },
+          { category: "Spent", total: flow.spent },
+          { category: "Net savings", total: flow.net },
+        ],
+        total: flow.net,
+        count: allInPeriod.length,
+        cashFlow: flow,
+      };
+    }
+
+    case "category_total": {
+      const selected = ofCategory(inPeriod);
+      const rows = query.category ? [{ category: query.category, total: sum(selected) }] : totalsByCategory(selected, parents);
+      return { summary_type: query.summary_type, period: range.label, rows, total: sum(selected), count: selected.length };
+    }
+
+    case "by_period": {
+      const selected = ofCategory(inPeriod);
+      const granularity = query.granularity || (range.end.getTime() - range.start.getTime() > 45 * 86400000 ? "month" : "day");
+      return { summary_type: query.summary_type, period: range.label, rows: totalsByPeriod(selected, granularity), total: sum(selected), count: selected.length };
+    }
+
+    case "by_merchant": {
+      const selected = ofCategory(inPeriod);
+      return { summary_type: query.summary_type, period: range.label, rows: totalsByMerchant(selected), total: sum(selected), count: selected.length };
+    }
+
+    case "by_tag": {
+      const selected = ofCategory(inPeriod).filter((e) => e.tags?.length);
+      return { summary_type: query.summary_type, period: range.label, rows: totalsByTag(selected), total: sum(selected), count: selected.length };
+    }
+
+    case "compare_categories": {
+      const categories = (query.categories || []).slice(0, 2);
+      const rows = categories.map((c) => ({ category: c, total: sum(inPeriod.filter((e) => inCategory(e, c, parents))) }));
+      const selected = inPeriod.filter((e) => categories.some((c) => inCategory(e, c, parents)));
+      return {
+        summary_type: query.summary_type,
+        period: range.label,
+        rows,
+        total: sum(selected),
+        count: selected.length,
+        difference: rows.length === 2 ? rows[0].total - rows[1].total : undefined,
+      };
+    }
+
+    case "compare_periods": {
+      const periods = query.periods && query.periods.length >= 2 ? query.periods.slice(0, 2) : ["this_month", "last_month"];
+      const ranges = periods.map((p) => resolvePeriod(p, now));
+      const totals = ranges.map((r) => {
+        let selected = spendingOnly(filterByRange(expenses, r));
+        if (query.category) selected = selected.filter((e) => inCategory(e, query.category!, parents));
+        if (query.merchant) selected = selected.filter((e) => matchesMerchant(e, query.merchant!));
+        if (query.tag) selected = selected.filter((e) => hasTag(e, query.tag!));
+        return { category: r.label, total: sum(selected), count: selected.length };
+      });
+      return {
+        summary_type: query.summary_type,
+        period: ranges.map((r) => r.label).join(" vs "),
+        rows: totals.map(({ category, total }) => ({ category, total })),
+        total: totals.reduce((a, t) => a + t.total, 0),
+        count: totals.reduce((a, t) => a + t.count, 0),
+        difference: totals[0].total - totals[1].total,
+      };
+    }
+
+    case "budget_remaining": {
+      const selected = ofCategory(inPeriod);
+      const limit = (query.category ? budget[query.category] : budget.total) || 0;
+      const spent = sum(selected);
+      return {
+        summary_type: query.summary_type,
+        period: range.label,
+        rows: [
+          { category: "Spent", total: spent },
+          { category: "Remaining", total: limit - spent },
+        ],
+        total: spent,
+        count: selected.length,
+        budget: limit,
+        remaining: limit - spent,
+      };
+    }
+
+    case "all_spending":
+    default:
+      return { summary_type: "all_spending", period: range.label, rows: totalsByCategory(inPeriod, parents), total: sum(inPeriod), count: inPeriod.length };
+  }
+}
+
+// --- Deterministic Phrasing ---
+// Used when the model is unavailable, and as the factual basis the model rephrases.
+export function describeSummary(result: SummaryResult, currency: string): string {
+  const { summary_type, period, rows, total, count } = result;
+  const money = (n: number) => formatMoney(n, currency);
+  if (count === 0 && summary_type !== "budget_remaining") {
+    if (summary_type === "income_total") return `I couldn't find any income recorded for ${period}.`;
+    return `I couldn't find any matching expenses for ${period}.`;
+  }
+
+  switch (summary_type) {
+    case "compare_categories":
+    case "compare_periods": {
+      if (rows.length < 2) return `You spent ${money(total)} in ${period}.`;
+      const [a, b] = rows;
+      const diff = Math.abs(result.difference || 0);
+      if (diff === 0) return `${a.category} and ${b.category} are level at ${money(a.total)} each (${period}).`;
+      const higher = a.total > b.total ? a : b;
+      const lower = higher === a ? b : a;
+      const preposition = summary_type === "compare_periods" ? "in" : "on";
+      return `${higher.category}: ${money(higher.total)} vs ${lower.category}: ${money(lower.total)} — ${money(diff)} more ${preposition} ${higher.category}.`;
+    }
+    case "budget_remaining": {
+      if (!result.budget) return `You've spent ${money(total)} in ${period}, but no budget is set for that.`;
+      const remaining = result.remaining || 0;
+      return remaining >= 0
+        ? `You've spent ${money(total)} of ${money(result.budget)} in ${period}, leaving ${money(remaining)}.`
+        : `You've spent ${money(total)} of ${money(result.budget)} in ${period} — ${money(-remaining)} over budget.`;
+    }
+    case "by_tag":
+      return `Tagged spending came to ${money(total)} across ${count} ${count === 1 ? "entry" : "entries"} in ${period}, led by ${rows[0].category} at ${money(rows[0].total)}.`;
+    case "income_total":
+      return `You've received ${money(total)} across ${count} ${count === 1 ? "entry" : "entries"} in ${period}.`;
+    case "cash_flow": {
+      const flow = result.cashFlow!;
+      const rate = flow.savingsRate === null ? "" : ` (a ${flow.savingsRate.toFixed(0)}% savings rate)`;
+      return flow.net >= 0
+        ? `In ${period} you earned ${money(flow.income)} and spent ${money(flow.spent)}, saving ${money(flow.net)}${rate}.`
+        : `In ${period} you earned ${money(flow.income)} and spent ${money(flow.spent)} — ${money(-flow.net)} more than you earned.`;
+    }
+    case "category_total":
+      if (rows.length === 1) return `You've spent ${money(total)} on ${rows[0].category} in ${period} (${count} ${count === 1 ? "entry" : "entries"}).`;
+      return `You've spent ${money(total)} across ${count} entries in ${period}.`;
+    default:
+      return `You've spent ${money(total)} across ${count} entries in ${period}.`;
+  }
+}
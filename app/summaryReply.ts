@@ -0,0 +1,58 @@
+// summaryReply.ts
+
+import { canPhrase, generate } from "@/app/llm";
+import { CancelledError } from "@/app/llm/stream";
+import { describeSummary, SummaryResult } from "@/app/summaryEngine";
+import { describeForecast, SpendingForecast } from "@/app/forecast";
+
+// Asks the model to phrase an already-computed summary. The model is told to use
+// the given figures verbatim; if it is unavailable we fall back to a plain sentence.
+export async function phraseSummary(question: string, result: SummaryResult, currency: string): Promise<string> {
+  const facts = describeSummary(result, currency);
+  if (!canPhrase()) return facts;
+  try {
+    const text = await generate({ prompt: `
+You are "Fin", a friendly AI financial assistant. The numbers below were computed exactly by the app.
+Write a short, conversational answer (1-3 sentences) to the user's question using ONLY these numbers.
+Do not recalculate, round differently, or invent any figures. Amounts are in ${currency}.
+
+Computed result: ${JSON.stringify(result)}
+Plain summary: ${facts}
+
+User's question: "${question}"
+
+Reply with the answer text only, no JSON.` });
+    return text.trim() || facts;
+  } catch (err) {
+    if (!(err instanceof CancelledError)) console.error("❌ Summary phrasing failed:", err);
+    return facts;
+  }
+}
+
+// Answers an advice question ("will I stay under budget?") from the computed month-end
+// forecast. `draft` is the advice the model gave before seeing the forecast; it is kept
+// as context for the tips and, when the model is unavailable, after the plain forecast.
+export async function phraseAdvice(question: string, forecast: SpendingForecast, draft: string, category?: string): Promise<string> {
+  const facts = describeForecast(forecast, category);
+  const fallback = [facts, draft].filter(Boolean).join(" ");
+  if (!canPhrase()) return fallback;
+  try {
+    const text = await generate({ prompt: `
+You are "Fin", a friendly AI financial assistant. The month-end forecast below was computed exactly by the app
+from the user's spending so far, their recurring bills and previous months. "low"–"high" is the likely range.
+Answer the user's question in 2-4 sentences using ONLY these figures, then add one specific, actionable tip.
+Do not recalculate, round differently, or invent any figures. Amounts are in ${forecast.currency}.
+
+Forecast: ${JSON.stringify(forecast)}
+Plain summary: ${facts}
+Earlier draft advice (may ignore): ${draft || "(none)"}
+
+User's question: "${question}"
+
+Reply with the answer text only, no JSON.` });
+    return text.trim() || fallback;
+  } catch (err) {
+    if (!(err instanceof CancelledError)) console.error("❌ Advice phrasing failed:", err);
+    return fallback;
+  }
+}
@@ -0,0 +1,43 @@
+// tags.ts
+
+// Tags are short lowercase labels like "goa-trip", stored without the leading "#".
+const TAG = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+// In chat text an all-digit "#2" is a list reference ("delete #2"), not a tag.
+const TAG_IN_TEXT = /(^|\s)#(?![0-9]+(?![a-z0-9_-]))([a-z0-9][a-z0-9_-]{0,39})\b/gi;
+
+export const MAX_TAGS = 10;
+
+export function normalizeTag(raw: string): string | undefined {
+  const tag = raw.trim().replace(/^#/, "").toLowerCase();
+  return TAG.test(tag) ? tag : undefined;
+}
+
+// Accepts an array of tags (with or without "#") and returns them normalized and de-duplicated.
+export function normalizeTags(value: unknown): { tags: string[] } | { error: string } {
+  if (!Array.isArray(value)) return { error: "must be an array of tags." };
+  const tags: string[] = [];
+  for (const raw of value) {
+    const tag = typeof raw === "string" ? normalizeTag(raw) : undefined;
+    if (!tag) return { error: `has an invalid tag ${JSON.stringify(raw)}; use letters, digits, "-" or "_".` };
+    if (!tags.includes(tag)) tags.push(tag);
+  }
+  if (tags.length > MAX_TAGS) return { error: `can hold at most ${MAX_TAGS} tags.` };
+  return { tags };
+}
+
+// Pulls "#tags" out of a chat message: "400 dinner #goa-trip" → "400 dinner" + ["goa-trip"].
+export function extractTags(text: string): { text: string; tags: string[] } {
+  const tags: string[] = [];
+  const rest = text.replace(TAG_IN_TEXT, (_match, lead: string, tag: string) => {
+    const normalized = tag.toLowerCase();
+    if (!tags.includes(normalized) && tags.length < MAX_TAGS) tags.push(normalized);
+    return lead;
+  });
+  return { text: rest.replace(/\s+([,.!?])/g, "$1").replace(/\s+/g, " ").trim(), tags };
+}
+
+// Merges tags without duplicates, keeping the order they were first seen in.
+export function mergeTags(...lists: (string[] | undefined)[]): string[] | undefined {
+  const merged = Array.from(new Set(lists.flatMap((l) => l ?? [])));
+  return merged.length ? merged : undefined;
+}
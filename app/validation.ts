@@ -0,0 +1,206 @@
+// validation.ts
+
+import { isValid } from "date-fns";
+import { AlertSettings, BudgetCadence, ConfirmSettings, BudgetMap, CategoryKey, categoryKeys, Expense, IncomeCategoryKey, TransactionType } from "@/app/expenseStore";
+import { BUDGET_CADENCES } from "@/app/budgets";
+import { parseExpenseDate } from "@/app/summaryEngine";
+import { normalizeTags } from "@/app/tags";
+import { normalizeCurrency } from "@/app/currency";
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export type ExpenseInput = Omit<Expense, "id">;
+
+export function isValidDate(value: unknown): value is string {
+  return typeof value === "string" && /^\d{2}-\d{2}-\d{4}$/.test(value) && isValid(parseExpenseDate(value));
+}
+
+// Only active categories match; archived ones exist for history, not for new entries.
+export function matchCategory(value: unknown, type: TransactionType): CategoryKey | IncomeCategoryKey | undefined {
+  if (typeof value !== "string") return undefined;
+  return categoryKeys(type).find((k) => k.toLowerCase() === value.trim().toLowerCase());
+}
+
+// Validates a full expense for creation, or a subset of fields for an update when
+// `existing` is given. Category names are matched case-insensitively and normalized.
+export function validateExpenseInput(body: any, existing?: Expense): ValidationResult<Partial<ExpenseInput>> {
+  const errors: string[] = [];
+  const partial = !!existing;
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, errors: ["Request body must be a JSON object."] };
+  }
+
+  const value: Partial<ExpenseInput> = {};
+
+  if (body.type !== undefined) {
+    if (body.type !== "expense" && body.type !== "income") errors.push(`"type" must be "expense" or "income".`);
+    else value.type = body.type;
+  } else if (!partial) {
+    value.type = "expense";
+  }
+  const type = value.type ?? existing?.type ?? "expense";
+
+  if (body.amount !== undefined || !partial) {
+    if (typeof body.amount !== "number" || !Number.isFinite(body.amount) || body.amount <= 0) {
+      errors.push(`"amount" must be a positive number.`);
+    } else {
+      value.amount = body.amount;
+    }
+  }
+
+  // Changing the type on its own must still leave a category valid for the new type.
+  if (body.category !== undefined || !partial || (value.type && value.type !== existing?.type)) {
+    const requested = body.category ?? existing?.category;
+    // An entry already filed under an archived category may keep it when other fields are edited.
+    const unchanged = existing && existing.type === type && typeof requested === "string" && requested.trim().toLowerCase() === existing.category.toLowerCase();
+    const category = unchanged ? existing.category : matchCategory(requested, type);
+    if (!category) {
+      errors.push(`"category" must be one of: ${categoryKeys(type).join(", ")}.`);
+    } else {
+      value.category = category;
+    }
+  }
+
+  if (body.note !== undefined) {
+    if (body.note !== null && typeof body.note !== "string") errors.push(`"note" must be a string.`);
+    else value.note = body.note?.trim() || undefined;
+  }
+
+  if (body.tags !== undefined) {
+    const checked = normalizeTags(body.tags ?? []);
+    if ("error" in checked) errors.push(`"tags" ${checked.error}`);
+    else value.tags = checked.tags.length ? checked.tags : undefined;
+  }
+
+  if (body.date !== undefined || !partial) {
+    if (!isValidDate(body.date)) errors.push(`"date" must be a valid date in dd-MM-yyyy format.`);
+    else value.date = body.date;
+  }
+
+  // The amount is in this currency; the caller converts it (see priceEntry). null means the base currency.
+  if (body.currency !== undefined) {
+    const currency = body.currency === null ? undefined : normalizeCurrency(body.currency);
+    if (body.currency !== null && !currency) errors.push(`"currency" must be a three-letter code like USD.`);
+    else value.currency = currency;
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, value };
+}
+
+// A budget is a map of expense categories (plus "total") to non-negative amounts.
+export function validateBudget(body: any): ValidationResult<BudgetMap> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, errors: ["Budget must be a JSON object."] };
+  }
+  const errors: string[] = [];
+  const budget: BudgetMap = {};
+  for (const [key, amount] of Object.entries(body)) {
+    const category = key === "total" ? "total" : matchCategory(key, "expense");
+    if (!category) {
+      errors.push(`Unknown budget category "${key}". Use "total" or one of: ${categoryKeys("expense").join(", ")}.`);
+      continue;
+    }
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount < 0) {
+      errors.push(`Budget for "${key}" must be a non-negative number.`);
+      continue;
+    }
+    budget[category as CategoryKey | "total"] = amount;
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value: budget };
+}
+
+// Accepts { cadence?, rollover? } where rollover lists the budget keys ("total" or
+// expense categories) that should carry leftovers into the next period.
+export function validateBudgetSettings(body: any): ValidationResult<{ cadence?: BudgetCadence; rollover?: string[] }> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, errors: ["Budget settings must be a JSON object."] };
+  }
+  const errors: string[] = [];
+  const value: { cadence?: BudgetCadence; rollover?: string[] } = {};
+  if (body.cadence !== undefined) {
+    if (!BUDGET_CADENCES.includes(body.cadence)) errors.push(`"cadence" must be one of: ${BUDGET_CADENCES.join(", ")}.`);
+    else value.cadence = body.cadence;
+  }
+  if (body.rollover !== undefined) {
+    if (!Array.isArray(body.rollover)) {
+      errors.push(`"rollover" must be an array of budget keys.`);
+    } else {
+      value.rollover = [];
+      for (const key of body.rollover) {
+        const category = key === "total" ? "total" : matchCategory(key, "expense");
+        if (category) value.rollover.push(category);
+        else errors.push(`Unknown budget category ${JSON.stringify(key)} in "rollover".`);
+      }
+    }
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value };
+}
+
+// Thresholds are whole percentages of a budget, kept sorted and de-duplicated.
+function checkThresholds(value: unknown, field: string, errors: string[]): number[] | undefined {
+  if (!Array.isArray(value) || value.some((t) => typeof t !== "number" || !Number.isInteger(t) || t < 1 || t > 500)) {
+    errors.push(`${field} must be an array of whole percentages between 1 and 500.`);
+    return undefined;
+  }
+  return Array.from(new Set(value as number[])).sort((a, b) => a - b);
+}
+
+// Accepts { defaults?, thresholds?, forecast?, browser? }. `thresholds` replaces the
+// per-key overrides as a whole; a key with [] gets no threshold alerts.
+export function validateAlertSettings(body: any): ValidationResult<Partial<AlertSettings>> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, errors: ["Alert settings must be a JSON object."] };
+  }
+  const errors: string[] = [];
+  const value: Partial<AlertSettings> = {};
+  if (body.defaults !== undefined) {
+    const defaults = checkThresholds(body.defaults, `"defaults"`, errors);
+    if (defaults) value.defaults = defaults;
+  }
+  if (body.thresholds !== undefined) {
+    if (!body.thresholds || typeof body.thresholds !== "object" || Array.isArray(body.thresholds)) {
+      errors.push(`"thresholds" must be an object of budget key → percentages.`);
+    } else {
+      value.thresholds = {};
+      for (const [key, list] of Object.entries(body.thresholds)) {
+        const category = key === "total" ? "total" : matchCategory(key, "expense");
+        if (!category) {
+          errors.push(`Unknown budget category ${JSON.stringify(key)} in "thresholds".`);
+          continue;
+        }
+        const thresholds = checkThresholds(list, `"thresholds.${key}"`, errors);
+        if (thresholds) value.thresholds[category] = thresholds;
+      }
+    }
+  }
+  for (const flag of ["forecast", "browser"] as const) {
+    if (body[flag] === undefined) continue;
+    if (typeof body[flag] !== "boolean") errors.push(`"${flag}" must be true or false.`);
+    else value[flag] = body[flag];
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value };
+}
+
+// Accepts { autoCommit?, minConfidence?, maxAmount? }; `maxAmount: null` removes the limit.
+export function validateConfirmSettings(body: any): ValidationResult<Partial<ConfirmSettings>> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, errors: ["Confirmation settings must be a JSON object."] };
+  }
+  const errors: string[] = [];
+  const value: Partial<ConfirmSettings> = {};
+  if (body.autoCommit !== undefined) {
+    if (typeof body.autoCommit !== "boolean") errors.push(`"autoCommit" must be true or false.`);
+    else value.autoCommit = body.autoCommit;
+  }
+  if (body.minConfidence !== undefined) {
+    if (typeof body.minConfidence !== "number" || !(body.minConfidence >= 0 && body.minConfidence <= 1)) errors.push(`"minConfidence" must be a number from 0 to 1.`);
+    else value.minConfidence = body.minConfidence;
+  }
+  if (body.maxAmount === null) {
+    value.maxAmount = undefined;
+  } else if (body.maxAmount !== undefined) {
+    if (typeof body.maxAmount !== "number" || !Number.isFinite(body.maxAmount) || body.maxAmount < 0) errors.push(`"maxAmount" must be a non-negative number, or null for no limit.`);
+    else value.maxAmount = body.maxAmount;
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value };
+}